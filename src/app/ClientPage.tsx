@@ -2,6 +2,29 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { useLiveSightings } from '@/lib/useLiveSightings';
+import { useLocalSightings, isOfflineError, randomKey, SubmitError, type QueuedSighting } from '@/lib/useLocal';
+import type { Sighting } from '@/lib/sighting';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/sightingExport';
+import { MAX_ALERT_AREAS, type AlertArea, type LatLng, type QuietHours } from '@/lib/alertAreas';
+import { DEFAULT_DIGEST_PREFS, DIGEST_MODES, type DigestMode, type DigestPrefs } from '@/lib/digest';
+import {
+  LOCALES, LOCALE_LABELS, TEMPLATE_PARTS, TEMPLATE_VARS, TEMPLATE_VAR_HELP, renderTemplate,
+  type Locale, type NotifyTemplate, type RoomTemplates, type TemplatePart, type TemplateVars,
+} from '@/lib/notifyTemplates';
+import {
+  EDIT_POLICIES, JOIN_MODES, ROLES, atLeast, canModifySighting,
+  type EditPolicy, type JoinMode, type MembershipStatus, type Role, type RoomSettings,
+} from '@/lib/roles';
+import {
+  IMPORT_FIELDS, geocodeQuery, guessMapping, mapRecords, needsGeocode, parseImportFile,
+  type ImportMapping, type ImportRow, type ParsedFile,
+} from '@/lib/sightingImport';
+import { parseDeepLink, roomPath, sightingPath } from '@/lib/deepLinks';
+import { COUNTRIES, DEFAULT_COUNTRY, countryName, placeLabel, regionLabel } from '@/lib/regions';
+import { EMPTY_FILTERS, applyFilters, filtersToApiParams, filtersToParams, isFiltering, parseFilters, type SightingFilters, type SightingSort } from '@/lib/sightingFilters';
+
+export type { Sighting } from '@/lib/sighting';
 
 // ==========================
 // Supabase (client) bootstrap
@@ -27,23 +50,6 @@ const storage = {
 // ====================
 // Types (DB-ish shapes)
 // ====================
-export type Sighting = {
-  id: string;
-  room_id: string;
-  summary: string;
-  city: string;
-  state: string;
-  address_text: string | null;
-  lat: number | null;
-  lng: number | null;
-  reported_at: string; // ISO
-  user_name: string | null;
-  media_urls?: string[] | null;
-  vehicle_make?: string | null;
-  vehicle_model?: string | null;
-  vehicle_color?: string | null;
-};
-
 export type Member = {
   id: string;
   room_id: string;
@@ -78,9 +84,6 @@ function randomId() {
   // @ts-ignore
   return crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2);
 }
-function randomAdminCode() {
-  return Math.floor(100000 + Math.random() * 900000).toString(); // 6-digit
-}
 function buildStorageKey(roomId: string, filename: string) {
   const safeName = filename.replace(/\s+/g, '_');
   return `${roomId}/${randomId()}-${safeName}`;
@@ -99,16 +102,30 @@ function toLocalInputValue(dOrIso: Date | string) {
 // ==========================
 // Leaflet loader (client-only)
 // ==========================
-function injectLeafletCssOnce() {
+function injectCssOnce(id: string, href: string, integrity: string) {
   if (typeof document === 'undefined') return;
-  if (document.getElementById('leaflet-css')) return;
+  if (document.getElementById(id)) return;
   const link = document.createElement('link');
-  link.id = 'leaflet-css'; link.rel = 'stylesheet';
-  link.href = 'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css';
-  link.integrity = 'sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY=';
+  link.id = id; link.rel = 'stylesheet';
+  link.href = href;
+  link.integrity = integrity;
   link.crossOrigin = ''; document.head.appendChild(link);
 }
-async function loadLeaflet(): Promise<any> { if (typeof window === 'undefined') return null; injectLeafletCssOnce(); return await import('leaflet'); }
+function injectLeafletCssOnce() {
+  injectCssOnce('leaflet-css', 'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css', 'sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY=');
+  injectCssOnce('leaflet-cluster-css', 'https://unpkg.com/leaflet.markercluster@1.5.3/dist/MarkerCluster.css', 'sha256-YU3qCpj/P06tdPBJGPax0bm6Q1wltfwjsho5TR4+TYc=');
+  injectCssOnce('leaflet-cluster-default-css', 'https://unpkg.com/leaflet.markercluster@1.5.3/dist/MarkerCluster.Default.css', 'sha256-YSWCMtmNZNwqex4CEw1nQhvFub2lmU7vcCKP+XVwwXA=');
+}
+// Plugins (markercluster, heat) attach to the global L that leaflet sets on window
+async function loadLeaflet() {
+  if (typeof window === 'undefined') return null;
+  injectLeafletCssOnce();
+  const L = await import('leaflet');
+  await Promise.all([import('leaflet.markercluster'), import('leaflet.heat')]);
+  return L;
+}
+// leaflet's type declarations aren't installed, so its maps, layers and events come through untyped
+type LeafletObject = Awaited<ReturnType<typeof loadLeaflet>>;
 function mapStateKey(roomId: string) { return `ufo:mapstate:${roomId || 'none'}`; }
 
 // NEW: geocodeAddress with map-center bias support
@@ -132,23 +149,57 @@ async function geocodeAddress(q: string, roomIdForBias?: string) {
   return (await r.json()) as { address_text?: string; lat?: number; lng?: number };
 }
 
-async function ensureMember(roomId: string, email?: string, phone_e164?: string) {
-  if (!roomId || (!email && !phone_e164)) return;
+// Map point → address + city/state (GET /api/geocode/reverse)
+async function reverseGeocode(lat: number, lng: number) {
+  const r = await fetch(`/api/geocode/reverse?${new URLSearchParams({ lat: String(lat), lng: String(lng) })}`);
+  if (!r.ok) throw new Error(`reverse geocode failed: ${r.status}`);
+  return (await r.json()) as { address_text?: string; city?: string; state?: string; state_code?: string; country_code?: string };
+}
+
+// Calls our API with the signed-in user's access token (server checks session + membership)
+async function apiFetch(path: string, init: { method?: string; body?: unknown } = {}) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  const res = await fetch(path, {
+    method: init.method || 'GET',
+    headers: {
+      ...(init.body !== undefined ? { 'content-type': 'application/json' } : {}),
+      ...(token ? { authorization: `Bearer ${token}` } : {}),
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+  const json = await res.json().catch(() => ({}));
+  return { status: res.status, json };
+}
+function apiError(r: { status: number; json: unknown }) {
+  const j = (r.json || {}) as { errors?: string[]; error?: string };
+  return j.errors?.join('; ') || j.error || `HTTP ${r.status}`;
+}
+// Saves an API attachment (e.g. an export) fetched with the session token, which a plain link can't send
+async function downloadFile(path: string) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  const res = await fetch(path, { headers: token ? { authorization: `Bearer ${token}` } : {} });
+  if (!res.ok) throw new Error(apiError({ status: res.status, json: await res.json().catch(() => ({})) }));
+  const name = res.headers.get('content-disposition')?.match(/filename="([^"]+)"/)?.[1] || 'sightings';
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement('a');
+  a.href = url; a.download = name; a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Join (or ask to join) as the signed-in user; json.status is 'approved' | 'pending' | 'denied'
+async function ensureMember(roomId: string) {
+  if (!roomId) return null;
   try {
-    const res = await fetch('/api/members/join', {
-      method: 'POST', headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ room_id: roomId, email, phone_e164 }),
-    });
-    await res.json().catch(() => ({}));
-  } catch {}
+    return await apiFetch('/api/members/join', { method: 'POST', body: { room_id: roomId } });
+  } catch { return null; }
 }
 async function notifyRoom(params: {
   room_id: string; title: string; notes?: string; address_text?: string | null; lat?: number | null; lng?: number | null; when_iso?: string | null;
 }) {
   try {
-    const res = await fetch('/api/notify', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(params) });
-    const json = await res.json().catch(() => ({}));
-    return { status: res.status, json };
+    return await apiFetch('/api/notify', { method: 'POST', body: params });
   } catch (e) { return { status: 0, json: { error: String(e) } }; }
 }
 
@@ -168,11 +219,57 @@ async function resetAppCache() {
   }
 }
 
+// ---- Sighting marker helpers (MapPane) ----
+function markerStyle(isSel: boolean, fill = 0.85) {
+  return {
+    radius: isSel ? 8 : 6,
+    weight: isSel ? 2 : 1,
+    color: isSel ? '#dc2626' : '#1d4ed8',
+    fillColor: isSel ? '#fecaca' : '#bfdbfe',
+    fillOpacity: isSel ? 0.85 : fill,
+    opacity: isSel ? 1 : Math.min(1, fill + 0.15),
+  };
+}
+// /api/sightings page sizes (server caps: 1000 per page, 2000 per viewport)
+const PAGE_SIZE = 200;
+const MAX_PAGE_SIZE = 1000;
+const VIEWPORT_LIMIT = 2000;
+
+type ViewportBounds = { west: number; south: number; east: number; north: number };
+
+// Older points inside the time window fade out (newest ≈ solid, oldest ≈ faint)
+type TimeWindow = { start: number; end: number };
+function fadeOpacity(iso: string, win: TimeWindow | null) {
+  if (!win) return 0.85;
+  const t = (new Date(iso).getTime() - win.start) / Math.max(1, win.end - win.start);
+  return 0.15 + 0.8 * Math.min(1, Math.max(0, t));
+}
+function markerPopupHtml(p: Sighting) {
+  const qEnc = encodeURIComponent(p.address_text || placeLabel(p) || 'Sighting');
+  const apple = `https://maps.apple.com/?ll=${p.lat},${p.lng}&q=${qEnc}`;
+  const gmaps = `https://www.google.com/maps/search/?api=1&query=${p.lat},${p.lng}`;
+  return `<div style="font: 12px system-ui">
+     <b>${(p.summary || '').replace(/</g, '&lt;')}</b><br/>
+     ${placeLabel(p).replace(/</g, '&lt;')}<br/>
+     ${p.address_text ? (p.address_text as string).replace(/</g, '&lt;') + '<br/>' : ''}
+     <span style="color:#6b7280">${fmtLocal(p.reported_at)}</span>
+     <div style="margin-top:6px">
+       <a href="${apple}" target="_blank" rel="noreferrer">Apple Maps</a> •
+       <a href="${gmaps}" target="_blank" rel="noreferrer">Google Maps</a>
+     </div>
+   </div>`;
+}
+// Changes when anything shown by a marker changes (position or popup)
+function markerSignature(p: Sighting) {
+  return [p.lat, p.lng, p.summary, p.city, p.state, p.country, p.address_text, p.reported_at].join('|');
+}
+
 // =================================================================
 // ---------- Hoisted child components so they don’t remount ----------
 // =================================================================
 function MapPane({
-  roomId, points, selectedId, draft, onSelect, onMapClick, isVisible, centerReq,
+  roomId, points, selectedId, draft, onSelect, onMapClick, isVisible, centerReq, fade = null,
+  onViewportChange, viewportNote,
 }: {
   roomId: string;
   points: Sighting[];
@@ -182,6 +279,9 @@ function MapPane({
   onMapClick: (lat: number, lon: number) => void;
   isVisible: boolean;
   centerReq: number; // NEW: bump to force a center-to-draft
+  fade?: TimeWindow | null; // time-slider window; older points fade
+  onViewportChange?: (b: ViewportBounds) => void; // debounced after pan/zoom
+  viewportNote?: string | null;
 }) {
   // Touch panning hint for iOS/Chrome
   useEffect(() => {
@@ -194,7 +294,17 @@ function MapPane({
   }, []);
 
   const mapRef = useRef<any>(null);
-  const sightingsLayerRef = useRef<any | null>(null);
+  const sightingsLayerRef = useRef<LeafletObject | null>(null); // L.MarkerClusterGroup
+  const markersRef = useRef(new Map<string, { marker: LeafletObject; sig: string; at: string }>());
+  const fadeRef = useRef(fade);
+  fadeRef.current = fade;
+  const selectedMarkerIdRef = useRef<string | null>(null);
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+  const onViewportRef = useRef(onViewportChange);
+  onViewportRef.current = onViewportChange;
+  const heatLayerRef = useRef<LeafletObject | null>(null);
+  const [showHeat, setShowHeat] = useState<boolean>(() => storage.get<boolean>('ufo:heat') === true);
   const draftLayerRef = useRef<any | null>(null);
   const shouldAutofitRef = useRef(true);
   const lastCenterRef = useRef(0); // throttle auto-fit after manual center
@@ -212,7 +322,22 @@ function MapPane({
         const m = L.map(node, { doubleClickZoom: false }).setView([39.5, -98.35], 4);
         L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { attribution: '&copy; OpenStreetMap contributors' }).addTo(m);
 
-        sightingsLayerRef.current = L.layerGroup().addTo(m);
+        // Cluster at low zoom; clicking a small cluster fans it out instead of zooming
+        const cluster = L.markerClusterGroup({
+          chunkedLoading: true,
+          showCoverageOnHover: false,
+          zoomToBoundsOnClick: false,
+          disableClusteringAtZoom: 16,
+          maxClusterRadius: 60,
+        });
+        cluster.on('clusterclick', (ev: { layer: LeafletObject }) => {
+          const c = ev.layer;
+          if (c.getChildCount() <= 25 || m.getZoom() >= m.getMaxZoom() - 1) c.spiderfy();
+          else c.zoomToBounds({ padding: [24, 24] });
+        });
+        sightingsLayerRef.current = cluster.addTo(m);
+        markersRef.current = new Map();
+        selectedMarkerIdRef.current = null;
         draftLayerRef.current = L.layerGroup().addTo(m);
 
         const saved = storage.get<{ lat: number; lon: number; zoom: number } | null>(mapStateKey(roomId));
@@ -226,6 +351,14 @@ function MapPane({
           storage.set(mapStateKey(roomId), { lat: c.lat, lon: c.lng, zoom: z });
         });
 
+        // Parent fetches the sightings inside the visible area
+        const emitViewport = debounce(() => {
+          const b = m.getBounds();
+          onViewportRef.current?.({ west: b.getWest(), south: b.getSouth(), east: b.getEast(), north: b.getNorth() });
+        }, 250);
+        m.on('moveend', emitViewport);
+        emitViewport();
+
         const stopAutofit = () => { shouldAutofitRef.current = false; };
         m.on('zoomstart', stopAutofit); m.on('dragstart', stopAutofit);
 
@@ -250,57 +383,94 @@ function MapPane({
     return () => { mounted = false; };
   }, [roomId, onMapClick]);
 
-  // Draw sightings
+  // Draw sightings incrementally: add new, update changed, remove gone
   useEffect(() => {
     (async () => {
       const L = await loadLeaflet(); if (!L) return;
-      const m = mapRef.current; const layer = sightingsLayerRef.current;
-      if (!m || !layer) return;
+      const m = mapRef.current; const cluster = sightingsLayerRef.current;
+      if (!m || !cluster) return;
 
-      layer.clearLayers();
+      const known = markersRef.current;
+      const seen = new Set<string>();
+      const toAdd: LeafletObject[] = [];
+      const toRemove: LeafletObject[] = [];
       const bounds = L.latLngBounds([]);
 
       points.forEach((p) => {
         if (p.lat == null || p.lng == null) return;
-        const isSel = selectedId === p.id;
-        const qEnc = encodeURIComponent(p.address_text || `${p.city}, ${p.state}` || 'Sighting');
-        const apple = `https://maps.apple.com/?ll=${p.lat},${p.lng}&q=${qEnc}`;
-        const gmaps = `https://www.google.com/maps/search/?api=1&query=${p.lat},${p.lng}`;
-
-        const marker = L.circleMarker([p.lat, p.lng], {
-          radius: isSel ? 8 : 6,
-          weight: isSel ? 2 : 1,
-          color: isSel ? '#dc2626' : '#1d4ed8',
-          fillColor: isSel ? '#fecaca' : '#bfdbfe',
-          fillOpacity: 0.85,
-        })
-          .on('click', () => onSelect(p.id))
-          .bindPopup(
-            `<div style="font: 12px system-ui">
-               <b>${(p.summary || '').replace(/</g, '&lt;')}</b><br/>
-               ${p.city || ''}, ${p.state || ''}<br/>
-               ${p.address_text ? (p.address_text as string).replace(/</g, '&lt;') + '<br/>' : ''}
-               <span style="color:#6b7280">${fmtLocal(p.reported_at)}</span>
-               <div style="margin-top:6px">
-                 <a href="${apple}" target="_blank" rel="noreferrer">Apple Maps</a> •
-                 <a href="${gmaps}" target="_blank" rel="noreferrer">Google Maps</a>
-               </div>
-             </div>`
-          );
-
-        marker.addTo(layer);
+        seen.add(p.id);
         bounds.extend([p.lat, p.lng]);
+        const sig = markerSignature(p);
+        const cur = known.get(p.id);
+        if (cur) {
+          if (cur.sig !== sig) {
+            cur.marker.setLatLng([p.lat, p.lng]).setPopupContent(markerPopupHtml(p));
+            cur.sig = sig; cur.at = p.reported_at;
+            cluster.refreshClusters(cur.marker);
+          }
+          return;
+        }
+        const marker = L.circleMarker([p.lat, p.lng], markerStyle(selectedId === p.id, fadeOpacity(p.reported_at, fadeRef.current)))
+          .on('click', () => onSelectRef.current(p.id))
+          .bindPopup(markerPopupHtml(p));
+        known.set(p.id, { marker, sig, at: p.reported_at });
+        if (selectedId === p.id) selectedMarkerIdRef.current = p.id;
+        toAdd.push(marker);
       });
 
+      known.forEach((v, id) => { if (!seen.has(id)) { toRemove.push(v.marker); known.delete(id); } });
+      if (toRemove.length) cluster.removeLayers(toRemove);
+      if (toAdd.length) cluster.addLayers(toAdd);
+
+      // Density layer follows the same points
+      heatLayerRef.current?.setLatLngs(points.filter(p => p.lat != null && p.lng != null).map(p => [p.lat, p.lng]));
+
       // Skip auto-fit briefly after a manual center (prevents jump back)
       const lastCenterRefAny = lastCenterRef.current || 0;
       const justCentered = Date.now() - lastCenterRefAny < 1000;
-      if (shouldAutofitRef.current && bounds.isValid() && !justCentered) {
+      // (not while the time slider is stepping through — the view would jump every frame)
+      if (shouldAutofitRef.current && bounds.isValid() && !justCentered && !fadeRef.current && (toAdd.length || toRemove.length)) {
         m.fitBounds(bounds.pad(0.15), { animate: false });
       }
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [points, selectedId]);
+  }, [points]);
+
+  // Selection only restyles the previous and new marker
+  useEffect(() => {
+    const prev = selectedMarkerIdRef.current;
+    const prevEntry = prev && prev !== selectedId ? markersRef.current.get(prev) : undefined;
+    if (prevEntry) prevEntry.marker.setStyle(markerStyle(false, fadeOpacity(prevEntry.at, fadeRef.current))).setRadius(6);
+    if (selectedId) {
+      const cur = markersRef.current.get(selectedId)?.marker;
+      if (cur) { cur.setStyle(markerStyle(true)).setRadius(8); cur.bringToFront?.(); }
+    }
+    selectedMarkerIdRef.current = selectedId;
+  }, [selectedId, points]);
+
+  // Re-fade every marker when the time window moves
+  useEffect(() => {
+    markersRef.current.forEach((v, id) => {
+      if (id !== selectedMarkerIdRef.current) v.marker.setStyle(markerStyle(false, fadeOpacity(v.at, fade)));
+    });
+  }, [fade?.start, fade?.end]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Toggleable density heatmap
+  useEffect(() => {
+    storage.set('ufo:heat', showHeat);
+    (async () => {
+      const L = await loadLeaflet(); if (!L) return;
+      const m = mapRef.current; if (!m) return;
+      if (showHeat && !heatLayerRef.current) {
+        const latlngs = points.filter(p => p.lat != null && p.lng != null).map(p => [p.lat, p.lng]);
+        heatLayerRef.current = L.heatLayer(latlngs, { radius: 22, blur: 18, maxZoom: 13, minOpacity: 0.35 }).addTo(m);
+      } else if (!showHeat && heatLayerRef.current) {
+        m.removeLayer(heatLayerRef.current);
+        heatLayerRef.current = null;
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showHeat, roomId]);
 
   // Center on selectedId when it changes
   useEffect(() => {
@@ -426,8 +596,15 @@ useEffect(() => {
     <div className="rounded-2xl border overflow-hidden">
       <div className="mb-3 flex items-center justify-between px-4 pt-4">
         <h3 className="font-semibold">Map</h3>
-        <div className="text-xs text-gray-500">Double-tap/click to drop a pin into the Report form.</div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-xs">
+            <input type="checkbox" className="h-3 w-3" checked={showHeat} onChange={(e) => setShowHeat(e.target.checked)} />
+            Heatmap
+          </label>
+          <div className="text-xs text-gray-500">Double-tap/click to drop a pin into the Report form.</div>
+        </div>
       </div>
+      {viewportNote && <div className="px-4 pb-2 text-xs text-gray-500">{viewportNote}</div>}
       <div
         id="ufo-map"
         className="w-full"
@@ -442,108 +619,1501 @@ useEffect(() => {
   );
 }
 
-function ListPane({
-  sightings, loading, errorMsg, onRefresh, onEdit, onDelete, onViewOnMap,
-}: {
-  sightings: Sighting[]; loading: boolean; errorMsg: string | null; onRefresh: () => void;
-  onEdit: (s: Sighting) => void; onDelete: (s: Sighting) => Promise<void>;
-  onViewOnMap: (s: Sighting) => void;
-}) {
-  return (
-    <div className="rounded-2xl border p-4">
-      <div className="mb-3 flex items-center justify-between">
-        <h3 className="font-semibold">Sightings</h3>
-        <div className="flex gap-2">
-          <button className="rounded-md border px-3 py-1 text-sm" onClick={onRefresh}>Refresh</button>
-        </div>
+const WINDOW_WIDTHS: Array<{ label: string; ms: number }> = [
+  { label: '30 min', ms: 30 * 60 * 1000 },
+  { label: '2 hours', ms: 2 * 3600 * 1000 },
+  { label: '6 hours', ms: 6 * 3600 * 1000 },
+  { label: '1 day', ms: 24 * 3600 * 1000 },
+  { label: '1 week', ms: 7 * 24 * 3600 * 1000 },
+  { label: '30 days', ms: 30 * 24 * 3600 * 1000 },
+];
+
+function TimeSlider({
+  sightings, enabled, setEnabled, end, setEnd, widthMs, setWidthMs, playing, setPlaying,
+}: {
+  sightings: Sighting[];
+  enabled: boolean; setEnabled: (v: boolean) => void;
+  end: number; setEnd: (v: number) => void;
+  widthMs: number; setWidthMs: (v: number) => void;
+  playing: boolean; setPlaying: (v: boolean) => void;
+}) {
+  // Slider domain spans the room's data (+ one window so the first point can be shown alone)
+  let min = Infinity, max = -Infinity;
+  for (const s of sightings) {
+    const t = new Date(s.reported_at).getTime();
+    if (Number.isFinite(t)) { if (t < min) min = t; if (t > max) max = t; }
+  }
+  if (!Number.isFinite(min)) return null;
+  const lo = min, hi = max + 1;
+  const step = Math.max(60 * 1000, Math.round(widthMs / 10));
+  const start = end - widthMs;
+
+  return (
+    <div className="rounded-xl border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" className="h-4 w-4" checked={enabled} onChange={(e) => {
+            setEnabled(e.target.checked);
+            if (e.target.checked && (end < lo || end > hi)) setEnd(hi);
+            if (!e.target.checked) setPlaying(false);
+          }} />
+          Time window
+        </label>
+        <select
+          className="rounded-md border px-2 py-1 text-sm"
+          value={widthMs}
+          disabled={!enabled}
+          onChange={(e) => setWidthMs(Number(e.target.value))}
+        >
+          {WINDOW_WIDTHS.map((w) => <option key={w.ms} value={w.ms}>{w.label}</option>)}
+        </select>
+        <button
+          className="rounded-md border px-3 py-1 text-sm"
+          disabled={!enabled}
+          onClick={() => {
+            if (!playing && end >= hi) setEnd(Math.min(hi, lo + widthMs)); // restart from the beginning
+            setPlaying(!playing);
+          }}
+        >{playing ? 'Pause' : 'Play'}</button>
+        {enabled && <span className="text-xs text-gray-600">{fmtLocal(new Date(start).toISOString())} → {fmtLocal(new Date(end).toISOString())}</span>}
+      </div>
+      {enabled && (
+        <input
+          type="range"
+          className="w-full"
+          min={lo}
+          max={hi}
+          step={step}
+          value={Math.min(hi, Math.max(lo, end))}
+          onChange={(e) => { setPlaying(false); setEnd(Number(e.target.value)); }}
+        />
+      )}
+    </div>
+  );
+}
+
+function FilterBar({
+  filters, setFilters, all,
+}: {
+  filters: SightingFilters;
+  setFilters: (f: SightingFilters) => void;
+  all: Sighting[]; // unfiltered rows, for the city/state/reporter pickers
+}) {
+  const [open, setOpen] = useState(isFiltering(filters));
+  const uniq = (vals: Array<string | null | undefined>) =>
+    Array.from(new Set(vals.map(v => (v || '').trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+  const cities = uniq(all.map(s => s.city));
+  const states = uniq(all.map(s => s.state));
+  const reporters = uniq(all.map(s => s.user_name));
+  const set = (patch: Partial<SightingFilters>) => setFilters({ ...filters, ...patch });
+  const input = 'rounded-md border px-2 py-1 text-sm';
+
+  return (
+    <div className="mb-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className={`${input} flex-1 min-w-[12rem]`}
+          placeholder="Search summary or address"
+          value={filters.q}
+          onChange={(e) => set({ q: e.target.value })}
+        />
+        <select className={input} value={filters.sort} onChange={(e) => set({ sort: e.target.value as SightingSort })}>
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+          <option value="city">City A–Z</option>
+          <option value="state">State A–Z</option>
+          <option value="reporter">Reporter A–Z</option>
+        </select>
+        <button className="rounded-md border px-3 py-1 text-sm" onClick={() => setOpen(v => !v)}>
+          {open ? 'Hide filters' : 'More filters'}
+        </button>
+        {isFiltering(filters) && (
+          <button className="rounded-md border px-3 py-1 text-sm" onClick={() => setFilters({ ...EMPTY_FILTERS, sort: filters.sort })}>Clear</button>
+        )}
+      </div>
+      {open && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <select className={input} value={filters.city} onChange={(e) => set({ city: e.target.value })}>
+            <option value="">Any city</option>
+            {cities.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <select className={input} value={filters.state} onChange={(e) => set({ state: e.target.value })}>
+            <option value="">Any state</option>
+            {states.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <select className={input} value={filters.reporter} onChange={(e) => set({ reporter: e.target.value })}>
+            <option value="">Any reporter</option>
+            {reporters.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" className="h-4 w-4" checked={filters.hasMedia} onChange={(e) => set({ hasMedia: e.target.checked })} />
+            Has photos/video
+          </label>
+          <label className="flex flex-col text-xs text-gray-600">From
+            <input type="date" className={input} value={filters.from} onChange={(e) => set({ from: e.target.value })} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-600">To
+            <input type="date" className={input} value={filters.to} onChange={(e) => set({ to: e.target.value })} />
+          </label>
+          <input className={input} placeholder="Vehicle make" value={filters.make} onChange={(e) => set({ make: e.target.value })} />
+          <input className={input} placeholder="Vehicle model" value={filters.model} onChange={(e) => set({ model: e.target.value })} />
+          <input className={input} placeholder="Vehicle color" value={filters.color} onChange={(e) => set({ color: e.target.value })} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ListPane({
+  sightings, allSightings, filters, setFilters, loading, errorMsg, onRefresh, onEdit, onDelete, onViewOnMap,
+  total = null, hasMore = false, loadingMore = false, onLoadMore, canEdit = () => true, showDeliveries = false, shareUrl,
+}: {
+  sightings: Sighting[]; allSightings: Sighting[];
+  filters: SightingFilters; setFilters: (f: SightingFilters) => void;
+  loading: boolean; errorMsg: string | null; onRefresh: () => void;
+  total?: number | null;       // server-side count for the current filters
+  hasMore?: boolean; loadingMore?: boolean; onLoadMore?: () => void;
+  onEdit: (s: Sighting) => void; onDelete: (s: Sighting) => Promise<void>;
+  onViewOnMap: (s: Sighting) => void;
+  canEdit?: (s: Sighting) => boolean; // role + room edit policy
+  showDeliveries?: boolean;           // room admins: per-sighting alert delivery log
+  shareUrl?: (s: Sighting) => string; // deep link for the Share button
+}) {
+  const [logFor, setLogFor] = useState<string | null>(null);
+  return (
+    <div className="rounded-2xl border p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="font-semibold">
+          Sightings
+          {total != null ? (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              showing {sightings.length.toLocaleString()} of {total.toLocaleString()}
+            </span>
+          ) : sightings.length !== allSightings.length && (
+            <span className="ml-2 text-xs font-normal text-gray-500">{sightings.length} of {allSightings.length}</span>
+          )}
+        </h3>
+        <div className="flex gap-2">
+          <button className="rounded-md border px-3 py-1 text-sm" onClick={onRefresh}>Refresh</button>
+        </div>
+      </div>
+      <FilterBar filters={filters} setFilters={setFilters} all={allSightings} />
+      {loading && <p className="text-sm text-gray-500">Loading…</p>}
+      {errorMsg && <p className="text-sm text-red-600">{errorMsg}</p>}
+      {!loading && !sightings.length && (
+        <p className="text-sm text-gray-500">{allSightings.length ? 'No sightings match these filters.' : 'No sightings yet.'}</p>
+      )}
+      <ul className="divide-y rounded-md border">
+        {sightings.map((s) => (
+          <li key={s.id} className="p-3 flex flex-col gap-1">
+            <div className="flex items-center justify-between">
+              <div className="font-medium">{s.summary}</div>
+              <div className="text-xs text-gray-500">{fmtLocal(s.reported_at)}</div>
+            </div>
+            <div className="text-sm text-gray-700">
+              {placeLabel(s)} {s.address_text ? `• ${s.address_text}` : ''}
+            </div>
+            {(s.vehicle_make || s.vehicle_model || s.vehicle_color) && (
+              <div className="text-xs text-gray-600">
+                Vehicle: {[s.vehicle_color, s.vehicle_make, s.vehicle_model].filter(Boolean).join(' ')}
+              </div>
+            )}
+
+            {s.media_urls && s.media_urls.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-1">
+                {s.media_urls.map((u, i) =>
+                  /\.(mp4|mov|webm|m4v)$/i.test(u) ? (
+                    <video key={i} src={u} className="h-24 rounded-md border" controls />
+                  ) : (
+                    <a key={i} href={u} target="_blank" rel="noreferrer">
+                      <img src={u} alt={`media-${i}`} className="h-24 rounded-md border" />
+                    </a>
+                  )
+                )}
+              </div>
+            )}
+
+            <div className="mt-2 flex items-center gap-2">
+              {canEdit(s) && (
+                <>
+                  <button className="rounded-md border px-2 py-1 text-xs" onClick={() => onEdit(s)}>Edit</button>
+                  <button className="rounded-md border px-2 py-1 text-xs text-red-700" onClick={() => onDelete(s)}>Delete</button>
+                </>
+              )}
+              <button className="rounded-md border px-2 py-1 text-xs" onClick={() => onViewOnMap(s)}>View on map</button>
+              {shareUrl && (
+                <button className="rounded-md border px-2 py-1 text-xs" onClick={() => { void shareLink(shareUrl(s), s.summary.slice(0, 80)); }}>Share</button>
+              )}
+              {showDeliveries && (
+                <button className="rounded-md border px-2 py-1 text-xs" onClick={() => setLogFor(logFor === s.id ? null : s.id)}>
+                  {logFor === s.id ? 'Hide deliveries' : 'Deliveries'}
+                </button>
+              )}
+              {s.lat != null && s.lng != null && (
+                <div className="ml-auto text-xs text-gray-500">{s.lat.toFixed(5)}, {s.lng.toFixed(5)}</div>
+              )}
+            </div>
+            {showDeliveries && logFor === s.id && <DeliveryLog sightingId={s.id} />}
+          </li>
+        ))}
+      </ul>
+      {hasMore && onLoadMore && (
+        <div className="mt-3 flex justify-center">
+          <button
+            className={`rounded-md border px-3 py-1 text-sm ${loadingMore ? 'opacity-70' : ''}`}
+            disabled={loadingMore}
+            onClick={onLoadMore}
+          >{loadingMore ? 'Loading…' : 'Load more'}</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type Delivery = {
+  id: string;
+  channel: 'email' | 'sms' | 'push' | 'slack' | 'discord' | 'webhook';
+  target: string;
+  status: 'pending' | 'sending' | 'sent' | 'delivered' | 'failed';
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  provider_status: string | null;
+  created_at: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+};
+
+const DELIVERY_STATUS_CLASS: Record<Delivery['status'], string> = {
+  pending: 'text-amber-700', sending: 'text-amber-700', sent: 'text-gray-700', delivered: 'text-green-700', failed: 'text-red-700',
+};
+
+// Outbox rows for one sighting's alerts (see /api/sightings/deliveries)
+function DeliveryLog({ sightingId }: { sightingId: string }) {
+  const [rows, setRows] = useState<Delivery[] | null>(null);
+  const [summary, setSummary] = useState<Record<Delivery['status'], number> | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    const r = await apiFetch(`/api/sightings/deliveries?sighting_id=${encodeURIComponent(sightingId)}`);
+    if (r.status !== 200 || !r.json?.ok) return alert(`Couldn’t load delivery log: ${apiError(r)}`);
+    setRows(r.json.deliveries || []);
+    setSummary(r.json.summary || null);
+  }
+
+  async function retryFailed() {
+    setBusy(true);
+    try {
+      const r = await apiFetch(`/api/sightings/deliveries?sighting_id=${encodeURIComponent(sightingId)}`, { method: 'POST' });
+      if (r.status !== 200 || !r.json?.ok) return alert(`Retry failed: ${apiError(r)}`);
+      await load();
+    } finally { setBusy(false); }
+  }
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { setRows(null); void load(); }, [sightingId]);
+
+  if (!rows) return <p className="text-xs text-gray-500">Loading deliveries…</p>;
+  if (!rows.length) return <p className="text-xs text-gray-500">No alerts were sent for this sighting.</p>;
+  return (
+    <div className="mt-1 rounded-md border bg-gray-50 p-2 text-xs">
+      <div className="mb-1 flex items-center gap-3">
+        {summary && (Object.entries(summary) as Array<[Delivery['status'], number]>).filter(([, n]) => n > 0).map(([st, n]) => (
+          <span key={st} className={DELIVERY_STATUS_CLASS[st]}>{n} {st}</span>
+        ))}
+        <button className="ml-auto rounded-md border px-2 py-0.5" onClick={() => { void load(); }}>Refresh</button>
+        {!!summary?.failed && (
+          <button className={`rounded-md border px-2 py-0.5 ${busy ? 'opacity-70' : ''}`} disabled={busy} onClick={() => { void retryFailed(); }}>
+            {busy ? 'Retrying…' : 'Retry failed'}
+          </button>
+        )}
+      </div>
+      <table className="w-full">
+        <tbody>
+          {rows.map((d) => (
+            <tr key={d.id} className="border-t align-top">
+              <td className="py-1 pr-2 uppercase text-gray-500">{d.channel}</td>
+              <td className="py-1 pr-2 break-all">{d.target}</td>
+              <td className={`py-1 pr-2 ${DELIVERY_STATUS_CLASS[d.status]}`}>
+                {d.status}{d.provider_status && d.provider_status !== d.status ? ` (${d.provider_status})` : ''}
+              </td>
+              <td className="py-1 text-gray-500">
+                {d.status === 'pending' && d.attempts > 0
+                  ? `attempt ${d.attempts} failed, retry ${fmtLocal(d.next_attempt_at)}`
+                  : fmtLocal(d.delivered_at || d.sent_at || d.created_at)}
+                {d.last_error && <div className="text-red-700">{d.last_error}</div>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PendingUploads({
+  items, flushing, onRetry, onRetryItem, onDiscard, onKeepMine,
+}: {
+  items: QueuedSighting[];
+  flushing: boolean;
+  onRetry: () => void;
+  onRetryItem: (key: string) => void;
+  onDiscard: (key: string) => void;
+  onKeepMine: (key: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  if (!items.length) return null;
+  const conflicts = items.filter((i) => i.status !== 'pending').length;
+  return (
+    <div className={`rounded-xl border p-3 text-sm ${conflicts ? 'bg-orange-50' : 'bg-blue-50'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <button className="text-left" onClick={() => setOpen((v) => !v)}>
+          <b>{items.length} pending upload{items.length === 1 ? '' : 's'}</b>
+          {conflicts > 0 && <span className="ml-1 text-orange-700">({conflicts} need attention)</span>}
+          <span className="ml-2 text-xs text-gray-500">{open ? 'Hide' : 'Show'}</span>
+        </button>
+        <button className="rounded-md border bg-white px-3 py-1 text-xs" disabled={flushing} onClick={onRetry}>
+          {flushing ? 'Sending…' : 'Retry now'}
+        </button>
+      </div>
+      {open && (
+        <ul className="mt-2 divide-y rounded-md border bg-white">
+          {items.map((it) => (
+            <li key={it.key} className="p-2 flex flex-col gap-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0 truncate">
+                  <span className="text-xs text-gray-500 mr-1">{it.op === 'create' ? 'New' : 'Edit'}</span>
+                  {String(it.base.summary || '(no summary)')}
+                </div>
+                <div className="text-xs text-gray-500 shrink-0">{fmtLocal(it.queued_at)}</div>
+              </div>
+              <div className="text-xs text-gray-600">
+                {it.files.length > 0 && <>{it.files.length} file{it.files.length === 1 ? '' : 's'} • </>}
+                {it.base.lat != null && it.base.lng != null && <>{Number(it.base.lat).toFixed(5)}, {Number(it.base.lng).toFixed(5)} • </>}
+                {it.attempts > 0 ? `${it.attempts} attempt${it.attempts === 1 ? '' : 's'}` : 'waiting for connection'}
+                {it.last_error && <span className="text-red-600"> — {it.last_error}</span>}
+              </div>
+              {it.status === 'conflict' && (
+                <div className="text-xs text-orange-700">
+                  {it.conflict === 'deleted'
+                    ? 'This sighting was deleted on the server after you edited it.'
+                    : 'Someone else changed this sighting after you started editing.'}
+                </div>
+              )}
+              {it.status === 'failed' && (
+                <div className="text-xs text-orange-700">
+                  The server didn’t accept this report, so it won’t be retried automatically. Fix the cause and try again, or discard it.
+                </div>
+              )}
+              <div className="flex gap-2">
+                {it.status === 'failed' && (
+                  <button className="rounded-md border px-2 py-1 text-xs" onClick={() => onRetryItem(it.key)}>Try again</button>
+                )}
+                {it.status === 'conflict' && (
+                  <button className="rounded-md border px-2 py-1 text-xs" onClick={() => onKeepMine(it.key)}>
+                    {it.conflict === 'deleted' ? 'Re-create mine' : 'Overwrite with mine'}
+                  </button>
+                )}
+                <button
+                  className="rounded-md border px-2 py-1 text-xs text-red-700"
+                  onClick={() => { if (confirm(it.status === 'conflict' ? 'Discard your version and keep the server copy?' : 'Discard this pending upload?')) onDiscard(it.key); }}
+                >{it.status === 'conflict' ? 'Keep server copy' : 'Discard'}</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Native share sheet where there is one (phones), else copy to the clipboard
+async function shareLink(url: string, title?: string) {
+  if (typeof navigator.share === 'function') {
+    try { await navigator.share({ url, title }); return; }
+    catch (e) { if ((e as Error)?.name === 'AbortError') return; }
+  }
+  try { await navigator.clipboard.writeText(url); alert('Link copied'); }
+  catch { window.prompt('Copy this link:', url); }
+}
+
+function ShareLink({ roomId, shortCode = null }: { roomId: string; shortCode?: string | null }) {
+  const link = `${getBaseUrl()}${roomPath({ id: roomId, short_code: shortCode })}`;
+  return (
+    <div className="mt-3 rounded-md border p-3">
+      <h3 className="font-medium mb-2">Share this room</h3>
+      <div className="flex gap-2 items-center">
+        <input readOnly value={link} className="flex-1 rounded-md border px-3 py-2 text-sm" onFocus={(e) => e.currentTarget.select()} />
+        <button
+          className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50"
+          onClick={async () => {
+            try { await navigator.clipboard.writeText(link); alert('Link copied'); }
+            catch { window.prompt('Copy this link:', link); }
+          }}
+        >Copy</button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Anyone who opens this link will auto-join this room.</p>
+    </div>
+  );
+}
+
+// =====================
+// Bulk import (wizard)
+// =====================
+const IMPORT_BATCH = 200;
+const GEOCODE_INTERVAL_MS = 1100; // stay under the free providers' ~1 req/s limits
+
+function ImportPreviewMap({ rows }: { rows: ImportRow[] }) {
+  const mapRef = useRef<LeafletObject | null>(null);
+  const layerRef = useRef<LeafletObject | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      const L = await loadLeaflet(); if (!alive || !L) return;
+      if (!mapRef.current) {
+        const node = document.getElementById('ufo-import-map'); if (!node) return;
+        const m = L.map(node).setView([39.5, -98.35], 3);
+        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { attribution: '&copy; OpenStreetMap contributors' }).addTo(m);
+        layerRef.current = L.layerGroup().addTo(m);
+        mapRef.current = m;
+      }
+      const layer = layerRef.current;
+      layer.clearLayers();
+      const bounds = L.latLngBounds([]);
+      rows.forEach((r) => {
+        const { lat, lng } = r.input;
+        if (lat == null || lng == null) return;
+        bounds.extend([lat, lng]);
+        const bad = r.errors.length > 0;
+        L.circleMarker([lat, lng], {
+          radius: 5, weight: 1,
+          color: bad ? '#dc2626' : r.geocode === 'approximate' ? '#d97706' : '#1d4ed8',
+          fillOpacity: 0.7,
+        }).bindTooltip(`#${r.line} ${(r.input.summary || '').slice(0, 80).replace(/</g, '&lt;')}`).addTo(layer);
+      });
+      if (bounds.isValid()) mapRef.current.fitBounds(bounds.pad(0.1), { animate: false });
+    })();
+    return () => { alive = false; };
+  }, [rows]);
+
+  useEffect(() => () => { try { mapRef.current?.remove(); } catch {} mapRef.current = null; }, []);
+
+  return <div id="ufo-import-map" className="w-full rounded-md border" style={{ height: 280 }} />;
+}
+
+type ImportReport = { inserted: number; duplicates: number; errors: Array<{ line: number; errors: string[] }> };
+
+function ImportWizard({ roomId, onClose, onImported }: {
+  roomId: string;
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const [file, setFile] = useState<{ name: string; parsed: ParsedFile } | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [timeZone, setTimeZone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [phase, setPhase] = useState<'idle' | 'geocoding' | 'importing' | 'done'>('idle');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const cancelRef = useRef(false);
+
+  // Re-map whenever the mapping/timezone changes (geocoded coordinates are kept by line)
+  useEffect(() => {
+    if (!file) { setRows([]); return; }
+    setRows((prev) => {
+      const geo = new Map(prev.filter((r) => r.geocode).map((r) => [r.line, r]));
+      return mapRecords(file.parsed, mapping, roomId, timeZone).map((r) => {
+        const g = geo.get(r.line);
+        if (!g || r.input.lat != null) return r;
+        return g.geocode === 'failed' ? { ...r, geocode: 'failed' } : { ...r, input: { ...r.input, lat: g.input.lat, lng: g.input.lng }, geocode: g.geocode };
+      });
+    });
+  }, [file, mapping, roomId, timeZone]);
+
+  async function pickFile(f: File) {
+    setParseError(null); setReport(null); setPhase('idle');
+    try {
+      const parsed = parseImportFile(f.name, await f.text());
+      setFile({ name: f.name, parsed });
+      setMapping(guessMapping(parsed));
+    } catch (e) {
+      setFile(null); setParseError((e as Error)?.message || String(e));
+    }
+  }
+
+  const valid = rows.filter((r) => !r.errors.length);
+  const missingPin = valid.filter(needsGeocode);
+  const invalid = rows.length - valid.length;
+
+  async function geocodeMissing() {
+    const todo = missingPin;
+    if (!todo.length) return;
+    cancelRef.current = false;
+    setPhase('geocoding'); setProgress({ done: 0, total: todo.length });
+    for (let i = 0; i < todo.length && !cancelRef.current; i++) {
+      const r = todo[i];
+      let patch: Partial<ImportRow> = { geocode: 'failed' };
+      try {
+        const res = await fetch('/api/geocode', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({
+            q: geocodeQuery(r), expectCity: r.input.city || undefined, expectState: r.input.state || undefined,
+            expectCountry: r.input.country || undefined, approximate: true,
+          }),
+        });
+        // Rate limited, or no provider answered (outage): wait and retry the same row rather than marking it failed
+        if (res.status === 429 || res.status === 503) { i--; await new Promise((ok) => setTimeout(ok, (Number(res.headers.get('retry-after')) || 5) * 1000)); continue; }
+        const g = res.ok ? await res.json() : null;
+        if (g && Number.isFinite(g.lat) && Number.isFinite(g.lng)) {
+          patch = { geocode: g.meta?.approximate ? 'approximate' : 'ok', input: { ...r.input, lat: g.lat, lng: g.lng } };
+        }
+      } catch {}
+      setRows((prev) => prev.map((x) => (x.line === r.line ? { ...x, ...patch } : x)));
+      setProgress({ done: i + 1, total: todo.length });
+      await new Promise((ok) => setTimeout(ok, GEOCODE_INTERVAL_MS));
+    }
+    setPhase('idle');
+  }
+
+  async function runImport() {
+    const ready = rows.filter((r) => !r.errors.length && r.input.lat != null && r.input.lng != null);
+    if (!ready.length) return;
+    cancelRef.current = false;
+    setPhase('importing'); setProgress({ done: 0, total: ready.length });
+    const out: ImportReport = {
+      inserted: 0, duplicates: 0,
+      // Rows we never send are part of the report too
+      errors: rows
+        .filter((r) => r.errors.length || r.input.lat == null)
+        .map((r) => ({ line: r.line, errors: r.errors.length ? r.errors : ['No coordinates (geocoding failed or not run)'] })),
+    };
+    for (let i = 0; i < ready.length && !cancelRef.current; i += IMPORT_BATCH) {
+      const batch = ready.slice(i, i + IMPORT_BATCH);
+      try {
+        const r = await apiFetch('/api/sightings/import', {
+          method: 'POST',
+          body: { room_id: roomId, rows: batch.map((x) => ({ line: x.line, ...x.input })) },
+        });
+        if (r.status !== 200) throw new Error(apiError(r));
+        out.inserted += r.json.inserted || 0;
+        out.duplicates += r.json.duplicates || 0;
+        out.errors.push(...(r.json.errors || []));
+      } catch (e) {
+        const msg = (e as Error)?.message || String(e);
+        out.errors.push(...batch.map((x) => ({ line: x.line, errors: [`Batch failed: ${msg}`] })));
+      }
+      setProgress({ done: Math.min(i + IMPORT_BATCH, ready.length), total: ready.length });
+    }
+    out.errors.sort((a, b) => a.line - b.line);
+    setReport(out); setPhase('done');
+    if (out.inserted) onImported();
+  }
+
+  function downloadErrorReport() {
+    if (!report?.errors.length) return;
+    const esc = (v: string) => `"${v.replace(/"/g, '""')}"`;
+    const csv = ['line,errors', ...report.errors.map((e) => `${e.line},${esc(e.errors.join('; '))}`)].join('\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8;' }));
+    const a = document.createElement('a'); a.href = url; a.download = `import-errors-${file?.name || 'file'}.csv`; a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  const busy = phase === 'geocoding' || phase === 'importing';
+  return (
+    <div className="mt-3 rounded-md border p-3 space-y-3 bg-gray-50">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm">Import wizard</h4>
+        <button className="rounded-md border px-2 py-1 text-xs bg-white" disabled={busy} onClick={onClose}>Close</button>
+      </div>
+
+      {/* 1. File */}
+      <div className="text-sm">
+        <input type="file" accept=".csv,.tsv,.txt,.json,.geojson" disabled={busy}
+          onChange={(e) => { const f = e.target.files?.[0]; if (f) void pickFile(f); }} />
+        {file && (
+          <p className="text-xs text-gray-600 mt-1">
+            {file.name}: {file.parsed.records.length.toLocaleString()} rows
+            {file.parsed.kind === 'nuforc' ? ' (NUFORC format detected)' : file.parsed.kind === 'geojson' ? ' (GeoJSON)' : ''}
+          </p>
+        )}
+        {parseError && <p className="text-xs text-red-600 mt-1">{parseError}</p>}
+      </div>
+
+      {file && (
+        <>
+          {/* 2. Column mapping */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="flex items-center gap-2">
+                <span className="w-28 text-xs text-gray-600">{label}{required ? ' *' : ''}</span>
+                <select className="flex-1 rounded-md border px-2 py-1 text-xs bg-white" disabled={busy}
+                  value={mapping[field] || ''}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || undefined })}>
+                  <option value="">—</option>
+                  {file.parsed.headers.map((h) => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </label>
+            ))}
+            <label className="flex items-center gap-2">
+              <span className="w-28 text-xs text-gray-600">Times are in</span>
+              <input className="flex-1 rounded-md border px-2 py-1 text-xs" value={timeZone} disabled={busy}
+                onChange={(e) => setTimeZone(e.target.value.trim())} />
+            </label>
+          </div>
+          {!!mapping.extras?.length && (
+            <p className="text-xs text-gray-600">Also added to the summary: {mapping.extras.join(', ')}</p>
+          )}
+
+          {/* 3. Preview */}
+          <p className="text-xs text-gray-700">
+            {valid.length.toLocaleString()} ready · {missingPin.length.toLocaleString()} need geocoding · {invalid.toLocaleString()} with errors
+          </p>
+          <ImportPreviewMap rows={rows} />
+          <div className="max-h-48 overflow-auto rounded-md border bg-white">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-100 text-left">
+                <tr><th className="p-1">#</th><th className="p-1">When</th><th className="p-1">Where</th><th className="p-1">Summary</th><th className="p-1">Status</th></tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, 50).map((r) => (
+                  <tr key={r.line} className="border-t align-top">
+                    <td className="p-1">{r.line}</td>
+                    <td className="p-1 whitespace-nowrap">{r.input.reported_at ? fmtLocal(r.input.reported_at) : ''}</td>
+                    <td className="p-1">{[r.input.city, r.input.state].filter(Boolean).join(', ')}</td>
+                    <td className="p-1">{(r.input.summary || '').slice(0, 80)}</td>
+                    <td className={`p-1 ${r.errors.length || r.geocode === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+                      {r.errors.length ? r.errors.join('; ')
+                        : r.geocode === 'failed' ? 'Not found'
+                        : r.input.lat == null ? 'Needs geocoding'
+                        : r.geocode === 'approximate' ? 'City-level pin' : 'OK'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > 50 && <p className="p-1 text-xs text-gray-500">…and {(rows.length - 50).toLocaleString()} more</p>}
+          </div>
+
+          {/* 4. Geocode + import */}
+          <div className="flex flex-wrap items-center gap-2">
+            <button className="rounded-md border px-3 py-1 text-sm bg-white" disabled={busy || !missingPin.length} onClick={() => { void geocodeMissing(); }}>
+              Geocode {missingPin.length ? missingPin.length.toLocaleString() : ''} rows
+            </button>
+            <button className="rounded-md border px-3 py-1 text-sm bg-white" disabled={busy || !valid.length} onClick={() => { void runImport(); }}>
+              Import
+            </button>
+            {busy && (
+              <>
+                <span className="text-xs text-gray-600">
+                  {phase === 'geocoding' ? 'Geocoding' : 'Importing'} {progress.done.toLocaleString()} / {progress.total.toLocaleString()}
+                </span>
+                <progress className="h-2" max={progress.total || 1} value={progress.done} />
+                <button className="rounded-md border px-2 py-1 text-xs bg-white" onClick={() => { cancelRef.current = true; }}>Stop</button>
+              </>
+            )}
+          </div>
+
+          {report && (
+            <div className="rounded-md border bg-white p-2 text-xs space-y-1">
+              <p>
+                Imported {report.inserted.toLocaleString()} · skipped {report.duplicates.toLocaleString()} already in this room
+                · {report.errors.length.toLocaleString()} rows with errors
+              </p>
+              {!!report.errors.length && (
+                <>
+                  <ul className="max-h-32 overflow-auto text-red-700">
+                    {report.errors.slice(0, 100).map((e) => <li key={e.line}>Row {e.line}: {e.errors.join('; ')}</li>)}
+                  </ul>
+                  <button className="rounded-md border px-2 py-1" onClick={downloadErrorReport}>Download error report</button>
+                </>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// ==========================
+// Room roles / admin panel
+// ==========================
+type RosterMember = {
+  id: string; email: string | null; phone_e164: string | null; approved: boolean | null; role: Role;
+  requested_at: string | null; decided_at: string | null; decided_by: string | null;
+};
+
+const ROLE_LABELS: Record<Role, string> = { owner: 'Owner', admin: 'Admin', member: 'Member', viewer: 'Viewer' };
+const EDIT_POLICY_LABELS: Record<EditPolicy, string> = {
+  own: 'Members edit/delete only their own sightings',
+  any: 'Any member can edit/delete any sighting',
+};
+const JOIN_MODE_LABELS: Record<JoinMode, string> = {
+  approval: 'An admin approves each join request',
+  open: 'Anyone with the room link can join',
+};
+
+function shortDate(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }) : '';
+}
+
+// "Approved by ann@x.com · Oct 19, 2026" (decided_by null = approved automatically)
+function decisionNote(m: RosterMember) {
+  if (!m.decided_at) return m.requested_at ? `Requested ${shortDate(m.requested_at)}` : '';
+  const verb = m.approved ? 'Approved' : 'Denied';
+  return `${verb} ${m.decided_by ? `by ${m.decided_by}` : 'automatically'} · ${shortDate(m.decided_at)}`;
+}
+
+function RoomAdminPanel({
+  roomId, role, status, signedIn, editPolicy, setEditPolicy, joinMode, setJoinMode, locale, setLocale, onRequestJoin, onRoleChanged,
+}: {
+  roomId: string;
+  role: Role | null;
+  status: MembershipStatus | null;
+  signedIn: boolean;
+  editPolicy: EditPolicy;
+  setEditPolicy?: (p: EditPolicy) => void;
+  joinMode: JoinMode;
+  setJoinMode?: (m: JoinMode) => void;
+  locale: Locale;
+  setLocale?: (l: Locale) => void;
+  onRequestJoin?: () => Promise<void>;
+  onRoleChanged?: () => void;
+}) {
+  const [members, setMembers] = useState<RosterMember[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [code, setCode] = useState('');
+  const isAdmin = atLeast(role, 'admin');
+
+  async function loadMembers() {
+    const r = await apiFetch(`/api/rooms/members?room_id=${encodeURIComponent(roomId)}`);
+    if (r.status !== 200) return alert(`Members: ${apiError(r)}`);
+    setMembers(r.json.members as RosterMember[]);
+  }
+  const pending = (members || []).filter((m) => !m.approved && !m.decided_at);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { setMembers(null); if (isAdmin) void loadMembers(); }, [roomId, isAdmin]);
+
+  async function change(m: RosterMember, patch: Partial<Pick<RosterMember, 'role' | 'approved'>>) {
+    setBusy(true);
+    const r = await apiFetch(`/api/rooms/members?id=${encodeURIComponent(m.id)}`, { method: 'PATCH', body: patch });
+    setBusy(false);
+    if (r.status !== 200) return alert(`Update failed: ${apiError(r)}`);
+    await loadMembers();
+    onRoleChanged?.(); // in case I changed my own role
+  }
+
+  async function remove(m: RosterMember) {
+    if (!confirm(`Remove ${m.email || m.phone_e164 || 'this member'} from the room?`)) return;
+    setBusy(true);
+    const r = await apiFetch(`/api/rooms/members?id=${encodeURIComponent(m.id)}`, { method: 'DELETE' });
+    setBusy(false);
+    if (r.status !== 200) return alert(`Remove failed: ${apiError(r)}`);
+    await loadMembers();
+  }
+
+  async function claim() {
+    if (!code.trim()) return;
+    setBusy(true);
+    const r = await apiFetch('/api/rooms/claim', { method: 'POST', body: { room_id: roomId, admin_code: code.trim() } });
+    setBusy(false);
+    if (r.status !== 200) return alert(`Claim failed: ${apiError(r)}`);
+    setCode('');
+    onRoleChanged?.();
+  }
+
+  return (
+    <div className="mt-4 rounded-md border p-3">
+      <h3 className="font-medium mb-2">
+        Room roles
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          You: {role ? ROLE_LABELS[role] : status === 'pending' ? 'request pending' : status === 'denied' ? 'request denied' : signedIn ? 'not a member' : 'signed out'}
+        </span>
+      </h3>
+
+      {signedIn && status !== 'approved' && (
+        <div className="mb-3 text-sm">
+          {status === 'pending' && <p className="text-orange-700">Your request to join is waiting for a room admin. You’ll get alerts once it’s approved.</p>}
+          {status === 'denied' && <p className="text-red-700">A room admin declined your request (or suspended your membership).</p>}
+          {!status && (
+            <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" disabled={busy}
+              onClick={async () => { setBusy(true); await onRequestJoin?.(); setBusy(false); }}>
+              {joinMode === 'open' ? 'Join this room' : 'Request to join'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {!isAdmin && signedIn && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input className="rounded-md border px-3 py-2" placeholder="Admin code" inputMode="numeric" value={code} onChange={(e) => setCode(e.target.value)} />
+          <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" disabled={busy} onClick={() => { void claim(); }}>Claim admin</button>
+          <span className="text-xs text-gray-500">The room’s creator was shown this code when the room was made.</span>
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm">
+            <span>Edit policy</span>
+            <select className="rounded-md border px-2 py-1 text-sm" value={editPolicy} onChange={(e) => setEditPolicy?.(e.target.value as EditPolicy)}>
+              {EDIT_POLICIES.map((p) => <option key={p} value={p}>{EDIT_POLICY_LABELS[p]}</option>)}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500">Admins and owners can always edit or delete any sighting. Viewers can only look.</p>
+          <label className="flex items-center gap-2 text-sm">
+            <span>Joining</span>
+            <select className="rounded-md border px-2 py-1 text-sm" value={joinMode} onChange={(e) => setJoinMode?.(e.target.value as JoinMode)}>
+              {JOIN_MODES.map((m) => <option key={m} value={m}>{JOIN_MODE_LABELS[m]}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <span>Alert language</span>
+            <select className="rounded-md border px-2 py-1 text-sm" value={locale} onChange={(e) => setLocale?.(e.target.value as Locale)}>
+              {LOCALES.map((l) => <option key={l} value={l}>{LOCALE_LABELS[l]}</option>)}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500">Members can pick their own language under Alert areas.</p>
+          <NotifyTemplatesEditor roomId={roomId} roomLocale={locale} />
+          {pending.length > 0 && (
+            <p className="text-sm text-orange-700">{pending.length} join request{pending.length === 1 ? '' : 's'} waiting for approval.</p>
+          )}
+
+          {!members ? <p className="text-sm text-gray-500">Loading members…</p> : (
+            <ul className="divide-y rounded-md border text-sm">
+              {members.map((m) => {
+                // Admins manage members/viewers; owners manage everyone
+                const locked = busy || (role !== 'owner' && atLeast(m.role, 'admin'));
+                const choices = ROLES.filter((r) => role === 'owner' || !atLeast(r, 'admin'));
+                return (
+                  <li key={m.id} className="flex flex-wrap items-center gap-2 p-2">
+                    <span className="flex-1 min-w-0">
+                      <span className="block truncate">{m.email || m.phone_e164 || '(no contact)'}</span>
+                      <span className="block text-xs text-gray-500">{decisionNote(m)}</span>
+                    </span>
+                    {!m.approved && (m.decided_at
+                      ? <span className="rounded-full border px-2 text-xs text-red-700">denied</span>
+                      : <span className="rounded-full border px-2 text-xs text-orange-700">pending</span>)}
+                    <select className="rounded-md border px-2 py-1 text-xs" value={m.role} disabled={locked}
+                      onChange={(e) => { void change(m, { role: e.target.value as Role }); }}>
+                      {(choices.includes(m.role) ? choices : [m.role, ...choices]).map((r) => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                    </select>
+                    <button className="rounded-md border px-2 py-1 text-xs" disabled={locked}
+                      onClick={() => { void change(m, { approved: !m.approved }); }}>{m.approved ? 'Suspend' : 'Approve'}</button>
+                    {!m.approved && !m.decided_at && (
+                      <button className="rounded-md border px-2 py-1 text-xs text-red-700" disabled={locked}
+                        onClick={() => { void change(m, { approved: false }); }}>Deny</button>
+                    )}
+                    <button className="rounded-md border px-2 py-1 text-xs text-red-700" disabled={locked}
+                      onClick={() => { void remove(m); }}>Remove</button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ==========================
+// Alert wording (admins): per-room subject/body/short templates per language
+// ==========================
+const TEMPLATE_PART_LABELS: Record<TemplatePart, string> = { subject: 'Email subject', body: 'Email body', short: 'SMS / push text' };
+
+const SAMPLE_VARS: TemplateVars = {
+  room_name: 'Night Watch',
+  title: 'Three lights in a triangle',
+  summary: 'Three lights in a triangle, hovering silently for about two minutes before moving off east.',
+  address: '1 Main St, Roswell, NM',
+  city: 'Roswell',
+  state: 'NM',
+  local_time: 'Tue, Jul 8, 2025 at 10:42 PM MDT',
+  link: 'https://example.com/?room=…&sighting=…',
+  distance: '3.2 mi',
+  coords: '33.39430, -104.52300',
+  reporter: 'someone@example.com',
+};
+
+function NotifyTemplatesEditor({ roomId, roomLocale }: { roomId: string; roomLocale: Locale }) {
+  const [open, setOpen] = useState(false);
+  const [templates, setTemplates] = useState<RoomTemplates>({});
+  const [defaults, setDefaults] = useState<Record<Locale, NotifyTemplate> | null>(null);
+  const [locale, setLocale] = useState<Locale>(roomLocale);
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    const r = await apiFetch(`/api/rooms/templates?room_id=${encodeURIComponent(roomId)}`);
+    if (r.status !== 200) return alert(`Templates: ${apiError(r)}`);
+    setTemplates((r.json.templates as RoomTemplates) || {});
+    setDefaults(r.json.defaults as Record<Locale, NotifyTemplate>);
+  }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { setDefaults(null); if (open) void load(); }, [roomId, open]);
+  useEffect(() => { setLocale(roomLocale); }, [roomLocale]);
+
+  async function save(next: RoomTemplates) {
+    setBusy(true);
+    const r = await apiFetch(`/api/rooms/templates?room_id=${encodeURIComponent(roomId)}`, { method: 'PUT', body: { templates: next } });
+    setBusy(false);
+    if (r.status !== 200) return alert(`Save failed: ${apiError(r)}`);
+    setTemplates((r.json.templates as RoomTemplates) || {});
+  }
+
+  const base = defaults?.[locale];
+  const value = (part: TemplatePart) => templates[locale]?.[part] ?? base?.[part] ?? '';
+  const setPart = (part: TemplatePart, text: string) =>
+    setTemplates((t) => ({ ...t, [locale]: { ...t[locale], [part]: text } }));
+
+  return (
+    <div className="rounded-md border p-2 text-sm">
+      <button className="font-medium" onClick={() => setOpen((o) => !o)}>{open ? '▾' : '▸'} Alert wording</button>
+      {open && (!base ? <p className="text-gray-500">Loading…</p> : (
+        <div className="mt-2 space-y-2">
+          <label className="flex items-center gap-2">
+            <span>Language</span>
+            <select className="rounded-md border px-2 py-1" value={locale} onChange={(e) => setLocale(e.target.value as Locale)}>
+              {LOCALES.map((l) => <option key={l} value={l}>{LOCALE_LABELS[l]}{templates[l] ? ' (customized)' : ''}</option>)}
+            </select>
+          </label>
+          {TEMPLATE_PARTS.map((part) => (
+            <label key={part} className="block">
+              <span className="text-xs text-gray-600">{TEMPLATE_PART_LABELS[part]}</span>
+              {part === 'subject'
+                ? <input className="w-full rounded-md border px-2 py-1" value={value(part)} onChange={(e) => setPart(part, e.target.value)} />
+                : <textarea className="w-full rounded-md border px-2 py-1 font-mono text-xs" rows={part === 'body' ? 8 : 3}
+                    value={value(part)} onChange={(e) => setPart(part, e.target.value)} />}
+            </label>
+          ))}
+          <details className="text-xs text-gray-600">
+            <summary>Variables</summary>
+            <ul className="mt-1 space-y-0.5">
+              {TEMPLATE_VARS.map((v) => <li key={v}><code>{`{{${v}}}`}</code> — {TEMPLATE_VAR_HELP[v]}</li>)}
+            </ul>
+            <p className="mt-1">A line whose variables all have no value (e.g. no alert area for the distance) is left out; an empty variable on a line with others is skipped along with the comma or dash next to it.</p>
+          </details>
+          <div className="rounded-md bg-gray-50 p-2 text-xs">
+            <div className="font-medium">{renderTemplate(value('subject'), SAMPLE_VARS)}</div>
+            <pre className="mt-1 whitespace-pre-wrap font-sans">{renderTemplate(value('body'), SAMPLE_VARS)}</pre>
+            <pre className="mt-2 whitespace-pre-wrap border-t pt-1 font-sans">{renderTemplate(value('short'), SAMPLE_VARS)}</pre>
+          </div>
+          <div className="flex gap-2">
+            <button className="rounded-md border px-3 py-1 hover:bg-gray-50" disabled={busy} onClick={() => { void save(templates); }}>Save</button>
+            <button className="rounded-md border px-3 py-1 hover:bg-gray-50" disabled={busy || !templates[locale]}
+              onClick={() => { void save({ ...templates, [locale]: undefined }); }}>Reset {LOCALE_LABELS[locale]} to default</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ==========================
+// Alert contacts: email confirm link + SMS one-time code
+// ==========================
+type MemberContacts = {
+  email: string | null; email_verified: boolean; email_enabled: boolean;  // email_enabled: false after an unsubscribe link
+  phone: string | null; phone_verified: boolean; sms_enabled: boolean;    // sms_enabled: false after replying STOP
+};
+
+function ContactVerification({ roomId, signedIn, contacts, onChanged }: {
+  roomId: string;
+  signedIn: boolean;
+  contacts: MemberContacts | null;
+  onChanged: () => void;
+}) {
+  const [phone, setPhone] = useState('');
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // Verification needs a member row; joining creates it (pending in approval rooms)
+  async function memberFirst() {
+    if (contacts) return true;
+    const r = await ensureMember(roomId);
+    if (!r || r.status >= 300) { alert(`Join failed: ${r ? apiError(r) : 'network error'}`); return false; }
+    return true;
+  }
+
+  async function sendEmailLink() {
+    setBusy(true);
+    try {
+      if (!(await memberFirst())) return;
+      const r = await apiFetch('/api/members/verify', { method: 'POST', body: { room_id: roomId, channel: 'email' } });
+      if (r.status !== 200) return alert(`Couldn’t send the link: ${apiError(r)}`);
+      alert(r.json.verified ? 'Your email is confirmed.' : 'Check your inbox for a confirmation link.');
+      onChanged();
+    } finally { setBusy(false); }
+  }
+
+  async function sendCode() {
+    const p = phone.trim();
+    if (!/^\+[1-9]\d{6,14}$/.test(p)) return alert('Enter phone in E.164 format, e.g. +15551234567');
+    setBusy(true);
+    try {
+      if (!(await memberFirst())) return;
+      const r = await apiFetch('/api/members/verify', { method: 'POST', body: { room_id: roomId, channel: 'sms', phone_e164: p } });
+      if (r.status !== 200) return alert(`Couldn’t send the code: ${apiError(r)}`);
+      setCodeSentTo(p); setCode('');
+      onChanged();
+    } finally { setBusy(false); }
+  }
+
+  async function confirmCode() {
+    setBusy(true);
+    try {
+      const r = await apiFetch('/api/members/verify/confirm', { method: 'POST', body: { room_id: roomId, code: code.trim() } });
+      if (r.status !== 200) return alert(`Verification failed: ${apiError(r)}`);
+      setCodeSentTo(null); setCode(''); setPhone('');
+      onChanged();
+    } finally { setBusy(false); }
+  }
+
+  if (!signedIn) {
+    return (
+      <div className="mt-4 rounded-md border p-3">
+        <h3 className="font-medium mb-2">Alert contacts</h3>
+        <p className="text-sm text-gray-500">Sign in to get email or SMS alerts for this room.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 rounded-md border p-3 space-y-3">
+      <h3 className="font-medium">Alert contacts</h3>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span>Email: {contacts?.email || 'not set up'}</span>
+        {contacts?.email_verified && !contacts.email_enabled && <span className="rounded-full border px-2 text-xs text-gray-600">unsubscribed</span>}
+        {contacts?.email_verified
+          ? <span className="rounded-full border px-2 text-xs text-green-700">verified</span>
+          : <button className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50" disabled={busy} onClick={() => { void sendEmailLink(); }}>
+              {contacts ? 'Send confirmation link' : 'Join & confirm email'}
+            </button>}
+      </div>
+
+      <div className="space-y-2 text-sm">
+        {contacts?.phone && (
+          <div className="flex items-center gap-2">
+            <span>SMS: {contacts.phone}</span>
+            {contacts.phone_verified
+              ? <span className="rounded-full border px-2 text-xs text-green-700">verified</span>
+              : <span className="rounded-full border px-2 text-xs text-orange-700">unverified</span>}
+            {contacts.phone_verified && !contacts.sms_enabled && <span className="text-xs text-gray-500">paused — text START to resume</span>}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <input className="rounded-md border px-3 py-2" placeholder="+15551234567" value={phone} onChange={(e) => setPhone(e.target.value)} />
+          <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" disabled={busy} onClick={() => { void sendCode(); }}>
+            {contacts?.phone ? 'Change number' : 'Text me a code'}
+          </button>
+        </div>
+        {codeSentTo && (
+          <div className="flex flex-wrap items-center gap-2">
+            <input className="w-28 rounded-md border px-3 py-2" placeholder="123456" inputMode="numeric" maxLength={6}
+              value={code} onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))} />
+            <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" disabled={busy || code.length !== 6} onClick={() => { void confirmCode(); }}>Verify</button>
+            <span className="text-xs text-gray-500">Code sent to {codeSentTo}; it expires in 10 minutes.</span>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Alerts only go to confirmed contacts. We’ll only text for sightings in this room; reply STOP to any text to opt out.
+        Every email has an unsubscribe link.
+      </p>
+    </div>
+  );
+}
+
+// ==========================
+// Alert areas (geofence) + quiet hours
+// ==========================
+type AreaDraft = { kind: 'radius'; center: LatLng | null; radiusKm: number } | { kind: 'polygon'; points: LatLng[] };
+
+function AlertAreasPanel({ roomId, signedIn, isMember }: { roomId: string; signedIn: boolean; isMember: boolean }) {
+  const [areas, setAreas] = useState<AlertArea[] | null>(null);
+  const [quiet, setQuiet] = useState<QuietHours | null>(null);
+  const [quietDraft, setQuietDraft] = useState({ start: '22:00', end: '07:00' });
+  const [digest, setDigest] = useState<DigestPrefs>(DEFAULT_DIGEST_PREFS);
+  const [locale, setLocale] = useState<Locale | null>(null);  // null = the room's language
+  const [draft, setDraft] = useState<AreaDraft>({ kind: 'radius', center: null, radiusKm: 10 });
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const mapRef = useRef<LeafletObject | null>(null);
+  const layerRef = useRef<LeafletObject | null>(null);
+  const myTz = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+  async function load() {
+    const r = await apiFetch(`/api/members/alerts?room_id=${encodeURIComponent(roomId)}`);
+    if (r.status !== 200) return;
+    setAreas(r.json.areas as AlertArea[]);
+    const q = r.json.quiet_hours as QuietHours | null;
+    setQuiet(q);
+    if (q) setQuietDraft({ start: q.start, end: q.end });
+    if (r.json.digest) setDigest(r.json.digest as DigestPrefs);
+    setLocale((r.json.locale as Locale | null) ?? null);
+  }
+  useEffect(() => {
+    // The map node goes away while loading, so start a fresh map afterwards
+    try { mapRef.current?.remove(); } catch {}
+    mapRef.current = null;
+    setAreas(null);
+    if (signedIn && isMember) void load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [roomId, signedIn, isMember]);
+
+  // Clicks set the radius centre or add a polygon corner
+  const onMapClick = useRef<(p: LatLng) => void>(() => {});
+  onMapClick.current = (p) => setDraft((d) => (d.kind === 'radius' ? { ...d, center: p } : { ...d, points: [...d.points, p] }));
+
+  useEffect(() => {
+    if (!areas) return;
+    let alive = true;
+    (async () => {
+      const L = await loadLeaflet(); if (!alive || !L) return;
+      if (!mapRef.current) {
+        const node = document.getElementById('ufo-alert-map'); if (!node) return;
+        const m = L.map(node).setView([39.5, -98.35], 3);
+        L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { attribution: '&copy; OpenStreetMap contributors' }).addTo(m);
+        layerRef.current = L.layerGroup().addTo(m);
+        m.on('click', (e: { latlng: { lat: number; lng: number } }) => onMapClick.current([e.latlng.lat, e.latlng.lng]));
+        mapRef.current = m;
+        // Start on the saved areas, if any
+        const b = L.latLngBounds([]);
+        areas.forEach((a) => {
+          if (a.kind === 'radius' && a.center_lat != null && a.center_lng != null) b.extend(L.latLng(a.center_lat, a.center_lng).toBounds((a.radius_m || 0) * 2));
+          else a.polygon?.forEach((p) => b.extend(p));
+        });
+        if (b.isValid()) m.fitBounds(b.pad(0.1), { animate: false });
+      }
+      const layer = layerRef.current;
+      layer.clearLayers();
+      areas.forEach((a) => {
+        const label = (a.name || 'Alert area').replace(/</g, '&lt;');
+        if (a.kind === 'radius' && a.center_lat != null && a.center_lng != null) {
+          L.circle([a.center_lat, a.center_lng], { radius: a.radius_m || 0, color: '#1d4ed8', weight: 2, fillOpacity: 0.1 }).bindTooltip(label).addTo(layer);
+        } else if (a.polygon) {
+          L.polygon(a.polygon, { color: '#1d4ed8', weight: 2, fillOpacity: 0.1 }).bindTooltip(label).addTo(layer);
+        }
+      });
+      const draftStyle = { color: '#d97706', weight: 2, dashArray: '4 4', fillOpacity: 0.15 };
+      if (draft.kind === 'radius' && draft.center) {
+        L.circle(draft.center, { ...draftStyle, radius: draft.radiusKm * 1000 }).addTo(layer);
+      } else if (draft.kind === 'polygon' && draft.points.length) {
+        (draft.points.length >= 3 ? L.polygon(draft.points, draftStyle) : L.polyline(draft.points, draftStyle)).addTo(layer);
+        draft.points.forEach((p) => L.circleMarker(p, { radius: 3, color: '#d97706' }).addTo(layer));
+      }
+    })();
+    return () => { alive = false; };
+  }, [areas, draft]);
+
+  useEffect(() => () => { try { mapRef.current?.remove(); } catch {} mapRef.current = null; }, []);
+
+  const draftReady = draft.kind === 'radius' ? !!draft.center && draft.radiusKm > 0 : draft.points.length >= 3;
+
+  async function saveArea() {
+    const body = draft.kind === 'radius'
+      ? { room_id: roomId, name, kind: 'radius', center_lat: draft.center![0], center_lng: draft.center![1], radius_m: draft.radiusKm * 1000 }
+      : { room_id: roomId, name, kind: 'polygon', polygon: draft.points };
+    setBusy(true);
+    const r = await apiFetch('/api/members/alerts', { method: 'POST', body });
+    setBusy(false);
+    if (r.status !== 201) return alert(`Save failed: ${apiError(r)}`);
+    setName('');
+    setDraft(draft.kind === 'radius' ? { ...draft, center: null } : { kind: 'polygon', points: [] });
+    await load();
+  }
+
+  async function removeArea(a: AlertArea) {
+    if (!confirm(`Delete ${a.name || 'this alert area'}?`)) return;
+    const r = await apiFetch(`/api/members/alerts?id=${encodeURIComponent(a.id)}`, { method: 'DELETE' });
+    if (r.status !== 200) return alert(`Delete failed: ${apiError(r)}`);
+    await load();
+  }
+
+  async function saveQuiet(next: QuietHours | null) {
+    setBusy(true);
+    const r = await apiFetch('/api/members/alerts', { method: 'PATCH', body: { room_id: roomId, quiet_hours: next } });
+    setBusy(false);
+    if (r.status !== 200) return alert(`Save failed: ${apiError(r)}`);
+    setQuiet(r.json.quiet_hours as QuietHours | null);
+  }
+
+  async function saveDigest(next: DigestPrefs) {
+    setBusy(true);
+    const r = await apiFetch('/api/members/alerts', { method: 'PATCH', body: { room_id: roomId, digest: { ...next, tz: next.tz || myTz } } });
+    setBusy(false);
+    if (r.status !== 200) return alert(`Save failed: ${apiError(r)}`);
+    setDigest(r.json.digest as DigestPrefs);
+  }
+
+  async function saveLocale(next: Locale | null) {
+    setBusy(true);
+    const r = await apiFetch('/api/members/alerts', { method: 'PATCH', body: { room_id: roomId, locale: next } });
+    setBusy(false);
+    if (r.status !== 200) return alert(`Save failed: ${apiError(r)}`);
+    setLocale((r.json.locale as Locale | null) ?? null);
+  }
+
+  function centerOnMe() {
+    if (!navigator.geolocation) return alert('Location is not available in this browser.');
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        const p: LatLng = [pos.coords.latitude, pos.coords.longitude];
+        setDraft((d) => (d.kind === 'radius' ? { ...d, center: p } : d));
+        mapRef.current?.setView(p, 10);
+      },
+      (err) => alert(`Couldn’t get your location: ${err.message}`),
+    );
+  }
+
+  if (!signedIn || !isMember) {
+    return (
+      <div className="mt-4 rounded-md border p-3">
+        <h3 className="font-medium mb-2">Alert areas</h3>
+        <p className="text-sm text-gray-500">Join the room to choose where you get alerts for.</p>
       </div>
-      {loading && <p className="text-sm text-gray-500">Loading…</p>}
-      {errorMsg && <p className="text-sm text-red-600">{errorMsg}</p>}
-      {!loading && !sightings.length && <p className="text-sm text-gray-500">No sightings yet.</p>}
-      <ul className="divide-y rounded-md border">
-        {sightings.map((s) => (
-          <li key={s.id} className="p-3 flex flex-col gap-1">
-            <div className="flex items-center justify-between">
-              <div className="font-medium">{s.summary}</div>
-              <div className="text-xs text-gray-500">{fmtLocal(s.reported_at)}</div>
-            </div>
-            <div className="text-sm text-gray-700">
-              {s.city}, {s.state} {s.address_text ? `• ${s.address_text}` : ''}
-            </div>
-            {(s.vehicle_make || s.vehicle_model || s.vehicle_color) && (
-              <div className="text-xs text-gray-600">
-                Vehicle: {[s.vehicle_color, s.vehicle_make, s.vehicle_model].filter(Boolean).join(' ')}
-              </div>
-            )}
+    );
+  }
 
-            {s.media_urls && s.media_urls.length > 0 && (
-              <div className="flex flex-wrap gap-2 mt-1">
-                {s.media_urls.map((u, i) =>
-                  /\.(mp4|mov|webm|m4v)$/i.test(u) ? (
-                    <video key={i} src={u} className="h-24 rounded-md border" controls />
-                  ) : (
-                    <a key={i} href={u} target="_blank" rel="noreferrer">
-                      <img src={u} alt={`media-${i}`} className="h-24 rounded-md border" />
-                    </a>
-                  )
-                )}
-              </div>
-            )}
+  return (
+    <div className="mt-4 rounded-md border p-3 space-y-3">
+      <h3 className="font-medium">Alert areas</h3>
+      <p className="text-xs text-gray-500">
+        Only get alerts for sightings inside these areas. With no areas you get every alert for the room; sightings without a pin only go to members without areas.
+      </p>
+
+      {!areas ? <p className="text-sm text-gray-500">Loading…</p> : (
+        <>
+          {areas.length > 0 && (
+            <ul className="divide-y rounded-md border text-sm">
+              {areas.map((a) => (
+                <li key={a.id} className="flex items-center gap-2 p-2">
+                  <span className="flex-1 min-w-0 truncate">{a.name || 'Alert area'}</span>
+                  <span className="text-xs text-gray-500">
+                    {a.kind === 'radius' ? `${Math.round((a.radius_m || 0) / 100) / 10} km radius` : `${a.polygon?.length || 0}-point area`}
+                  </span>
+                  <button className="rounded-md border px-2 py-1 text-xs text-red-700" onClick={() => { void removeArea(a); }}>Delete</button>
+                </li>
+              ))}
+            </ul>
+          )}
 
-            <div className="mt-2 flex items-center gap-2">
-              <button className="rounded-md border px-2 py-1 text-xs" onClick={() => onEdit(s)}>Edit</button>
-              <button className="rounded-md border px-2 py-1 text-xs text-red-700" onClick={() => onDelete(s)}>Delete</button>
-              <button className="rounded-md border px-2 py-1 text-xs" onClick={() => onViewOnMap(s)}>View on map</button>
-              {s.lat != null && s.lng != null && (
-                <div className="ml-auto text-xs text-gray-500">{s.lat.toFixed(5)}, {s.lng.toFixed(5)}</div>
+          <div id="ufo-alert-map" className="w-full rounded-md border" style={{ height: 260 }} />
+
+          {areas.length < MAX_ALERT_AREAS && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select className="rounded-md border px-2 py-2 text-sm" value={draft.kind}
+                onChange={(e) => setDraft(e.target.value === 'radius' ? { kind: 'radius', center: null, radiusKm: 10 } : { kind: 'polygon', points: [] })}>
+                <option value="radius">Radius around a point</option>
+                <option value="polygon">Drawn area</option>
+              </select>
+              {draft.kind === 'radius' ? (
+                <>
+                  <label className="flex items-center gap-1">
+                    <input type="number" min={1} max={500} className="w-20 rounded-md border px-2 py-2" value={draft.radiusKm}
+                      onChange={(e) => setDraft({ ...draft, radiusKm: Math.max(0, Number(e.target.value) || 0) })} />
+                    km
+                  </label>
+                  <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={centerOnMe}>Use my location</button>
+                </>
+              ) : (
+                <>
+                  <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" disabled={!draft.points.length}
+                    onClick={() => setDraft({ ...draft, points: draft.points.slice(0, -1) })}>Undo point</button>
+                  <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" disabled={!draft.points.length}
+                    onClick={() => setDraft({ kind: 'polygon', points: [] })}>Clear</button>
+                </>
               )}
+              <input className="rounded-md border px-3 py-2" placeholder="Name (e.g. Home)" value={name} onChange={(e) => setName(e.target.value)} />
+              <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" disabled={busy || !draftReady} onClick={() => { void saveArea(); }}>Add area</button>
+              <span className="w-full text-xs text-gray-500">
+                {draft.kind === 'radius' ? 'Click the map to set the centre.' : `Click the map to add corners (${draft.points.length} so far, at least 3).`}
+              </span>
             </div>
-          </li>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">Quiet hours</span>
+        <input type="time" className="rounded-md border px-2 py-1" value={quietDraft.start} onChange={(e) => setQuietDraft({ ...quietDraft, start: e.target.value })} />
+        <span>to</span>
+        <input type="time" className="rounded-md border px-2 py-1" value={quietDraft.end} onChange={(e) => setQuietDraft({ ...quietDraft, end: e.target.value })} />
+        <button className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50" disabled={busy}
+          onClick={() => { void saveQuiet({ ...quietDraft, tz: myTz }); }}>{quiet ? 'Update' : 'Turn on'}</button>
+        {quiet && <button className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50" disabled={busy} onClick={() => { void saveQuiet(null); }}>Turn off</button>}
+        <span className="w-full text-xs text-gray-500">
+          {quiet ? `No alerts ${quiet.start}–${quiet.end} (${quiet.tz}).` : 'Off — alerts can arrive at any time.'}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">Delivery</span>
+        {(['email', 'sms'] as const).map((ch) => (
+          <label key={ch} className="flex items-center gap-1">
+            {ch === 'email' ? 'Email' : 'SMS'}
+            <select className="rounded-md border px-2 py-1" value={digest[ch]} disabled={busy}
+              onChange={(e) => { void saveDigest({ ...digest, [ch]: e.target.value as DigestMode }); }}>
+              {DIGEST_MODES.map((mode) => <option key={mode} value={mode}>{mode === 'instant' ? 'Every sighting' : mode === 'hourly' ? 'Hourly digest' : 'Daily digest'}</option>)}
+            </select>
+          </label>
         ))}
-      </ul>
+        {(digest.email === 'daily' || digest.sms === 'daily') && (
+          <label className="flex items-center gap-1">
+            daily at
+            <select className="rounded-md border px-2 py-1" value={digest.hour} disabled={busy}
+              onChange={(e) => { void saveDigest({ ...digest, hour: Number(e.target.value) }); }}>
+              {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{String(h).padStart(2, '0')}:00</option>)}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-1">
+          Language
+          <select className="rounded-md border px-2 py-1" value={locale ?? ''} disabled={busy}
+            onChange={(e) => { void saveLocale((e.target.value || null) as Locale | null); }}>
+            <option value="">Room default</option>
+            {LOCALES.map((l) => <option key={l} value={l}>{LOCALE_LABELS[l]}</option>)}
+          </select>
+        </label>
+        <span className="w-full text-xs text-gray-500">
+          Digests bundle new sightings into one message{digest.tz ? ` (times in ${digest.tz})` : ''}. Push notifications are always instant.
+        </span>
+      </div>
     </div>
   );
 }
 
-function ShareLink({ roomId }: { roomId: string }) {
-  const link = `${getBaseUrl()}/?room=${encodeURIComponent(roomId)}`;
+// ==========================
+// Web Push on this device
+// ==========================
+// VAPID public key (base64url) → the Uint8Array PushManager.subscribe expects
+function vapidKeyBytes(key: string) {
+  const b64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+function PushPanel({ roomId, signedIn, isMember }: { roomId: string; signedIn: boolean; isMember: boolean }) {
+  const supported = typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  const [state, setState] = useState<{ configured: boolean; publicKey: string | null; subscribed: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function currentSubscription() {
+    const reg = await navigator.serviceWorker.ready;
+    return reg.pushManager.getSubscription();
+  }
+
+  async function refresh() {
+    try {
+      const sub = supported ? await currentSubscription() : null;
+      const q = new URLSearchParams({ room_id: roomId, ...(sub ? { endpoint: sub.endpoint } : {}) });
+      const r = await apiFetch(`/api/members/push?${q}`);
+      if (r.status !== 200) return;
+      setState({ configured: !!r.json.configured, publicKey: r.json.public_key || null, subscribed: !!r.json.subscribed });
+    } catch {}
+  }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { setState(null); if (signedIn && isMember) void refresh(); }, [roomId, signedIn, isMember]);
+
+  async function enable() {
+    if (!state?.publicKey) return;
+    setBusy(true);
+    try {
+      if ((await Notification.requestPermission()) !== 'granted') return alert('Notifications are blocked for this site. Allow them in your browser settings.');
+      const reg = await navigator.serviceWorker.ready;
+      const sub = (await reg.pushManager.getSubscription())
+        || (await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: vapidKeyBytes(state.publicKey) }));
+      const r = await apiFetch('/api/members/push', { method: 'POST', body: { room_id: roomId, subscription: sub.toJSON() } });
+      if (r.status !== 200) return alert(`Couldn’t turn on push: ${apiError(r)}`);
+      await refresh();
+    } catch (e) {
+      alert(`Couldn’t turn on push: ${(e as Error)?.message || e}`);
+    } finally { setBusy(false); }
+  }
+
+  // Only this room's row goes; the browser subscription stays for other rooms
+  async function disable() {
+    setBusy(true);
+    try {
+      const sub = await currentSubscription();
+      if (sub) {
+        const r = await apiFetch('/api/members/push', { method: 'DELETE', body: { room_id: roomId, endpoint: sub.endpoint } });
+        if (r.status !== 200) return alert(`Couldn’t turn off push: ${apiError(r)}`);
+      }
+      await refresh();
+    } finally { setBusy(false); }
+  }
+
+  if (!signedIn || !isMember) return null;
   return (
-    <div className="mt-3 rounded-md border p-3">
-      <h3 className="font-medium mb-2">Share this room</h3>
-      <div className="flex gap-2 items-center">
-        <input readOnly value={link} className="flex-1 rounded-md border px-3 py-2 text-sm" onFocus={(e) => e.currentTarget.select()} />
-        <button
-          className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50"
-          onClick={async () => {
-            try { await navigator.clipboard.writeText(link); alert('Link copied'); }
-            catch { window.prompt('Copy this link:', link); }
-          }}
-        >Copy</button>
-      </div>
-      <p className="text-xs text-gray-500 mt-2">Anyone who opens this link will auto-join this room.</p>
+    <div className="mt-4 rounded-md border p-3">
+      <h3 className="font-medium mb-2">Push notifications</h3>
+      {!supported ? (
+        <p className="text-sm text-gray-500">This browser doesn’t support push notifications. On iPhone, add the app to your home screen first.</p>
+      ) : !state ? (
+        <p className="text-sm text-gray-500">Checking…</p>
+      ) : !state.configured ? (
+        <p className="text-sm text-gray-500">Push isn’t set up on this server yet.</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>{state.subscribed ? 'On for this device.' : 'Off for this device.'}</span>
+          {state.subscribed
+            ? <button className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50" disabled={busy} onClick={() => { void disable(); }}>Turn off</button>
+            : <button className="rounded-md border px-3 py-1 text-sm hover:bg-gray-50" disabled={busy} onClick={() => { void enable(); }}>Turn on</button>}
+          <span className="w-full text-xs text-gray-500">Tapping a notification opens the sighting on the map. Alert areas and quiet hours apply.</span>
+        </div>
+      )}
     </div>
   );
 }
 
 function SettingsPane({
-  roomId, requireAuth, setRequireAuth,
+  roomId, shortCode = null, requireAuth, setRequireAuth,
+  role = null, membership = null, contacts = null, editPolicy = 'own', setEditPolicy, joinMode = 'approval', setJoinMode,
+  locale = 'en', setLocale, onRequestJoin, onRoleChanged,
   isDefaultRoom, toggleDefaultRoom,
   sessionEmail, joinRoomById, createRoom, leaveRoom,
   onTestNotify, onEnsureMeThenTest, onPreviewRecipients,
+  exportUrl, exportCount = null, filtering = false, onImported,
 }: {
   roomId: string | null;
+  shortCode?: string | null;
   requireAuth: boolean;
   setRequireAuth: (v: boolean) => void;
+  role?: Role | null;
+  editPolicy?: EditPolicy;
+  setEditPolicy?: (p: EditPolicy) => void;
+  membership?: MembershipStatus | null;
+  contacts?: MemberContacts | null;
+  joinMode?: JoinMode;
+  setJoinMode?: (m: JoinMode) => void;
+  locale?: Locale;
+  setLocale?: (l: Locale) => void;
+  onRequestJoin?: () => Promise<void>;
+  onRoleChanged?: () => void;
   isDefaultRoom: boolean;
   toggleDefaultRoom: () => void;
   sessionEmail: string | null;
   joinRoomById: (id: string) => Promise<void>;
-  createRoom: (r: { name?: string | null; owner_email?: string | null }) => Promise<void>;
+  createRoom: (r: { name?: string | null }) => Promise<void>;
   leaveRoom: () => void;
   onTestNotify: () => Promise<void>;
   onEnsureMeThenTest: () => Promise<void>;
   onPreviewRecipients: () => Promise<void>;
+  exportUrl?: (format: ExportFormat, tz: string) => string; // '' tz = room's timezone
+  exportCount?: number | null;
+  filtering?: boolean;
+  onImported?: () => void;
 }) {
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [exportTz, setExportTz] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const myTz = typeof Intl !== 'undefined' ? Intl.DateTimeFormat().resolvedOptions().timeZone : 'UTC';
   return (
     <section className="rounded-2xl border p-4 space-y-3">
       <h2 className="font-semibold">Settings</h2>
@@ -572,7 +2142,11 @@ function SettingsPane({
         </button>
         <div className="md:col-span-4 flex items-center justify-end">
           <label className="flex items-center gap-2 text-sm">
-            <input type="checkbox" className="h-4 w-4" checked={requireAuth} onChange={(e) => setRequireAuth(e.target.checked)} />
+            <input
+              type="checkbox" className="h-4 w-4" checked={requireAuth}
+              disabled={!atLeast(role, 'admin')} title={atLeast(role, 'admin') ? '' : 'Only room admins can change this'}
+              onChange={(e) => setRequireAuth(e.target.checked)}
+            />
             Require sign-in to post
           </label>
         </div>
@@ -587,12 +2161,12 @@ function SettingsPane({
             className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50"
             onClick={() => {
               const name = (document.getElementById('new-room-name') as HTMLInputElement | null)?.value || '';
-              void createRoom({ name, owner_email: sessionEmail || undefined });
+              void createRoom({ name });
             }}
           >Create</button>
           <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={leaveRoom}>Leave room</button>
         </div>
-        {roomId && <ShareLink roomId={roomId} />}
+        {roomId && <ShareLink roomId={roomId} shortCode={shortCode} />}
 
         {/* Default room toggle */}
         {roomId && (
@@ -606,50 +2180,107 @@ function SettingsPane({
         )}
       </div>
 
+      {/* Roles / admin */}
+      {roomId && (
+        <RoomAdminPanel
+          roomId={roomId}
+          role={role}
+          status={membership}
+          signedIn={!!sessionEmail}
+          editPolicy={editPolicy}
+          setEditPolicy={setEditPolicy}
+          joinMode={joinMode}
+          setJoinMode={setJoinMode}
+          locale={locale}
+          setLocale={setLocale}
+          onRequestJoin={onRequestJoin}
+          onRoleChanged={onRoleChanged}
+        />
+      )}
+
+      {/* Export */}
+      {roomId && exportUrl && (
+        <div className="mt-4 rounded-md border p-3">
+          <h3 className="font-medium mb-2">Export sightings</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <select className="rounded-md border px-2 py-2 text-sm" value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}>
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+                <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>
+              ))}
+            </select>
+            <select className="rounded-md border px-2 py-2 text-sm" value={exportTz} onChange={(e) => setExportTz(e.target.value)}>
+              <option value="">Room timezone</option>
+              {myTz !== 'UTC' && <option value={myTz}>My timezone ({myTz})</option>}
+              <option value="UTC">UTC only</option>
+            </select>
+            <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" disabled={exporting}
+              onClick={async () => {
+                setExporting(true);
+                try { await downloadFile(exportUrl(exportFormat, exportTz)); }
+                catch (e) { alert(`Export failed: ${(e as Error)?.message || String(e)}`); }
+                finally { setExporting(false); }
+              }}>
+              {exporting ? 'Exporting…' : 'Download'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {filtering ? 'Exports the sightings matching the current list filters' : 'Exports every sighting in this room'}
+            {exportCount != null ? ` (${exportCount.toLocaleString()})` : ''}. Times are included in UTC and in the chosen timezone.
+          </p>
+        </div>
+      )}
+
+      {/* Import */}
+      {roomId && (
+        <div className="mt-4 rounded-md border p-3">
+          <h3 className="font-medium mb-2">Import sightings</h3>
+          <p className="text-xs text-gray-500">
+            Load a CSV, GeoJSON or NUFORC export, map its columns, and add the rows to this room. Importing the same file again skips rows already added.
+          </p>
+          {!importOpen ? (
+            <button className="mt-2 rounded-md border px-3 py-2 text-sm hover:bg-gray-50"
+              onClick={() => { if (!sessionEmail) return alert('Sign in to import.'); setImportOpen(true); }}>
+              Start import…
+            </button>
+          ) : (
+            <ImportWizard roomId={roomId} onClose={() => setImportOpen(false)} onImported={() => onImported?.()} />
+          )}
+        </div>
+      )}
+
       {/* Notifications */}
       <div className="mt-4 rounded-md border p-3">
         <h3 className="font-medium mb-2">Notifications</h3>
         <div className="flex flex-wrap gap-2">
-          <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={onTestNotify}>Send Test Email/SMS</button>
-          <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={onEnsureMeThenTest}>Ensure I’m a member, then Test</button>
+          <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={onTestNotify}
+            disabled={!atLeast(role, 'admin')} title={atLeast(role, 'admin') ? '' : 'Only room admins can send test alerts'}>Send Test Email/SMS</button>
+          <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={onEnsureMeThenTest}
+            disabled={!atLeast(role, 'admin')} title={atLeast(role, 'admin') ? '' : 'Only room admins can send test alerts'}>Ensure I’m a member, then Test</button>
           <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={onPreviewRecipients}>Preview recipients</button>
           <button className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50" onClick={() => { if (confirm('Reset cached app files and reload?')) resetAppCache(); }}>Reset app cache</button>
         </div>
-        <p className="text-xs text-gray-500 mt-2">Post at least one sighting while signed in so the app can auto-add you to <code>members</code>.</p>
+        <p className="text-xs text-gray-500 mt-2">Alerts go to approved members. Join under Room roles (or post a sighting while signed in); rooms that need approval hold you as pending until an admin accepts.</p>
       </div>
 
-      {/* Save phone for SMS */}
-      <div className="mt-4 rounded-md border p-3">
-        <h3 className="font-medium mb-2">SMS alerts</h3>
-        <div className="flex items-center gap-2">
-          <input id="sms-phone" className="rounded-md border px-3 py-2" placeholder="+15551234567" />
-          <button
-            className="rounded-md border px-3 py-2 text-sm hover:bg-gray-50"
-            onClick={async () => {
-              if (!roomId) return alert('Join or create a room first.');
-              const el = document.getElementById('sms-phone') as HTMLInputElement | null;
-              const phone = el?.value.trim() || '';
-              if (!/^\+[1-9]\d{6,14}$/.test(phone)) return alert('Enter phone in E.164 format, e.g. +15551234567');
-              const r = await fetch('/api/members/join', {
-                method: 'POST', headers: { 'content-type': 'application/json' },
-                body: JSON.stringify({ room_id: roomId, phone_e164: phone }),
-              });
-              const json = await r.json().catch(() => ({}));
-              alert(`Saved: ${r.status}\n${JSON.stringify(json, null, 2)}`);
-            }}
-          >Save my number for SMS</button>
-        </div>
-        <p className="text-xs text-gray-500 mt-2">We’ll only text for sightings in this room.</p>
-      </div>
+      {/* Alert contacts (double opt-in) */}
+      {roomId && (
+        <ContactVerification roomId={roomId} signedIn={!!sessionEmail} contacts={contacts} onChanged={() => onRoleChanged?.()} />
+      )}
+      {roomId && <PushPanel roomId={roomId} signedIn={!!sessionEmail} isMember={!!contacts} />}
+      {roomId && <AlertAreasPanel roomId={roomId} signedIn={!!sessionEmail} isMember={!!contacts} />}
     </section>
   );
 }
 
+/** A Find Address candidate (merged across providers by /api/geocode). */
+type AltChoice = { label: string; lat: number; lng: number; provider: string; providers?: string[]; distance_m?: number; confidence?: number };
+
 function ReportPane({
   isEditing, onCancelEdit,
   summary, setSummary,
   city, setCity,
   stateCode, setStateCode,
+  country, setCountry,
   addressText, setAddressText,
   whenIso, setWhenIso,
   lat, setLat,
@@ -669,6 +2300,7 @@ function ReportPane({
   summary: string; setSummary: (v: string) => void;
   city: string; setCity: (v: string) => void;
   stateCode: string; setStateCode: (v: string) => void;
+  country: string; setCountry: (v: string) => void;
   addressText: string; setAddressText: (v: string) => void;
   whenIso: string; setWhenIso: (v: string) => void;
   lat: number | null; setLat: (v: number | null) => void;
@@ -681,8 +2313,8 @@ function ReportPane({
   reportAnon: boolean; setReportAnon: (v: boolean) => void;
   isGeocoding: boolean; isSaving: boolean;
   // NEW:
-  altChoices: Array<{ label: string; lat: number; lng: number; provider: string }>;
-  setAltChoices: (v: Array<{ label: string; lat: number; lng: number; provider: string }> | ((prev: any) => any)) => void;
+  altChoices: AltChoice[];
+  setAltChoices: React.Dispatch<React.SetStateAction<AltChoice[]>>;
   setActiveTab: (t: 'map' | 'list' | 'report' | 'settings') => void;
   setCenterReq: React.Dispatch<React.SetStateAction<number>>;
 }) {
@@ -719,10 +2351,33 @@ function ReportPane({
           <input className="rounded-md border px-3 py-2" value={city} onChange={(e) => setCity(e.target.value)} />
         </label>
 
-        <label className="flex flex-col gap-1">
-          <span className="text-sm">State *</span>
-          <input className="rounded-md border px-3 py-2" value={stateCode} onChange={(e) => setStateCode(e.target.value)} />
-        </label>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">{regionLabel(country)} *</span>
+            <input
+              className="rounded-md border px-3 py-2"
+              list={COUNTRIES[country] ? `regions-${country}` : undefined}
+              value={stateCode}
+              onChange={(e) => setStateCode(e.target.value)}
+            />
+            {COUNTRIES[country] && (
+              <datalist id={`regions-${country}`}>
+                {Object.entries(COUNTRIES[country].regions).map(([code, name]) => (
+                  <option key={code} value={code}>{name}</option>
+                ))}
+              </datalist>
+            )}
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-sm">Country</span>
+            <select className="rounded-md border px-3 py-2" value={country} onChange={(e) => setCountry(e.target.value)}>
+              {Object.entries(COUNTRIES).map(([code, c]) => (
+                <option key={code} value={code}>{c.name}</option>
+              ))}
+              {!COUNTRIES[country] && <option value={country}>{countryName(country)}</option>}
+            </select>
+          </label>
+        </div>
 
         <label className="flex flex-col gap-1">
           <span className="text-sm">Vehicle Make</span>
@@ -766,7 +2421,11 @@ function ReportPane({
           <li key={`${c.label}-${i}`} className="flex items-center justify-between gap-2 px-3 py-2">
             <div className="min-w-0">
               <div className="text-sm truncate">{c.label}</div>
-              <div className="text-[11px] text-gray-500">source: {c.provider}</div>
+              <div className="text-[11px] text-gray-500">
+                {(c.providers?.length ? c.providers : [c.provider]).join(' + ')}
+                {c.distance_m != null && ` · ${c.distance_m < 1000 ? `${c.distance_m} m` : `${(c.distance_m / 1000).toFixed(1)} km`} away`}
+                {c.confidence != null && ` · ${Math.round(c.confidence * 100)}% confidence`}
+              </div>
             </div>
             <button
               className="shrink-0 rounded-md border px-2 py-1 text-xs hover:bg-gray-50"
@@ -833,7 +2492,8 @@ function ReportPane({
 // ==================
 // Component: ClientPage
 // ==================
-export default function ClientPage() {
+// initialRoom / initialSighting: from /r/<code>[/s/<id>] (the same as ?room= and ?sighting=)
+export default function ClientPage({ initialRoom = null, initialSighting = null }: { initialRoom?: string | null; initialSighting?: string | null } = {}) {
 
   // Tabs — don't read localStorage during render (causes SSR mismatch)
 const [activeTab, setActiveTab] =
@@ -853,25 +2513,59 @@ useEffect(() => { storage.set(STORAGE_TAB, activeTab); }, [activeTab]);
 
   // Session/user
   const [sessionEmail, setSessionEmail] = useState<string | null>(null);
+  const [sessionUserId, setSessionUserId] = useState<string | null>(null);
 
   // Room
   const [roomId, setRoomId] = useState<string | null>(null);
   const [roomName, setRoomName] = useState<string | null>(null);
-  const [requireAuth, setRequireAuth] = useState<boolean>(true); // default ON per your request
+  // Room settings + my role come from the rooms/members rows (GET /api/rooms)
+  const [roomSettings, setRoomSettings] = useState<RoomSettings | null>(null);
+  const [myRole, setMyRole] = useState<Role | null>(null);
+  const [myStatus, setMyStatus] = useState<MembershipStatus | null>(null);
+  const [myContacts, setMyContacts] = useState<MemberContacts | null>(null);
+  const requireAuth = roomSettings?.require_auth ?? true;
 
   // Default room toggle
   const [isDefaultRoom, setIsDefaultRoom] = useState<boolean>(false);
 
   // Sightings + list state
-  const [sightings, setSightings] = useState<Sighting[]>([]);
+  const [sightings, setSightings] = useState<Sighting[]>([]);  // list pages loaded so far
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [mapSightings, setMapSightings] = useState<Sighting[]>([]); // rows inside the map viewport
+  const [mapTruncated, setMapTruncated] = useState(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  // ?sighting=<id> (or a tapped push notification) asks to open one sighting on the map
+  const [openRequest, setOpenRequest] = useState<string | null>(null);
+  const [linkedSighting, setLinkedSighting] = useState<Sighting | null>(null);
+
+  // Search/filter/sort (shared by list + map, mirrored in the URL)
+  // (nothing renders before mount, so reading the URL here can't cause a hydration mismatch)
+  const [filters, setFilters] = useState<SightingFilters>(() =>
+    typeof window === 'undefined' ? EMPTY_FILTERS : parseFilters(new URL(window.location.href).searchParams));
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const url = new URL(window.location.href);
+    const next = filtersToParams(filters, url.searchParams).toString();
+    if (next !== url.searchParams.toString()) {
+      window.history.replaceState(null, '', `${url.pathname}${next ? `?${next}` : ''}${url.hash}`);
+    }
+  }, [filters]);
+
+  // Time slider (filters map + list to a window ending at timeEnd)
+  const [timeEnabled, setTimeEnabled] = useState(false);
+  const [timeEnd, setTimeEnd] = useState<number>(() => Date.now());
+  const [timeWidth, setTimeWidth] = useState<number>(WINDOW_WIDTHS[3].ms);
+  const [timePlaying, setTimePlaying] = useState(false);
 
   // Report form state
   const [summary, setSummary] = useState('');
   const [city, setCity] = useState('');
   const [stateCode, setStateCode] = useState('');
+  const [country, setCountry] = useState(DEFAULT_COUNTRY);
   const [addressText, setAddressText] = useState<string>('');
   const [whenIso, setWhenIso] = useState<string>('');
   const [lat, setLat] = useState<number | null>(null);
@@ -879,7 +2573,7 @@ useEffect(() => { storage.set(STORAGE_TAB, activeTab); }, [activeTab]);
   const [mediaFiles, setMediaFiles] = useState<File[]>([]);
   const [reportAnon, setReportAnon] = useState<boolean>(false);
   const [isGeocoding, setIsGeocoding] = useState(false);
-  const [altChoices, setAltChoices] = useState<Array<{label:string; lat:number; lng:number; provider:string}>>([]);
+  const [altChoices, setAltChoices] = useState<AltChoice[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -892,6 +2586,7 @@ useEffect(() => { setMounted(true); }, []);
   // Edit state
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingOriginalMedia, setEditingOriginalMedia] = useState<string[] | null>(null);
+  const [editingSnapshot, setEditingSnapshot] = useState<Sighting | null>(null);
 
   // Use a stable vh unit on mobile (handles iOS/Chrome URL bar collapse/expand)
   useEffect(() => {
@@ -937,9 +2632,11 @@ useEffect(() => { setMounted(true); }, []);
     let mounted = true;
     (async () => {
       const { data } = await supabase.auth.getUser();
-      if (!mounted) return; setSessionEmail(data.user?.email ?? null);
+      if (!mounted) return; setSessionEmail(data.user?.email ?? null); setSessionUserId(data.user?.id ?? null);
     })();
-    const sub = supabase.auth.onAuthStateChange((_e, sess) => { setSessionEmail(sess?.user?.email ?? null); });
+    const sub = supabase.auth.onAuthStateChange((_e, sess) => {
+      setSessionEmail(sess?.user?.email ?? null); setSessionUserId(sess?.user?.id ?? null);
+    });
     return () => { mounted = false; sub.data.subscription.unsubscribe(); };
   }, []);
 
@@ -947,7 +2644,17 @@ useEffect(() => { setMounted(true); }, []);
   useEffect(() => {
     if (typeof window === 'undefined') return;
     const url = new URL(window.location.href);
-    const paramRoom = (url.searchParams.get('room') || '').trim();
+    const link = parseDeepLink(url.href);
+    const paramRoom = link.room || initialRoom || '';
+    const paramSighting = link.sighting || initialSighting || '';
+    if (paramSighting) setOpenRequest(paramSighting);
+    // Back from an email confirm link (/api/members/verify/confirm)
+    const verified = url.searchParams.get('verified'), verifyError = url.searchParams.get('verify_error');
+    if (verified || verifyError) {
+      url.searchParams.delete('verified'); url.searchParams.delete('verify_error');
+      window.history.replaceState(null, '', url.toString());
+      setTimeout(() => alert(verified ? 'Email confirmed — you’ll get alerts for this room.' : `Email confirmation failed: ${verifyError}`), 0);
+    }
     const defaultId = storage.get<string>(STORAGE_DEFAULT);
     const lastId = storage.get<string>(STORAGE_LAST);
     const envDefault = process.env.NEXT_PUBLIC_DEFAULT_ROOM_ID || null;
@@ -956,6 +2663,39 @@ useEffect(() => { setMounted(true); }, []);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Open a requested sighting: switch to its room if needed, then select it on the map
+  useEffect(() => {
+    if (!openRequest) return;
+    let alive = true;
+    (async () => {
+      try {
+        const r = await apiFetch(`/api/sightings?id=${encodeURIComponent(openRequest)}`);
+        if (!alive) return;
+        if (r.status !== 200) { setOpenRequest(null); return; }
+        const row = r.json.sighting as Sighting;
+        if (row.room_id !== roomId) { await joinRoomById(row.room_id); return; } // re-runs once the room is set
+        setLinkedSighting(row);
+        setSelectedId(row.id);
+        setActiveTab(row.lat != null && row.lng != null ? 'map' : 'list');
+        setOpenRequest(null);
+      } catch { if (alive) setOpenRequest(null); }
+    })();
+    return () => { alive = false; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openRequest, roomId]);
+
+  // A tapped push notification while the app is already open (see src/worker/index.js)
+  useEffect(() => {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+    const onMessage = (ev: MessageEvent) => {
+      if (ev.data?.type !== 'ufo:open') return;
+      const id = parseDeepLink(ev.data.url, window.location.origin).sighting;
+      if (id) setOpenRequest(id);
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
+
   // Track/store last room and default toggle
   useEffect(() => {
     if (roomId) {
@@ -1084,43 +2824,155 @@ useEffect(() => { setMounted(true); }, []);
     }
   }
 
-  async function createRoom(r: { name?: string | null; owner_email?: string | null }) {
-    const payload = {
-      name: r.name || null,
-      owner_email: r.owner_email || sessionEmail || null,
-      short_code: ((r.name || 'room').toLowerCase().replace(/[^a-z0-9]+/g, '').slice(0, 10) + '-' + Math.random().toString(36).slice(2, 6)),
-      admin_code: randomAdminCode(),
-    };
-    const { data, error } = await supabase.from('rooms').insert(payload).select('id, name').single();
-    if (error) return alert(`Create room failed: ${error.message}`);
-    setRoomId(data.id); setRoomName(data.name); setSelectedId(null);
-    await loadSightings(data.id);
+  // Rooms are created server-side; the creator becomes owner and sees the admin code once
+  async function createRoom(r: { name?: string | null }) {
+    if (!sessionEmail) return alert('Sign in to create a room.');
+    const res = await apiFetch('/api/rooms', {
+      method: 'POST',
+      body: { name: r.name || null, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || null },
+    });
+    if (res.status !== 201) return alert(`Create room failed: ${apiError(res)}`);
+    const room = res.json.room as RoomSettings;
+    setRoomId(room.id); setRoomName(room.name); setSelectedId(null);
+    setRoomSettings(room); setMyRole('owner'); setMyStatus('approved');
+    alert(`Room created.\n\nAdmin code: ${res.json.admin_code}\nKeep it somewhere safe — anyone with it can become an admin of this room.`);
+    await loadSightings(room.id);
+  }
+
+  async function loadRoomSettings(id = roomId) {
+    if (!id) { setRoomSettings(null); setMyRole(null); setMyStatus(null); setMyContacts(null); return; }
+    try {
+      const r = await apiFetch(`/api/rooms?id=${encodeURIComponent(id)}`);
+      if (r.status !== 200) return;
+      setRoomSettings(r.json.room as RoomSettings);
+      setMyRole((r.json.role as Role | null) ?? null);
+      setMyStatus((r.json.status as MembershipStatus | null) ?? null);
+      setMyContacts((r.json.contacts as MemberContacts | null) ?? null);
+    } catch {}
+  }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => { void loadRoomSettings(roomId); }, [roomId, sessionEmail]);
+
+  async function updateRoomSettings(patch: Partial<Pick<RoomSettings, 'name' | 'require_auth' | 'edit_policy' | 'join_mode' | 'timezone' | 'locale'>>) {
+    if (!roomId) return;
+    const r = await apiFetch(`/api/rooms?id=${encodeURIComponent(roomId)}`, { method: 'PATCH', body: patch });
+    if (r.status !== 200) return alert(`Update failed: ${apiError(r)}`);
+    setRoomSettings(r.json.room as RoomSettings);
+  }
+
+  const canEdit = (s: Sighting) => canModifySighting(
+    myRole, roomSettings?.edit_policy ?? 'own', s, sessionUserId ? { id: sessionUserId, email: sessionEmail } : null);
+  function leaveRoom() {
+    setRoomId(null); setRoomName(null); setSightings([]); setMapSightings([]); setSelectedId(null);
+    setRoomSettings(null); setMyRole(null); setMyStatus(null); setMyContacts(null);
+    setNextCursor(null); setTotalCount(null); viewportRef.current = null;
+  }
+
+  // Server applies the filters too (sort other than newest/oldest stays client-side)
+  const apiFilterKey = filtersToApiParams(filters).toString();
+  function sightingsUrl(path: string, id: string, extra: Record<string, string> = {}) {
+    return `${path}?${filtersToApiParams(filters, new URLSearchParams({ room_id: id, ...extra }))}`;
+  }
+  const listReqRef = useRef(0);
+  const viewportReqRef = useRef(0);
+  const viewportRef = useRef<{ key: string; bbox: ViewportBounds } | null>(null);
+
+  // Sightings load / refresh (quiet = background resync, no spinner)
+  // Loads the first page plus the total count; a quiet resync keeps as many rows as are showing.
+  async function loadSightings(id = roomId, quiet = false) {
+    if (!id) return;
+    const seq = ++listReqRef.current;
+    if (!quiet) setLoading(true);
+    setErrorMsg(null);
+    try {
+      const limit = quiet ? Math.min(MAX_PAGE_SIZE, Math.max(PAGE_SIZE, sightings.length)) : PAGE_SIZE;
+      const [r, c] = await Promise.all([
+        apiFetch(sightingsUrl('/api/sightings', id, { limit: String(limit) })),
+        apiFetch(sightingsUrl('/api/sightings/count', id)).catch(() => null),
+      ]);
+      if (seq !== listReqRef.current) return;
+      if (r.status !== 200) throw new Error(apiError(r));
+      const rows = (r.json.sightings || []) as Sighting[];
+      setSightings(rows);
+      setNextCursor(r.json.next_cursor || null);
+      setTotalCount(c?.status === 200 && typeof c.json.count === 'number' ? c.json.count : null);
+      void outbox.set(rows, id);
+      if (viewportRef.current) void loadViewport(viewportRef.current.bbox, id, true);
+    } catch (e) {
+      if (seq !== listReqRef.current) return;
+      // Out of coverage: fall back to the last copy saved on this device
+      const cached = isOfflineError(e) ? await outbox.get(id) : [];
+      if (cached.length) {
+        setSightings(cached); setNextCursor(null); setTotalCount(null);
+        setErrorMsg('Offline — showing the last saved copy.');
+      }
+      else setErrorMsg((e as Error)?.message || String(e));
+    }
+    finally { if (seq === listReqRef.current) setLoading(false); }
+  }
+
+  async function loadMoreSightings() {
+    if (!roomId || !nextCursor || loadingMore) return;
+    const seq = listReqRef.current;
+    setLoadingMore(true);
+    try {
+      const r = await apiFetch(sightingsUrl('/api/sightings', roomId, { cursor: nextCursor, limit: String(PAGE_SIZE) }));
+      if (seq !== listReqRef.current) return; // filters/room changed meanwhile
+      if (r.status !== 200) throw new Error(apiError(r));
+      const rows = (r.json.sightings || []) as Sighting[];
+      setSightings((prev) => {
+        const have = new Set(prev.map((x) => x.id));
+        return prev.concat(rows.filter((x) => !have.has(x.id)));
+      });
+      setNextCursor(r.json.next_cursor || null);
+    } catch (e) {
+      setErrorMsg((e as Error)?.message || String(e));
+    }
+    finally { setLoadingMore(false); }
   }
-  function leaveRoom() { setRoomId(null); setRoomName(null); setSightings([]); setSelectedId(null); }
 
-  // Sightings load / refresh
-  async function loadSightings(id = roomId) {
+  // Map viewport: fetch only what's inside the visible bounds (skips repeats of the same view)
+  async function loadViewport(bbox: ViewportBounds, id = roomId, force = false) {
     if (!id) return;
-    setLoading(true); setErrorMsg(null);
+    const box = [bbox.west, bbox.south, bbox.east, bbox.north].map((n) => n.toFixed(4)).join(',');
+    const key = `${id}|${apiFilterKey}|${box}`;
+    const prev = viewportRef.current;
+    viewportRef.current = { key, bbox };
+    if (!force && prev?.key === key) return;
+    const seq = ++viewportReqRef.current;
     try {
-      const { data, error } = await supabase
-        .from('sightings')
-        .select('id, room_id, summary, city, state, address_text, lat, lng, reported_at, user_name, media_urls, vehicle_make, vehicle_model, vehicle_color')
-        .eq('room_id', id)
-        .order('reported_at', { ascending: false });
-      if (error) setErrorMsg(error.message);
-      else setSightings((data || []) as Sighting[]);
-    } catch (e: any) { setErrorMsg(e?.message || String(e)); }
-    finally { setLoading(false); }
+      const r = await apiFetch(sightingsUrl('/api/sightings', id, { bbox: box, limit: String(VIEWPORT_LIMIT) }));
+      if (seq !== viewportReqRef.current) return;
+      if (r.status !== 200) throw new Error(apiError(r));
+      setMapSightings((r.json.sightings || []) as Sighting[]);
+      setMapTruncated(!!r.json.next_cursor);
+    } catch {
+      // The map still shows the list rows; next pan retries
+      if (viewportRef.current?.key === key) viewportRef.current = null;
+    }
   }
-  useEffect(() => { if (roomId) void loadSightings(roomId); /* eslint-disable-next-line */ }, [roomId]);
 
-  // Keep mobile in sync when returning to the tab/app
+  // Reload when the room or the server-side filters change (debounced for typing)
   useEffect(() => {
-    const onVis = () => { if (document.visibilityState === 'visible' && roomId) void loadSightings(roomId); };
-    document.addEventListener('visibilitychange', onVis);
-    return () => document.removeEventListener('visibilitychange', onVis);
-  }, [roomId]);
+    if (!roomId) return;
+    const t = setTimeout(() => { void loadSightings(roomId); }, 250);
+    return () => clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [roomId, apiFilterKey, sessionUserId]);  // signing in/out can change what the room shows
+  useEffect(() => { setMapSightings([]); setMapTruncated(false); }, [roomId]);
+
+  // Live updates: merge realtime inserts/updates/deletes; resync after sleep or reconnect
+  const setLiveRows = React.useCallback((fn: (prev: Sighting[]) => Sighting[]) => {
+    setSightings(fn); setMapSightings(fn);
+  }, []);
+  const liveStatus = useLiveSightings<Sighting>(supabase, roomId, setLiveRows, () => loadSightings(roomId, true));
+
+  // Offline queue: reports that couldn't upload are replayed through writeSighting
+  const outbox = useLocalSightings<Sighting>(roomId, async (item, checkpoint) => {
+    const r = await writeSighting(item, checkpoint);
+    if (r.ok && item.room_id === roomId) void loadSightings(roomId, true);
+    return r;
+  });
 
   // Media upload
   async function uploadFilesForRoom(room: string, files: File[]): Promise<string[]> {
@@ -1140,6 +2992,9 @@ useEffect(() => { setMounted(true); }, []);
   async function upsertSighting() {
     if (!roomId) return alert('Join or create a room first.');
     if (requireAuth && !sessionEmail) return alert('Please sign in to post.');
+    if (myRole === 'viewer') return alert('Viewers can’t post sightings in this room.');
+    if (!editingId && myStatus === 'pending') return alert('Your request to join this room is still waiting for an admin.');
+    if (!editingId && myStatus === 'denied') return alert('You’re not an active member of this room.');
 
     // Vehicle fields from ReportPane
     const veh = (globalThis as any).__ufoVehicle || {};
@@ -1151,7 +3006,7 @@ useEffect(() => { setMounted(true); }, []);
     let resolved = { address_text: addressText, lat, lng };
     if ((!lat || !lng) && (city || stateCode || addressText)) {
       try {
-        const q = [addressText, city, stateCode].filter(Boolean).join(', ');
+        const q = [addressText, city, stateCode, country !== DEFAULT_COUNTRY && countryName(country)].filter(Boolean).join(', ');
         if (q) {
           setIsGeocoding(true);
           const g = await geocodeAddress(q, roomId || undefined);
@@ -1171,7 +3026,8 @@ useEffect(() => { setMounted(true); }, []);
       room_id: roomId,
       summary: summary.trim(),
       city: city.trim(),
-      state: stateCode.trim().toUpperCase(),
+      state: stateCode.trim(),
+      country,
       address_text: resolved.address_text || null,
       lat: resolved.lat ?? null,
       lng: resolved.lng ?? null,
@@ -1180,7 +3036,7 @@ useEffect(() => { setMounted(true); }, []);
       vehicle_make, vehicle_model, vehicle_color,
     };
 
-    if (!base.summary || !base.city || !base.state) return alert('City, State, and Summary are required.');
+    if (!base.summary || !base.city || !base.state) return alert(`City, ${regionLabel(country)}, and Summary are required.`);
 
     // Require a precise pin before saving (prevents “no pin” reports)
 if (base.lat == null || base.lng == null) {
@@ -1190,83 +3046,104 @@ if (base.lat == null || base.lng == null) {
 }
 
 
+    const item: Omit<QueuedSighting, 'key' | 'queued_at' | 'attempts' | 'last_error' | 'status'> = {
+      room_id: roomId,
+      op: editingId ? 'update' : 'create',
+      target_id: editingId,
+      base,
+      keep_media: editingId ? (editingOriginalMedia ? [...editingOriginalMedia] : null) : null,
+      files: mediaFiles.map((f) => ({ name: f.name, type: f.type, blob: f })),
+      snapshot: editingId ? editingSnapshot : null,
+      client_key: randomKey(),
+    };
+    const queueOffline = async () => {
+      await outbox.enqueue(item);
+      clearReportForm();
+      alert('You’re offline. The report (with its pin and media) was saved to Pending uploads and will send automatically when you reconnect.');
+    };
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return queueOffline();
+
     try {
       setIsSaving(true);
-      let finalMedia: string[] | null = editingId ? (editingOriginalMedia ? [...editingOriginalMedia] : null) : null;
+      const live: QueuedSighting = { ...item, key: 'live', queued_at: new Date().toISOString(), attempts: 0, last_error: null, status: 'pending' };
+      let saved = await writeSighting(live);
+      if (!saved.ok) {
+        const again = saved.conflict === 'deleted'
+          ? confirm('This sighting was deleted by someone else. Save your version as a new sighting?')
+          : confirm('Someone else changed this sighting since you started editing. Overwrite their changes?');
+        if (!again) return;
+        saved = await writeSighting(saved.conflict === 'deleted'
+          ? { ...live, op: 'create', target_id: null, snapshot: null, client_key: randomKey() }
+          : { ...live, force: true });
+        if (!saved.ok) return alert('Save failed: the sighting changed again. Please reload and retry.');
+      }
 
-      if (mediaFiles.length) {
-        const newUrls = await uploadFilesForRoom(roomId, mediaFiles);
-        finalMedia = (finalMedia || []).concat(newUrls);
+      if (saved.notify && saved.notify.status !== 200) {
+        alert(`Notify failed (${saved.notify.status}).\n${JSON.stringify(saved.notify.json, null, 2)}`);
       }
 
-      if (!editingId) {
-  // Return id + coords so we can jump to the pin
-  const { data: created, error } = await supabase
-    .from('sightings')
-    .insert({ ...base, media_urls: finalMedia })
-    .select('id, lat, lng')
-    .single();
-
-  if (error) return alert(`Upload failed: ${error.message}`);
-
-  await ensureMember(roomId, sessionEmail || undefined);
-
-  const { status: ns, json: nj } = await notifyRoom({
-    room_id: roomId,
-    title: base.summary.slice(0, 80) || 'New sighting',
-    notes: base.summary,
-    address_text: base.address_text,
-    lat: base.lat,
-    lng: base.lng,
-    when_iso: base.reported_at,
-  });
-  if (ns !== 200) alert(`Notify failed (${ns}).\n${JSON.stringify(nj, null, 2)}`);
-
-  // If the DB has lat/lng, jump straight to the Map and center there
-  if (created) {
-    setSelectedId(created.id);
-    if (created.lat != null && created.lng != null) {
-      setLat(created.lat);
-      setLng(created.lng);
-      setActiveTab('map');          // show the map
-      setCenterReq((c) => c + 1);   // force center to this pin
-    } else {
-      setActiveTab('list');         // fallback if no coords
-    }
-  }
-} else {
-  const { data: updated, error } = await supabase
-    .from('sightings')
-    .update({ ...base, media_urls: finalMedia })
-    .eq('id', editingId)
-    .select('id, lat, lng')
-    .single();
-  if (error) return alert(`Update failed: ${error.message}`);
-
-  // Show the map and center on the edited pin (if it has coords)
-  if (updated) {
-    setSelectedId(updated.id);
-    if (updated.lat != null && updated.lng != null) {
-      setLat(updated.lat);
-      setLng(updated.lng);
-      setActiveTab('map');
-      setCenterReq((c) => c + 1);
-    }
-  }
-}
+      // If the DB has lat/lng, jump straight to the Map and center there
+      const row = saved.row;
+      if (row) {
+        setSelectedId(row.id);
+        if (row.lat != null && row.lng != null) {
+          setLat(row.lat);
+          setLng(row.lng);
+          setActiveTab('map');          // show the map
+          setCenterReq((c) => c + 1);   // force center to this pin
+        } else if (item.op === 'create') {
+          setActiveTab('list');         // fallback if no coords
+        }
+      }
 
-     await loadSightings(roomId);
-clearReportForm();
-// do not force tab here; creation branch already switched to map if it had coords
+      await loadSightings(roomId);
+      clearReportForm();
     } catch (e: any) {
+      if (isOfflineError(e)) return queueOffline();
       alert(`Save failed: ${e?.message || String(e)}`);
     } finally {
       setIsSaving(false);
     }
   }
 
+  // Write one report through /api/sightings — used for live saves and offline-queue replay.
+  // Edits send the snapshot taken when editing began; the server answers 409 if it changed.
+  // Creates send the item's client_key, so a replay after a lost response gets the existing row back.
+  async function writeSighting(item: QueuedSighting, checkpoint?: (patch: Partial<QueuedSighting>) => Promise<void>) {
+    // A create that already went through (checkpointed below) has nothing left to send
+    if (item.op === 'create' && item.target_id) return { ok: true as const, row: null, notify: null };
+
+    let finalMedia: string[] | null = item.keep_media ? [...item.keep_media] : null;
+    if (item.files.length) {
+      const files = item.files.map((f) => new File([f.blob], f.name, { type: f.type }));
+      finalMedia = (finalMedia || []).concat(await uploadFilesForRoom(item.room_id, files));
+      await checkpoint?.({ keep_media: finalMedia, files: [] });
+    }
+
+    type Row = { id: string; lat: number | null; lng: number | null };
+    if (item.op === 'create') {
+      const r = await apiFetch('/api/sightings', { method: 'POST', body: { ...item.base, media_urls: finalMedia, client_key: item.client_key } });
+      if (r.status !== 201 && r.status !== 200) throw new SubmitError(`Upload failed: ${apiError(r)}`, r.status);
+      await checkpoint?.({ target_id: r.json.sighting.id });
+      // Notifications are sent server-side; surface their result for the "Notify failed" alert
+      const notify = r.json.notify?.ok === false ? { status: 500, json: r.json.notify } : { status: 200, json: r.json.notify };
+      return { ok: true as const, row: r.json.sighting as Row, notify };
+    }
+
+    const r = await apiFetch(`/api/sightings?id=${encodeURIComponent(item.target_id || '')}`, {
+      method: 'PATCH',
+      body: { ...item.base, media_urls: finalMedia, expect: item.snapshot, force: !!item.force },
+    });
+    if (r.status === 404) return { ok: false as const, conflict: 'deleted' as const };
+    if (r.status === 409) return { ok: false as const, conflict: 'changed' as const };
+    if (r.status !== 200) throw new SubmitError(`Update failed: ${apiError(r)}`, r.status);
+    return { ok: true as const, row: r.json.sighting as Row, notify: null };
+  }
+
   function clearReportForm() {
   setEditingId(null);
+  setEditingSnapshot(null);
   setSummary('');
   setCity('');
   setStateCode('');
@@ -1284,17 +3161,19 @@ clearReportForm();
     if (!roomId) return;
     const ok = confirm('Delete this sighting? This cannot be undone.');
     if (!ok) return;
-    const { error } = await supabase.from('sightings').delete().eq('id', s.id).eq('room_id', roomId);
-    if (error) return alert(`Delete failed: ${error.message}`);
+    const r = await apiFetch(`/api/sightings?id=${encodeURIComponent(s.id)}`, { method: 'DELETE' });
+    if (r.status !== 200) return alert(`Delete failed: ${apiError(r)}`);
     await loadSightings(roomId);
   }
 
   function beginEdit(s: Sighting) {
     setEditingId(s.id);
     setEditingOriginalMedia(s.media_urls || null);
+    setEditingSnapshot(s);
     setSummary(s.summary || '');
     setCity(s.city || '');
     setStateCode(s.state || '');
+    setCountry(s.country || DEFAULT_COUNTRY);
     setAddressText(s.address_text || '');
     setLat(s.lat ?? null); setLng(s.lng ?? null);
     setWhenIso(s.reported_at || new Date().toISOString());
@@ -1323,6 +3202,43 @@ clearReportForm();
     alert(error ? `Sign-in error: ${error.message}` : 'Signed in.');
   }
 
+  // Playback: advance the window a tenth of its width per frame, stop at the newest sighting
+  const playbackEnd = React.useMemo(
+    () => sightings.reduce((mx, s) => Math.max(mx, new Date(s.reported_at).getTime() || 0), 0) + 1,
+    [sightings]);
+  useEffect(() => {
+    if (!timePlaying) return;
+    const step = Math.max(60 * 1000, Math.round(timeWidth / 10));
+    const id = window.setInterval(() => setTimeEnd((e) => Math.min(e + step, playbackEnd)), 400);
+    return () => window.clearInterval(id);
+  }, [timePlaying, timeWidth, playbackEnd]);
+  useEffect(() => {
+    if (timePlaying && timeEnd >= playbackEnd) setTimePlaying(false);
+  }, [timePlaying, timeEnd, playbackEnd]);
+
+  const timeWindow: TimeWindow | null = timeEnabled ? { start: timeEnd - timeWidth, end: timeEnd } : null;
+  const inTimeWindow = (rows: Sighting[]) => !timeWindow ? rows : rows.filter((s) => {
+    const t = new Date(s.reported_at).getTime();
+    return t >= timeWindow.start && t <= timeWindow.end;
+  });
+  // Rows are re-filtered locally so realtime inserts respect the filters too
+  const filteredSightings = React.useMemo(() => applyFilters(sightings, filters), [sightings, filters]);
+  const visibleSightings = React.useMemo(
+    () => inTimeWindow(filteredSightings),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [filteredSightings, timeWindow?.start, timeWindow?.end]);
+  // Map shows the viewport rows plus any list rows (e.g. one picked via "View on map"),
+  // and a linked sighting (push notification / shared link) even if the filters hide it
+  const mapPoints = React.useMemo(() => {
+    const byId = new Map<string, Sighting>();
+    for (const s of mapSightings) byId.set(s.id, s);
+    for (const s of sightings) byId.set(s.id, s);
+    const shown = inTimeWindow(applyFilters([...byId.values()], filters));
+    return linkedSighting && linkedSighting.room_id === roomId && !shown.some((s) => s.id === linkedSighting.id)
+      ? [...shown, linkedSighting] : shown;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [mapSightings, sightings, filters, timeWindow?.start, timeWindow?.end, linkedSighting, roomId]);
+
   // ===========
   // Page header
   // ===========
@@ -1336,6 +3252,15 @@ clearReportForm();
           <h1 className="text-2xl md:text-3xl font-semibold">UFO Sightings Tracker</h1>
           <p className="text-sm text-gray-500 mt-1">
             {roomId ? <>Room: <span className="font-medium">{roomName || roomId}</span></> : <em>No room selected (open Settings)</em>}
+            {roomId && (
+              <span
+                className={`ml-2 inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${liveStatus === 'live' ? 'text-green-700' : 'text-gray-500'}`}
+                title={liveStatus === 'live' ? 'Receiving updates in real time' : 'Reconnecting…'}
+              >
+                <span className={`h-2 w-2 rounded-full ${liveStatus === 'live' ? 'bg-green-500' : liveStatus === 'connecting' ? 'bg-yellow-400' : 'bg-gray-400'}`} />
+                {liveStatus === 'live' ? 'Live' : liveStatus === 'connecting' ? 'Connecting' : 'Offline'}
+              </span>
+            )}
           </p>
         </div>
         <div className="text-right">
@@ -1383,6 +3308,15 @@ clearReportForm();
         ))}
       </nav>
 
+      <PendingUploads
+        items={outbox.pending}
+        flushing={outbox.flushing}
+        onRetry={() => { void outbox.flush(); }}
+        onRetryItem={(key) => { void outbox.retry(key); }}
+        onDiscard={(key) => { void outbox.discard(key); }}
+        onKeepMine={(key) => { void outbox.keepMine(key); }}
+      />
+
       {/* Gate posting if required */}
       {gated && (
         <div className="rounded-xl border p-4 bg-yellow-50 text-sm">
@@ -1391,18 +3325,34 @@ clearReportForm();
       )}
 
       {/* Panels */}
+      {(activeTab === 'map' || activeTab === 'list') && (
+        <TimeSlider
+          sightings={filteredSightings}
+          enabled={timeEnabled} setEnabled={setTimeEnabled}
+          end={timeEnd} setEnd={setTimeEnd}
+          widthMs={timeWidth} setWidthMs={setTimeWidth}
+          playing={timePlaying} setPlaying={setTimePlaying}
+        />
+      )}
+
       {activeTab === 'map' && (
         <MapPane
           roomId={roomId || 'none'}
-          points={sightings}
+          points={mapPoints}
+          fade={timeWindow}
+          onViewportChange={(b) => { void loadViewport(b); }}
+          viewportNote={mapTruncated ? `Showing the newest ${VIEWPORT_LIMIT.toLocaleString()} sightings in view — zoom in to see more.` : null}
           selectedId={selectedId}
           draft={{ lat: lat ?? null, lon: lng ?? null }}
           onSelect={(id) => { setSelectedId(id); setActiveTab('list'); }}
           onMapClick={async (clat, clon) => {
             setLat(clat); setLng(clon);
             try {
-              const g = await geocodeAddress(`${clat}, ${clon}`, roomId || undefined);
-              if (g?.address_text) setAddressText(g.address_text);
+              const g = await reverseGeocode(clat, clon);
+              if (g.address_text) setAddressText(g.address_text);
+              if (g.city) setCity(g.city);
+              if (g.state_code || g.state) setStateCode(g.state_code || g.state || '');
+              if (g.country_code) setCountry(g.country_code.toUpperCase());
             } catch {}
             setActiveTab('report');
           }}
@@ -1413,12 +3363,22 @@ clearReportForm();
 
       {activeTab === 'list' && (
         <ListPane
-          sightings={sightings}
+          sightings={visibleSightings}
+          allSightings={sightings}
+          filters={filters}
+          setFilters={setFilters}
           loading={loading}
           errorMsg={errorMsg}
           onRefresh={() => loadSightings()}
+          total={totalCount}
+          hasMore={!!nextCursor}
+          loadingMore={loadingMore}
+          onLoadMore={() => { void loadMoreSightings(); }}
           onEdit={(s) => beginEdit(s)}
           onDelete={handleDelete}
+          canEdit={canEdit}
+          showDeliveries={atLeast(myRole, 'admin')}
+          shareUrl={(s) => `${getBaseUrl()}${sightingPath({ id: s.room_id, short_code: roomSettings?.short_code }, s.id)}`}
           onViewOnMap={(s) => { setSelectedId(s.id); setActiveTab('map'); }}
         />
       )}
@@ -1430,6 +3390,7 @@ clearReportForm();
           summary={summary} setSummary={setSummary}
           city={city} setCity={setCity}
           stateCode={stateCode} setStateCode={setStateCode}
+          country={country} setCountry={setCountry}
           addressText={addressText} setAddressText={setAddressText}
           whenIso={whenIso} setWhenIso={setWhenIso}
           lat={lat} setLat={setLat}
@@ -1437,7 +3398,7 @@ clearReportForm();
           mediaFiles={mediaFiles} setMediaFiles={setMediaFiles}
           fileInputRef={fileInputRef}
    onFindAddress={async () => {
-  const q = [addressText, city, stateCode].filter(Boolean).join(', ');
+  const q = [addressText, city, stateCode, country !== DEFAULT_COUNTRY && countryName(country)].filter(Boolean).join(', ');
   if (!q) return;
 
   // Show Map first so Leaflet is mounted when the result arrives
@@ -1459,15 +3420,20 @@ clearReportForm();
         near,
         expectCity: city,
         expectState: stateCode,
+        expectCountry: country,
       }),
     });
 
+    if (res.status === 429) {
+      alert(`Too many address lookups — try again in ${res.headers.get('retry-after') || 'a few'} seconds.`);
+      return;
+    }
     if (!res.ok) {
       // 2) If strict fails, fetch candidates for a picker
       const cr = await fetch('/api/geocode', {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify({ q, near, candidates: true }),
+        body: JSON.stringify({ q, near, expectCity: city, expectState: stateCode, expectCountry: country, candidates: true }),
       });
       if (cr.ok) {
         const { candidates } = await cr.json();
@@ -1477,8 +3443,13 @@ clearReportForm();
             lat: Number(c.lat),
             lng: Number(c.lng),
             provider: c.provider,
+            providers: Array.isArray(c.providers) ? c.providers : undefined,
+            distance_m: c.distance_m != null ? Number(c.distance_m) : undefined,
+            confidence: c.confidence != null ? Number(c.confidence) : undefined,
           }))
         );
+      } else if (cr.status === 429) {
+        alert(`Too many address lookups — try again in ${cr.headers.get('retry-after') || 'a few'} seconds.`);
       } else {
         alert('No precise match found in the specified city/state.');
       }
@@ -1525,14 +3496,38 @@ clearReportForm();
       {activeTab === 'settings' && (
         <SettingsPane
           roomId={roomId}
+          shortCode={roomSettings?.short_code ?? null}
           requireAuth={requireAuth}
-          setRequireAuth={setRequireAuth}
+          setRequireAuth={(v) => { void updateRoomSettings({ require_auth: v }); }}
+          role={myRole}
+          editPolicy={roomSettings?.edit_policy ?? 'own'}
+          setEditPolicy={(p) => { void updateRoomSettings({ edit_policy: p }); }}
+          membership={myStatus}
+          contacts={myContacts}
+          joinMode={roomSettings?.join_mode ?? 'approval'}
+          setJoinMode={(m) => { void updateRoomSettings({ join_mode: m }); }}
+          locale={roomSettings?.locale ?? 'en'}
+          setLocale={(l) => { void updateRoomSettings({ locale: l }); }}
+          onRequestJoin={async () => {
+            if (!roomId) return;
+            const r = await ensureMember(roomId);
+            if (!r || r.status >= 300) return alert(`Join failed: ${r ? apiError(r) : 'network error'}`);
+            if (r.json.status === 'pending') alert('Request sent. A room admin needs to approve it before you get alerts or can post.');
+            await loadRoomSettings(roomId);
+          }}
+          onRoleChanged={() => { void loadRoomSettings(roomId); }}
           isDefaultRoom={isDefaultRoom}
           toggleDefaultRoom={toggleDefaultRoom}
           sessionEmail={sessionEmail}
           joinRoomById={joinRoomById}
           createRoom={createRoom}
           leaveRoom={leaveRoom}
+          exportUrl={(format, tz) => sightingsUrl('/api/sightings/export', roomId || '', {
+            format, ...(tz ? { tz } : {}), ...(filters.sort !== 'newest' ? { sort: filters.sort } : {}),
+          })}
+          exportCount={totalCount}
+          filtering={isFiltering(filters)}
+          onImported={() => { void loadSightings(roomId, true); }}
           onTestNotify={async () => {
             if (!roomId) return alert('Join or create a room first.');
             const when_iso = new Date().toISOString();
@@ -1544,7 +3539,7 @@ clearReportForm();
           }}
           onEnsureMeThenTest={async () => {
             if (!roomId) return alert('Join or create a room first.');
-            await ensureMember(roomId, sessionEmail || undefined);
+            await ensureMember(roomId);
             const when_iso = new Date().toISOString();
             const { status, json } = await notifyRoom({
               room_id: roomId, title: 'Test notification (after ensure)', notes: 'Ensured membership',
@@ -1556,10 +3551,10 @@ clearReportForm();
             if (!roomId) return alert('Join or create a room first.');
             const { data, error } = await supabase
               .from('members')
-              .select('email, phone_e164, approved, email_enabled, sms_enabled')
+              .select('email, phone_e164, approved, email_enabled, sms_enabled, email_verified_at, phone_verified_at')
               .eq('room_id', roomId)
               .eq('approved', true);
-            alert(error ? `Members query error: ${error.message}` : `Approved members:\n${JSON.stringify(data, null, 2)}`);
+            alert(error ? `Members query error: ${error.message}` : `Approved members (alerts go to verified contacts only):\n${JSON.stringify(data, null, 2)}`);
           }}
         />
       )}
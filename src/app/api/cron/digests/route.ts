@@ -0,0 +1,32 @@
+// src/app/api/cron/digests/route.ts
+// GET /api/cron/digests — sends hourly/daily notification digests that are due.
+// Call it at least hourly (every 15 minutes keeps daily digests close to the chosen hour)
+// with `Authorization: Bearer <CRON_SECRET>`, like /api/cron/outbox.
+import { NextRequest } from 'next/server';
+import { getAdminClient } from '@/lib/server/supabase';
+import { sendDueDigests } from '@/lib/server/digest';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return j(500, { ok: false, where: 'env', error: 'Missing CRON_SECRET' });
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) return j(401, { ok: false, where: 'auth', error: 'Invalid cron secret' });
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const result = await sendDueDigests(admin);
+    return j(200, { ok: true, ...result });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,42 @@
+// src/app/api/cron/outbox/route.ts
+// GET /api/cron/outbox — sends due notification_outbox rows (retries with backoff).
+// Call it every minute or so from a scheduler (Vercel Cron, GitHub Actions, cron + curl)
+// with `Authorization: Bearer <CRON_SECRET>`.
+import { NextRequest } from 'next/server';
+import { getAdminClient } from '@/lib/server/supabase';
+import { processOutbox } from '@/lib/server/outbox';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const BATCH = 100;
+const MAX_BATCHES = 5;  // stay well inside the function time limit
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return j(500, { ok: false, where: 'env', error: 'Missing CRON_SECRET' });
+  if (req.headers.get('authorization') !== `Bearer ${secret}`) return j(401, { ok: false, where: 'auth', error: 'Invalid cron secret' });
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const totals = { claimed: 0, sent: 0, retrying: 0, failed: 0 };
+    const errors: Record<string, string> = {};
+    for (let i = 0; i < MAX_BATCHES; i++) {
+      const r = await processOutbox(admin, { limit: BATCH });
+      totals.claimed += r.claimed; totals.sent += r.sent; totals.retrying += r.retrying; totals.failed += r.failed;
+      for (const [channel, err] of Object.entries(r.errors)) errors[channel] ??= err;
+      if (r.claimed < BATCH) break;
+    }
+    return j(200, { ok: true, ...totals, errors });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,69 @@
+// src/app/api/email/events/route.ts
+// Resend webhook (subscribe to the email.* events; secret in RESEND_WEBHOOK_SECRET).
+// Updates the notification_outbox row for the email: delivered, bounced (failed) or delayed.
+// A spam complaint also turns email alerts off for that member.
+import { NextRequest } from 'next/server';
+import { getAdminClient } from '@/lib/server/supabase';
+import { recordProviderStatus } from '@/lib/server/outbox';
+import { verifyResendWebhook } from '@/lib/server/webhooks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+type ResendEvent = {
+  type?: string;  // email.sent, email.delivered, email.bounced, email.complained, email.delivery_delayed, …
+  data?: { email_id?: string; bounce?: { message?: string; type?: string } };
+};
+
+export async function POST(req: NextRequest) {
+  if (!process.env.RESEND_WEBHOOK_SECRET) return j(500, { ok: false, where: 'env', error: 'Missing RESEND_WEBHOOK_SECRET' });
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    // The signature covers the raw body, so read it before parsing
+    const raw = await req.text();
+    if (!verifyResendWebhook(req.headers, raw)) return j(403, { ok: false, where: 'auth', error: 'Invalid webhook signature' });
+
+    const event = JSON.parse(raw) as ResendEvent;
+    const emailId = event.data?.email_id;
+    const type = (event.type || '').replace(/^email\./, '');
+    if (!emailId || !type) return j(200, { ok: true, ignored: true });
+
+    switch (type) {
+      case 'delivered': {
+        const rows = await recordProviderStatus(admin, emailId, { provider_status: type, status: 'delivered' });
+        return j(200, { ok: true, updated: rows.length });
+      }
+      case 'bounced': {
+        const reason = event.data?.bounce?.message || event.data?.bounce?.type || 'Bounced';
+        const rows = await recordProviderStatus(admin, emailId, { provider_status: type, status: 'failed', error: reason });
+        return j(200, { ok: true, updated: rows.length });
+      }
+      case 'complained': {
+        // Delivered, but the recipient marked it as spam: stop emailing them
+        const rows = await recordProviderStatus(admin, emailId, { provider_status: type, status: 'delivered' });
+        const memberIds = rows.map((r) => r.member_id).filter((id): id is string => !!id);
+        if (memberIds.length) {
+          const { error } = await admin.from('members').update({ email_enabled: false }).in('id', memberIds);
+          if (error) return j(500, { ok: false, where: 'update members', error: error.message });
+        }
+        return j(200, { ok: true, updated: rows.length });
+      }
+      default: {
+        // sent, delivery_delayed, opened, clicked, …: informational
+        const rows = await recordProviderStatus(admin, emailId, { provider_status: type });
+        return j(200, { ok: true, updated: rows.length });
+      }
+    }
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,177 @@
+// src/app/api/geocode/reverse/route.ts
+// GET /api/geocode/reverse?lat=<n>&lng=<n>  (or POST { lat, lng })
+// Coordinates → { provider, address_text, city, state, state_code, country_code, lat, lng, cache }.
+// Providers are tried in the GEOCODE_PROVIDERS order (default Google, Geoapify, Mapbox, Nominatim);
+// the first with an address wins. Cached, rate limited and health-tracked like /api/geocode (lib/server/geocode/);
+// 503 when no provider answered.
+import { NextRequest } from 'next/server';
+import { regionCode } from '@/lib/regions';
+import { HIT_TTL_MS, MISS_TTL_MS, cacheKey, cachedReply, getCached, putCached, type CacheInfo, type CachedResult } from '@/lib/server/geocode/cache';
+import { geocodeConfig, serviceOrder } from '@/lib/server/geocode/config';
+import { assertGoogleOk, geoFetch } from '@/lib/server/geocode/health';
+import { clientIp, providerGate, takeIpSlot, tooMany, unavailable, type GeocodeProvider } from '@/lib/server/geocode/limits';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type ReverseHit = {
+  provider: string;
+  address_text: string;
+  city?: string;
+  state?: string;
+  state_code?: string;
+  country_code?: string;
+  lat: number;
+  lng: number;
+};
+
+function err(message: string, status = 400) {
+  return new Response(JSON.stringify({ error: message }, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const url = new URL(req.url);
+  return reverse(req, url.searchParams.get('lat'), url.searchParams.get('lng'));
+}
+
+export async function POST(req: NextRequest) {
+  const body = ((await req.json().catch(() => null)) || {}) as { lat?: unknown; lng?: unknown };
+  return reverse(req, body.lat, body.lng);
+}
+
+async function reverse(req: NextRequest, rawLat: unknown, rawLng: unknown) {
+  try {
+    const lat = rawLat == null || rawLat === '' ? NaN : Number(rawLat);
+    const lng = rawLng == null || rawLng === '' ? NaN : Number(rawLng);
+    if (!Number.isFinite(lat) || lat < -90 || lat > 90) return err('lat must be a number between -90 and 90', 400);
+    if (!Number.isFinite(lng) || lng < -180 || lng > 180) return err('lng must be a number between -180 and 180', 400);
+
+    const key = cacheKey('reverse', { lat, lng }, 4);
+    const cached = await getCached(key);
+    if (cached) return cachedReply(cached.value, cached.info);
+    const miss: CacheInfo = { status: 'miss', key };
+
+    const ipWait = takeIpSlot(clientIp(req.headers));
+    if (ipWait) return tooMany(ipWait, miss);
+    const { via, limited, failed, answered } = providerGate();
+
+    let hit: ReverseHit | null = null;
+    for (const provider of serviceOrder(geocodeConfig().order)) {
+      hit = await via(provider, null, () => REVERSE[provider](lat, lng));
+      if (hit) break;
+    }
+    const result: CachedResult = hit
+      ? { status: 200, body: hit }
+      : { status: 404, body: { error: 'No address found at this point' } };
+
+    // With a provider skipped or failing the answer is partial: a miss becomes "retry later", and nothing is cached
+    if (limited.size || failed.size) {
+      if (!hit && limited.size) return tooMany(Math.max(...limited.values()), miss);
+      if (!hit && !answered.size) return unavailable(failed, miss);
+      return cachedReply(result, miss);
+    }
+    await putCached(key, result, hit ? HIT_TTL_MS : MISS_TTL_MS);
+    return cachedReply(result, miss);
+  } catch (e) {
+    return err((e as Error)?.message || String(e), 500);
+  }
+}
+
+// ---------- Providers ----------
+
+const REVERSE: Record<GeocodeProvider, (lat: number, lng: number) => Promise<ReverseHit | null>> = {
+  google: reverseGoogle,
+  geoapify: reverseGeoapify,
+  mapbox: reverseMapbox,
+  nominatim: reverseNominatim,
+};
+
+// Google Geocoding API
+async function reverseGoogle(lat: number, lng: number): Promise<ReverseHit | null> {
+  const params = new URLSearchParams({ latlng: `${lat},${lng}`, language: 'en', key: process.env.GOOGLE_MAPS_API_KEY || '' });
+  const r = await geoFetch(`https://maps.googleapis.com/maps/api/geocode/json?${params.toString()}`);
+  const j = await r.json().catch(() => null);
+  assertGoogleOk(j);
+  const best = j?.results?.[0];
+  if (!best) return null;
+
+  const part = (type: string) => (best.address_components || []).find((c: { types?: string[] }) => (c?.types || []).includes(type));
+  const city = part('locality') || part('postal_town') || part('sublocality') || part('administrative_area_level_2');
+  const region = part('administrative_area_level_1');
+  const country = part('country');
+  return {
+    provider: 'google',
+    address_text: best.formatted_address || '',
+    city: city?.long_name,
+    state: region?.long_name,
+    state_code:
+      regionCode(country?.short_name, region?.short_name) || regionCode(country?.short_name, region?.long_name) ||
+      (region?.short_name && region.short_name.length <= 3 ? region.short_name.toUpperCase() : undefined),
+    country_code: (country?.short_name || '').toLowerCase() || undefined,
+    lat, lng,
+  };
+}
+
+// Geoapify
+async function reverseGeoapify(lat: number, lng: number): Promise<ReverseHit | null> {
+  const params = new URLSearchParams({ lat: String(lat), lon: String(lng), lang: 'en', apiKey: process.env.GEOAPIFY_API_KEY || '' });
+  const r = await geoFetch(`https://api.geoapify.com/v1/geocode/reverse?${params.toString()}`);
+  const j = await r.json().catch(() => null);
+  const p = j?.features?.[0]?.properties;
+  if (!p) return null;
+  return {
+    provider: 'geoapify',
+    address_text: p.formatted || [p.name, p.street, p.city, p.state].filter(Boolean).join(', '),
+    city: p.city || p.town || p.village || p.suburb,
+    state: p.state,
+    state_code: p.state_code?.toUpperCase(),
+    country_code: (p.country_code || '').toLowerCase() || undefined,
+    lat, lng,
+  };
+}
+
+// Mapbox
+async function reverseMapbox(lat: number, lng: number): Promise<ReverseHit | null> {
+  const params = new URLSearchParams({ access_token: process.env.MAPBOX_TOKEN || '', language: 'en', limit: '1', types: 'address,poi,place' });
+  const r = await geoFetch(`https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json?${params.toString()}`);
+  const j = await r.json().catch(() => null);
+  const best = j?.features?.[0];
+  if (!best) return null;
+
+  let city: string | undefined, state: string | undefined, state_code: string | undefined, country_code: string | undefined;
+  // A "place" result is itself the city; otherwise it's in the context
+  if ((best.place_type || []).includes('place')) city = best.text;
+  for (const c of (best.context || []) as { id?: string; text?: string; short_code?: string }[]) {
+    const id: string = c?.id || '';
+    if (id.startsWith('place')) city = c?.text;
+    if (id.startsWith('region')) {
+      state = c?.text;
+      state_code = c?.short_code?.split('-')[1]?.toUpperCase();
+    }
+    if (id.startsWith('country')) country_code = (c?.short_code || '').toLowerCase();
+  }
+  return { provider: 'mapbox', address_text: best.place_name || '', city, state, state_code, country_code, lat, lng };
+}
+
+// Nominatim
+async function reverseNominatim(lat: number, lng: number): Promise<ReverseHit | null> {
+  const params = new URLSearchParams({ lat: String(lat), lon: String(lng), format: 'jsonv2', addressdetails: '1', 'accept-language': 'en' });
+  const r = await geoFetch(`https://nominatim.openstreetmap.org/reverse?${params.toString()}`, {
+    headers: { 'User-Agent': 'ufo-tracker (contact: owner@example.com)' },
+  });
+  const j = await r.json().catch(() => null);
+  if (!j || j.error) return null;
+  const addr = j.address || {};
+  return {
+    provider: 'nominatim',
+    address_text: j.display_name || '',
+    city: addr.city || addr.town || addr.village || addr.hamlet || addr.suburb,
+    state: addr.state,
+    state_code: regionCode(addr.country_code, addr['ISO3166-2-lvl4'] || addr.state) || undefined,
+    country_code: (addr.country_code || '').toLowerCase() || undefined,
+    lat, lng,
+  };
+}
@@ -1,11 +1,31 @@
 // src/app/api/geocode/route.ts
+// POST /api/geocode { q, near?, expectCity?, expectState?, expectCountry?, candidates?, approximate? }
+// expectCountry is an ISO 3166-1 code (default US when a state is expected); expectState is a region
+// of it by code or name ("ON", "Ontario", "CA-ON"; lib/regions.ts), compared as text for other countries.
+// Candidates are merged across providers and ranked (lib/server/geocode/rank.ts): each has
+// `providers`, `confidence` (0–1) and, with `near`, `distance_m`.
+// (coordinates → address is /api/geocode/reverse)
+// Answers are cached by normalized query (lib/server/geocode/cache.ts) and reported as
+// `cache: { status: 'hit' | 'miss', source?, age_s? }` plus an x-geocode-cache header.
+// Misses are rate limited per IP and per provider (lib/server/geocode/limits.ts): 429 + Retry-After.
+// Provider order and candidate weights come from GEOCODE_PROVIDERS / GEOCODE_WEIGHTS (lib/server/geocode/config.ts);
+// providers that keep failing are skipped for a while (lib/server/geocode/health.ts). Answers missing a
+// provider that failed or was skipped aren't cached, and a miss where none answered is a 503.
+// GET /api/geocode?health=1 → per-provider key/breaker/latency/error-rate report (this instance only).
 import { NextRequest } from 'next/server';
+import { HIT_TTL_MS, MISS_TTL_MS, cacheKey, cachedReply, getCached, putCached, type CacheInfo, type CachedResult } from '@/lib/server/geocode/cache';
+import { SOURCE_SERVICE, geocodeConfig, type GeocodeSource } from '@/lib/server/geocode/config';
+import { assertGoogleOk, geoFetch, healthOf } from '@/lib/server/geocode/health';
+import { rankCandidates, type Candidate, type RankedCandidate } from '@/lib/server/geocode/rank';
+import { clientIp, providerConfigured, providerGate, providerWindow, takeIpSlot, tooMany, unavailable, type GeocodeProvider, type Via } from '@/lib/server/geocode/limits';
+import { COUNTRIES, DEFAULT_COUNTRY, countryCode, foldName, isCountryCode, regionCode } from '@/lib/regions';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 // ---------- Types ----------
 type Near = { lat: number; lng: number } | null;
+type Expect = { city?: string; state?: string; country?: string };  // country: ISO code, upper case
 type PreciseHit = {
   provider: string;
   address_text: string;
@@ -13,17 +33,6 @@ type PreciseHit = {
   lng: number;
   meta?: any;
 };
-type Candidate = {
-  provider: string;
-  label: string;
-  lat: number;
-  lng: number;
-  city?: string;
-  state?: string;
-  state_code?: string;
-  country_code?: string;
-  score?: number;
-};
 
 // ---------- Small helpers ----------
 function ok(body: unknown, status = 200) {
@@ -35,64 +44,39 @@ function ok(body: unknown, status = 200) {
 function err(message: string, status = 400) {
   return ok({ error: message }, status);
 }
-function norm(s?: string | null) {
-  return (s || '').toLowerCase().replace(/[\s,.'-]+/g, ' ').trim();
-}
-
-// US states (code ↔ name)
-const US_STATES: Record<string, string> = {
-  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
-  CO: 'Colorado', CT: 'Connecticut', DC: 'District of Columbia', DE: 'Delaware',
-  FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', IA: 'Iowa', ID: 'Idaho',
-  IL: 'Illinois', IN: 'Indiana', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
-  MA: 'Massachusetts', MD: 'Maryland', ME: 'Maine', MI: 'Michigan',
-  MN: 'Minnesota', MO: 'Missouri', MS: 'Mississippi', MT: 'Montana',
-  NC: 'North Carolina', ND: 'North Dakota', NE: 'Nebraska', NH: 'New Hampshire',
-  NJ: 'New Jersey', NM: 'New Mexico', NV: 'Nevada', NY: 'New York',
-  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania',
-  RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee',
-  TX: 'Texas', UT: 'Utah', VA: 'Virginia', VT: 'Vermont', WA: 'Washington',
-  WI: 'Wisconsin', WV: 'West Virginia', WY: 'Wyoming',
-};
-const STATE_NAMES_TO_CODE = Object.fromEntries(
-  Object.entries(US_STATES).map(([k, v]) => [v.toLowerCase(), k])
-);
 
 // Matching helpers
-function inUS(code?: string | null) {
-  const c = (code || '').toLowerCase();
-  return c === 'us' || c === 'usa';
-}
-function sameState(foundName?: string | null, foundCode?: string | null, expect?: string | null) {
+function sameRegion(country?: string, foundName?: string | null, foundCode?: string | null, expect?: string | null) {
   if (!expect) return true;
-  const e = expect.toUpperCase();
-  const eName = US_STATES[e] || expect;
-  const eNormName = norm(eName);
-  const fCode = (foundCode || '').toUpperCase();
-  const fName = norm(foundName);
-  if (fCode && e.length === 2 && fCode === e) return true;
-  if (fName && fName === eNormName) return true;
-  return false;
+  const want = regionCode(country, expect);
+  if (want) return regionCode(country, foundCode) === want || regionCode(country, foundName) === want;
+  // A region we have no table for: compare as written
+  const e = foldName(expect);
+  return foldName(foundName) === e || foldName(foundCode) === e;
 }
 function cityTokensMatch(foundCity?: string | null, expect?: string | null) {
   if (!expect) return true; // if not provided, don’t constrain by city
-  const f = norm(foundCity);
-  const e = norm(expect);
+  const f = foldName(foundCity);
+  const e = foldName(expect);
   if (!f || !e) return false;
   const need = e.split(' ').filter(Boolean);
   return need.every((w) => f.includes(w));
 }
 function acceptHit(
   meta: { city?: string | null; state?: string | null; state_code?: string | null; country_code?: string | null },
-  expectCity?: string | null,
-  expectState?: string | null
+  expect: Expect
 ) {
-  if (expectState && !inUS(meta.country_code)) return false;
-  if (!sameState(meta.state, meta.state_code, expectState || null)) return false;
-  if (!cityTokensMatch(meta.city, expectCity || null)) return false;
+  if (expect.country && countryCode(meta.country_code) !== expect.country) return false;
+  if (!sameRegion(expect.country, meta.state, meta.state_code, expect.state || null)) return false;
+  if (!cityTokensMatch(meta.city, expect.city || null)) return false;
   return true;
 }
 
+// Google's `region` is a ccTLD ("uk" for GB); unconstrained lookups keep the US bias
+function googleRegion(country?: string) {
+  return country ? COUNTRIES[country]?.google || country.toLowerCase() : 'us';
+}
+
 // Precision checks per provider
 function isPreciseGeoapify(f: any): boolean {
   const t = f?.properties?.result_type || '';
@@ -137,89 +121,126 @@ function isPreciseNominatim(f: any): boolean {
     t === 'fuel' || t === 'pub' || t === 'convenience'
   );
 }
+// The fields of a Nominatim search result that we read
+type NominatimAddress = Record<string, string | undefined>;
+type NominatimPlace = { lat?: string; lon?: string; display_name?: string; address?: NominatimAddress };
 function labelNominatim(f: any): string {
   return f?.display_name || '';
 }
+// Nominatim gives the ISO 3166-2 code ("CA-ON") alongside the name
+function nominatimRegion(addr: NominatimAddress | undefined): string | undefined {
+  return regionCode(addr?.country_code, addr?.['ISO3166-2-lvl4'] || addr?.state) || undefined;
+}
+
+// ---------- GET: health check ----------
+export async function GET(req: NextRequest) {
+  const url = new URL(req.url);
+  if (url.searchParams.get('health') !== '1') return err('Use POST to geocode. For health check use ?health=1', 404);
+
+  const { order, weights, problems } = geocodeConfig();
+  const services: GeocodeProvider[] = ['google', 'geoapify', 'mapbox', 'nominatim'];
+  const providers = Object.fromEntries(services.map((p) => [p, {
+    configured: providerConfigured(p),
+    sources: order.filter((s) => SOURCE_SERVICE[s] === p),
+    rate_limit: providerWindow(p),
+    ...healthOf(p),
+  }]));
+  const usable = services.some((p) => providers[p].configured && providers[p].sources.length && providers[p].breaker !== 'open');
+  return ok({ ok: usable && !problems.length, order, weights, problems, providers });
+}
 
 // ---------- POST handler ----------
 export async function POST(req: NextRequest) {
   try {
-    const { q, near, expectCity, expectState, candidates } = (await req.json()) as {
+    const { q, near, expectCity, expectState, expectCountry, candidates, approximate } = (await req.json()) as {
       q?: string;
       near?: Near;
       expectCity?: string;
       expectState?: string;
+      expectCountry?: string;
       candidates?: boolean; // if true, return list of options
+      approximate?: boolean; // if true, fall back to a city-level point (bulk import of city/state-only rows)
     };
     if (!q || !q.trim()) return err('Missing q', 400);
+    const country = expectCountry?.trim() ? expectCountry.trim().toUpperCase() : expectState ? DEFAULT_COUNTRY : undefined;
+    if (country && !isCountryCode(country)) return err('expectCountry must be a two-letter ISO 3166 code', 400);
+    const expect: Expect = { city: expectCity, state: expectState, country };
 
     const text = q.trim();
     const bias = near && Number.isFinite(near.lat) && Number.isFinite(near.lng) ? near : null;
 
+    const key = cacheKey(candidates ? 'candidates' : 'strict', {
+      q: text, lat: bias?.lat, lng: bias?.lng, city: expectCity, state: expectState, country, approximate: !candidates && !!approximate,
+    });
+    const cached = await getCached(key);
+    if (cached) return cachedReply(cached.value, cached.info);
+    const miss: CacheInfo = { status: 'miss', key };
+
+    const ipWait = takeIpSlot(clientIp(req.headers));
+    if (ipWait) return tooMany(ipWait, miss);
+    const { via, limited, failed, answered } = providerGate();
+
+    let result: CachedResult;
     if (candidates) {
-      const list = await gatherCandidates(text, bias, expectCity, expectState);
-      if (!list.length) return err('No candidates', 404);
-      return ok({ candidates: list.slice(0, 8) });
+      const list = await gatherCandidates(text, bias, expect, via);
+      result = list.length
+        ? { status: 200, body: { candidates: list.slice(0, 8) } }
+        : { status: 404, body: { error: 'No candidates' } };
+    } else {
+      // Strict: first precise + acceptable hit wins, in the configured order
+      let hit: PreciseHit | null = null;
+      for (const source of geocodeConfig().order) {
+        hit = await via(SOURCE_SERVICE[source], null, () => STRICT[source](text, bias, expect, !!approximate));
+        if (hit) break;
+      }
+      result = hit
+        ? { status: 200, body: hit }
+        : { status: 404, body: { error: 'No precise match found in specified city/state' } };
     }
 
-    // Strict: first precise + acceptable hit wins
-    const hit =
-      (await fromGoogleFindPlace(text, bias, expectCity, expectState)) ||
-      (await fromGeoapify(text, bias, expectCity, expectState)) ||
-      (await fromMapbox(text, bias, expectCity, expectState)) ||
-      (await fromGoogleText(text, bias, expectCity, expectState)) ||
-      (await fromNominatim(text, bias, expectCity, expectState));
-
-    if (!hit) return err('No precise match found in specified city/state', 404);
-    return ok(hit);
+    // With a provider skipped or failing the answer is partial: a miss becomes "retry later", and nothing is cached
+    if (limited.size || failed.size) {
+      if (result.status === 404 && limited.size) return tooMany(Math.max(...limited.values()), miss);
+      if (result.status === 404 && !answered.size) return unavailable(failed, miss);
+      return cachedReply(result, miss);
+    }
+    await putCached(key, result, result.status === 200 ? HIT_TTL_MS : MISS_TTL_MS);
+    return cachedReply(result, miss);
   } catch (e: any) {
     return err(e?.message || String(e), 500);
   }
 }
 
+// ---------- Source tables ----------
+const STRICT: Record<GeocodeSource, (q: string, near: Near, expect: Expect, approximate?: boolean) => Promise<PreciseHit | null>> = {
+  google_findplace: fromGoogleFindPlace,
+  geoapify: fromGeoapify,
+  mapbox: fromMapbox,
+  google_text: fromGoogleText,
+  nominatim: fromNominatim,
+};
+const CANDIDATES: Record<GeocodeSource, (q: string, near: Near, country?: string) => Promise<Candidate[]>> = {
+  google_findplace: candidatesGoogleFindPlace,
+  geoapify: candidatesGeoapify,
+  mapbox: candidatesMapbox,
+  google_text: candidatesGoogleText,
+  nominatim: candidatesNominatim,
+};
+
 // ---------- Candidate aggregator ----------
-async function gatherCandidates(q: string, near: Near, expectCity?: string, expectState?: string): Promise<Candidate[]> {
-  const buckets: Candidate[][] = await Promise.all([
-    candidatesGoogleFindPlace(q, near),
-    candidatesGeoapify(q, near),
-    candidatesMapbox(q, near),
-    candidatesGoogleText(q, near),
-    candidatesNominatim(q, near),
-  ]);
-
-  // flatten
-  let all: Candidate[] = buckets.flat().map((c, i) => ({ ...c, score: 100 - i })); // keep rough ordering
-
-  // Only keep US if a state is expected
-  if (expectState) all = all.filter((c) => inUS(c.country_code));
-
-  // Prefer matches that satisfy state & city
-  const cityWanted = norm(expectCity);
-  const stateWanted = (expectState || '').toUpperCase();
-  all.forEach((c) => {
-    let s = c.score || 0;
-    if (c.state_code && stateWanted && c.state_code.toUpperCase() === stateWanted) s += 30;
-    if (c.state && stateWanted && norm(c.state) === norm(US_STATES[stateWanted] || c.state)) s += 20;
-    if (c.city && cityWanted && norm(c.city).includes(cityWanted)) s += 20;
-    c.score = s;
-  });
+async function gatherCandidates(q: string, near: Near, expect: Expect, via: Via): Promise<RankedCandidate[]> {
+  const { order, weights } = geocodeConfig();
+  const buckets: Candidate[][] = await Promise.all(
+    order.map((source) => via(SOURCE_SERVICE[source], [], () => CANDIDATES[source](q, near, expect.country)))
+  );
 
-  // Dedupe by (label, lat/lng rounded)
-  const seen = new Set<string>();
-  const out: Candidate[] = [];
-  for (const c of all.sort((a, b) => (b.score || 0) - (a.score || 0))) {
-    const key = `${norm(c.label)}|${Math.round(c.lat * 1e4)}|${Math.round(c.lng * 1e4)}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    out.push(c);
-  }
-  return out;
+  return rankCandidates(buckets, { order, weights, near, expect });
 }
 
 // ---------- Providers (strict + candidates) ----------
 
 // Google Places — Find Place (best for businesses)
-async function fromGoogleFindPlace(q: string, near: Near, expectCity?: string, expectState?: string): Promise<PreciseHit | null> {
+async function fromGoogleFindPlace(q: string, near: Near, expect: Expect): Promise<PreciseHit | null> {
   const key = process.env.GOOGLE_MAPS_API_KEY;
   if (!key) return null;
   const base = 'https://maps.googleapis.com/maps/api/place/findplacefromtext/json';
@@ -227,20 +248,20 @@ async function fromGoogleFindPlace(q: string, near: Near, expectCity?: string, e
     input: q,
     inputtype: 'textquery',
     fields: 'name,formatted_address,geometry,types,plus_code',
-    region: 'us',
+    region: googleRegion(expect.country),
     key,
   });
   if (near) params.set('locationbias', `circle:25000@${near.lat},${near.lng}`); // 25km bias
 
-  const r = await fetch(`${base}?${params.toString()}`);
-  if (!r.ok) return null;
+  const r = await geoFetch(`${base}?${params.toString()}`);
   const j = await r.json().catch(() => null);
+  assertGoogleOk(j);
   const c = j?.candidates?.[0];
   if (!c || !isPreciseGoogle(c)) return null;
 
   const addr = parseGoogleFormattedAddress(c?.formatted_address);
   const meta = { city: addr.city, state: addr.state, state_code: addr.state_code, country_code: addr.country_code };
-  if (!acceptHit(meta, expectCity, expectState)) return null;
+  if (!acceptHit(meta, expect)) return null;
 
   return {
     provider: 'google_findplace',
@@ -250,7 +271,7 @@ async function fromGoogleFindPlace(q: string, near: Near, expectCity?: string, e
     meta,
   };
 }
-async function candidatesGoogleFindPlace(q: string, near: Near): Promise<Candidate[]> {
+async function candidatesGoogleFindPlace(q: string, near: Near, country?: string): Promise<Candidate[]> {
   const key = process.env.GOOGLE_MAPS_API_KEY;
   if (!key) return [];
   const base = 'https://maps.googleapis.com/maps/api/place/findplacefromtext/json';
@@ -258,14 +279,14 @@ async function candidatesGoogleFindPlace(q: string, near: Near): Promise<Candida
     input: q,
     inputtype: 'textquery',
     fields: 'name,formatted_address,geometry,types,plus_code',
-    region: 'us',
+    region: googleRegion(country),
     key,
   });
   if (near) params.set('locationbias', `circle:25000@${near.lat},${near.lng}`);
 
-  const r = await fetch(`${base}?${params.toString()}`);
-  if (!r.ok) return [];
+  const r = await geoFetch(`${base}?${params.toString()}`);
   const j = await r.json().catch(() => null);
+  assertGoogleOk(j);
   const list: any[] = j?.candidates || [];
   return list.slice(0, 5).map((c) => {
     const addr = parseGoogleFormattedAddress(c?.formatted_address);
@@ -283,22 +304,22 @@ async function candidatesGoogleFindPlace(q: string, near: Near): Promise<Candida
 }
 
 // Google — Text Search (fallback)
-async function fromGoogleText(q: string, near: Near, expectCity?: string, expectState?: string): Promise<PreciseHit | null> {
+async function fromGoogleText(q: string, near: Near, expect: Expect): Promise<PreciseHit | null> {
   const key = process.env.GOOGLE_MAPS_API_KEY;
   if (!key) return null;
   const base = 'https://maps.googleapis.com/maps/api/place/textsearch/json';
-  const params = new URLSearchParams({ query: q, region: 'us', key, language: 'en' });
+  const params = new URLSearchParams({ query: q, region: googleRegion(expect.country), key, language: 'en' });
   if (near) params.set('location', `${near.lat},${near.lng}`);
 
-  const r = await fetch(`${base}?${params.toString()}`);
-  if (!r.ok) return null;
+  const r = await geoFetch(`${base}?${params.toString()}`);
   const j = await r.json().catch(() => null);
+  assertGoogleOk(j);
   const best = (j?.results || []).find(isPreciseGoogle);
   if (!best) return null;
 
   const addr = parseGoogleFormattedAddress(best?.formatted_address);
   const meta = { city: addr.city, state: addr.state, state_code: addr.state_code, country_code: addr.country_code };
-  if (!acceptHit(meta, expectCity, expectState)) return null;
+  if (!acceptHit(meta, expect)) return null;
 
   return {
     provider: 'google_text',
@@ -308,16 +329,16 @@ async function fromGoogleText(q: string, near: Near, expectCity?: string, expect
     meta,
   };
 }
-async function candidatesGoogleText(q: string, near: Near): Promise<Candidate[]> {
+async function candidatesGoogleText(q: string, near: Near, country?: string): Promise<Candidate[]> {
   const key = process.env.GOOGLE_MAPS_API_KEY;
   if (!key) return [];
   const base = 'https://maps.googleapis.com/maps/api/place/textsearch/json';
-  const params = new URLSearchParams({ query: q, region: 'us', key, language: 'en' });
+  const params = new URLSearchParams({ query: q, region: googleRegion(country), key, language: 'en' });
   if (near) params.set('location', `${near.lat},${near.lng}`);
 
-  const r = await fetch(`${base}?${params.toString()}`);
-  if (!r.ok) return [];
+  const r = await geoFetch(`${base}?${params.toString()}`);
   const j = await r.json().catch(() => null);
+  assertGoogleOk(j);
   return (j?.results || []).slice(0, 5).map((it: any) => {
     const addr = parseGoogleFormattedAddress(it?.formatted_address);
     return {
@@ -334,15 +355,15 @@ async function candidatesGoogleText(q: string, near: Near): Promise<Candidate[]>
 }
 
 // Geoapify
-async function fromGeoapify(q: string, near: Near, expectCity?: string, expectState?: string): Promise<PreciseHit | null> {
+async function fromGeoapify(q: string, near: Near, expect: Expect): Promise<PreciseHit | null> {
   const key = process.env.GEOAPIFY_API_KEY;
   if (!key) return null;
   const base = 'https://api.geoapify.com/v1/geocode/search';
   const params = new URLSearchParams({ text: q, lang: 'en', limit: '5', apiKey: key });
   if (near) params.set('bias', `proximity:${near.lng},${near.lat}`);
+  if (expect.country) params.set('filter', `countrycode:${expect.country.toLowerCase()}`);
 
-  const r = await fetch(`${base}?${params.toString()}`);
-  if (!r.ok) return null;
+  const r = await geoFetch(`${base}?${params.toString()}`);
   const j = await r.json().catch(() => null);
   const best = (j?.features || []).find(isPreciseGeoapify);
   if (!best) return null;
@@ -353,7 +374,7 @@ async function fromGeoapify(q: string, near: Near, expectCity?: string, expectSt
     state_code: best?.properties?.state_code,
     country_code: best?.properties?.country_code,
   };
-  if (!acceptHit(meta, expectCity, expectState)) return null;
+  if (!acceptHit(meta, expect)) return null;
 
   return {
     provider: 'geoapify',
@@ -363,15 +384,15 @@ async function fromGeoapify(q: string, near: Near, expectCity?: string, expectSt
     meta,
   };
 }
-async function candidatesGeoapify(q: string, near: Near): Promise<Candidate[]> {
+async function candidatesGeoapify(q: string, near: Near, country?: string): Promise<Candidate[]> {
   const key = process.env.GEOAPIFY_API_KEY;
   if (!key) return [];
   const base = 'https://api.geoapify.com/v1/geocode/search';
   const params = new URLSearchParams({ text: q, lang: 'en', limit: '8', apiKey: key });
   if (near) params.set('bias', `proximity:${near.lng},${near.lat}`);
+  if (country) params.set('filter', `countrycode:${country.toLowerCase()}`);
 
-  const r = await fetch(`${base}?${params.toString()}`);
-  if (!r.ok) return [];
+  const r = await geoFetch(`${base}?${params.toString()}`);
   const j = await r.json().catch(() => null);
   return (j?.features || [])
     .filter((f: any) => isPreciseGeoapify(f))
@@ -388,16 +409,16 @@ async function candidatesGeoapify(q: string, near: Near): Promise<Candidate[]> {
 }
 
 // Mapbox
-async function fromMapbox(q: string, near: Near, expectCity?: string, expectState?: string): Promise<PreciseHit | null> {
+async function fromMapbox(q: string, near: Near, expect: Expect): Promise<PreciseHit | null> {
   const key = process.env.MAPBOX_TOKEN;
   if (!key) return null;
   const enc = encodeURIComponent(q);
   const base = `https://api.mapbox.com/geocoding/v5/mapbox.places/${enc}.json`;
   const params = new URLSearchParams({ access_token: key, language: 'en', limit: '5' });
   if (near) params.set('proximity', `${near.lng},${near.lat}`);
+  if (expect.country) params.set('country', expect.country.toLowerCase());
 
-  const r = await fetch(`${base}?${params.toString()}`);
-  if (!r.ok) return null;
+  const r = await geoFetch(`${base}?${params.toString()}`);
   const j = await r.json().catch(() => null);
   const best = (j?.features || []).find(isPreciseMapbox);
   if (!best) return null;
@@ -415,7 +436,7 @@ async function fromMapbox(q: string, near: Near, expectCity?: string, expectStat
   }
 
   const meta = { city, state, state_code, country_code };
-  if (!acceptHit(meta, expectCity, expectState)) return null;
+  if (!acceptHit(meta, expect)) return null;
 
   const [lng, lat] = best?.center || [];
   return {
@@ -426,16 +447,16 @@ async function fromMapbox(q: string, near: Near, expectCity?: string, expectStat
     meta,
   };
 }
-async function candidatesMapbox(q: string, near: Near): Promise<Candidate[]> {
+async function candidatesMapbox(q: string, near: Near, country?: string): Promise<Candidate[]> {
   const key = process.env.MAPBOX_TOKEN;
   if (!key) return [];
   const enc = encodeURIComponent(q);
   const base = `https://api.mapbox.com/geocoding/v5/mapbox.places/${enc}.json`;
   const params = new URLSearchParams({ access_token: key, language: 'en', limit: '8' });
   if (near) params.set('proximity', `${near.lng},${near.lat}`);
+  if (country) params.set('country', country.toLowerCase());
 
-  const r = await fetch(`${base}?${params.toString()}`);
-  if (!r.ok) return [];
+  const r = await geoFetch(`${base}?${params.toString()}`);
   const j = await r.json().catch(() => null);
 
   return (j?.features || [])
@@ -466,8 +487,9 @@ async function candidatesMapbox(q: string, near: Near): Promise<Candidate[]> {
     });
 }
 
-// Nominatim
-async function fromNominatim(q: string, near: Near, expectCity?: string, expectState?: string): Promise<PreciseHit | null> {
+// Nominatim (approximate: fall back to the top result, e.g. a city, when nothing precise matches;
+// one request either way, since the usage policy allows one per second)
+async function fromNominatim(q: string, near: Near, expect: Expect, approximate = false): Promise<PreciseHit | null> {
   const base = 'https://nominatim.openstreetmap.org/search';
   const params = new URLSearchParams({
     q,
@@ -481,32 +503,33 @@ async function fromNominatim(q: string, near: Near, expectCity?: string, expectS
     params.set('viewbox', `${near.lng - pad},${near.lat + pad},${near.lng + pad},${near.lat - pad}`);
     params.set('bounded', '0');
   }
-  const r = await fetch(`${base}?${params.toString()}`, {
+  if (expect.country) params.set('countrycodes', expect.country.toLowerCase());
+  const r = await geoFetch(`${base}?${params.toString()}`, {
     headers: { 'User-Agent': 'ufo-tracker (contact: owner@example.com)' },
   });
-  if (!r.ok) return null;
   const j: any[] = await r.json().catch(() => []);
-  const best = j.find(isPreciseNominatim);
-  if (!best) return null;
 
-  const addr = best?.address || {};
-  const meta = {
-    city: addr.city || addr.town || addr.village || addr.hamlet || addr.suburb,
-    state: addr.state,
-    state_code: STATE_NAMES_TO_CODE[(addr.state || '').toLowerCase()] || undefined,
-    country_code: (addr.country_code || '').toLowerCase(),
-  };
-  if (!acceptHit(meta, expectCity, expectState)) return null;
-
-  return {
-    provider: 'nominatim',
-    address_text: labelNominatim(best),
-    lat: Number(best?.lat),
-    lng: Number(best?.lon),
-    meta,
+  const pick = (best: NominatimPlace | undefined, approx: boolean): PreciseHit | null => {
+    const addr = best?.address || {};
+    const meta = {
+      city: addr.city || addr.town || addr.village || addr.hamlet || addr.suburb,
+      state: addr.state,
+      state_code: nominatimRegion(addr),
+      country_code: (addr.country_code || '').toLowerCase(),
+    };
+    if (!acceptHit(meta, expect)) return null;
+    return {
+      provider: 'nominatim',
+      address_text: labelNominatim(best),
+      lat: Number(best?.lat),
+      lng: Number(best?.lon),
+      meta: approx ? { ...meta, approximate: true } : meta,
+    };
   };
+  const precise = j.find(isPreciseNominatim);
+  return (precise && pick(precise, false)) || (approximate && j[0] ? pick(j[0], true) : null);
 }
-async function candidatesNominatim(q: string, near: Near): Promise<Candidate[]> {
+async function candidatesNominatim(q: string, near: Near, country?: string): Promise<Candidate[]> {
   const base = 'https://nominatim.openstreetmap.org/search';
   const params = new URLSearchParams({
     q,
@@ -520,10 +543,10 @@ async function candidatesNominatim(q: string, near: Near): Promise<Candidate[]>
     params.set('viewbox', `${near.lng - pad},${near.lat + pad},${near.lng + pad},${near.lat - pad}`);
     params.set('bounded', '0');
   }
-  const r = await fetch(`${base}?${params.toString()}`, {
+  if (country) params.set('countrycodes', country.toLowerCase());
+  const r = await geoFetch(`${base}?${params.toString()}`, {
     headers: { 'User-Agent': 'ufo-tracker (contact: owner@example.com)' },
   });
-  if (!r.ok) return [];
   const j: any[] = await r.json().catch(() => []);
   return j
     .filter((f: any) => isPreciseNominatim(f))
@@ -536,7 +559,7 @@ async function candidatesNominatim(q: string, near: Near): Promise<Candidate[]>
         lng: Number(f?.lon),
         city: addr.city || addr.town || addr.village || addr.hamlet || addr.suburb,
         state: addr.state,
-        state_code: STATE_NAMES_TO_CODE[(addr.state || '').toLowerCase()] || undefined,
+        state_code: nominatimRegion(addr),
         country_code: (addr.country_code || '').toLowerCase(),
       };
     });
@@ -552,11 +575,8 @@ function parseGoogleFormattedAddress(addr?: string | null): {
   let city: string | undefined;
   let state: string | undefined;
   let state_code: string | undefined;
-  let country_code: string | undefined;
+  const country_code = countryCode(parts[parts.length - 1])?.toLowerCase();
 
-  const last = parts[parts.length - 1]?.toLowerCase();
-  if (last?.includes('usa') || last === 'us' || last === 'united states') country_code = 'us';
-  if (last === 'canada') country_code = 'ca';
   // crude parse
   if (parts.length >= 2) {
     const maybeCity = parts[parts.length - 3] || parts[parts.length - 2];
@@ -565,7 +585,7 @@ function parseGoogleFormattedAddress(addr?: string | null): {
     city = maybeCity;
     if (m) {
       state_code = m[1];
-      state = US_STATES[state_code] || state_code;
+      state = COUNTRIES[(country_code || DEFAULT_COUNTRY).toUpperCase()]?.regions[state_code] || state_code;
     }
   }
   return { city, state, state_code, country_code };
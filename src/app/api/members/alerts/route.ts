@@ -0,0 +1,160 @@
+// src/app/api/members/alerts/route.ts
+// The signed-in member's alert areas, quiet hours, digest settings and alert language for one room.
+//   GET    /api/members/alerts?room_id=<uuid>   → { areas, quiet_hours, digest, locale }
+//   POST   /api/members/alerts                  body { room_id, name?, kind: 'radius', center_lat, center_lng, radius_m }
+//                                                 or { room_id, name?, kind: 'polygon', polygon: [[lat, lng], ...] }
+//   DELETE /api/members/alerts?id=<area id>
+//   PATCH  /api/members/alerts                  body { room_id, quiet_hours?: { start: 'HH:MM', end: 'HH:MM', tz } | null,
+//                                                        digest?: { email, sms: 'instant' | 'hourly' | 'daily', hour: 0-23, tz },
+//                                                        locale?: 'en' | 'es' | null }  (null = the room's language)
+// No areas = alerts for the whole room.
+import { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MEMBER_COLUMNS, getAdminClient, getCaller, getMembership, type Caller, type MemberRow } from '@/lib/server/supabase';
+import { ALERT_AREA_COLUMNS, MAX_ALERT_AREAS, quietHoursOf, validateAlertArea, validateQuietHours } from '@/lib/alertAreas';
+import { digestPrefsOf, validateDigestPrefs } from '@/lib/digest';
+import { LOCALES, isLocale } from '@/lib/notifyTemplates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+// Caller's member row in the room, or an error response
+async function memberFor(admin: SupabaseClient, roomId: string, caller: Caller | null) {
+  if (!caller) return { error: j(401, { ok: false, where: 'auth', error: 'Sign in required' }) };
+  const member = await getMembership(admin, roomId, caller);
+  if (!member) return { error: j(403, { ok: false, where: 'auth', error: 'Join the room first' }) };
+  return { member };
+}
+
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const roomId = new URL(req.url).searchParams.get('room_id');
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+
+    const m = await memberFor(admin, roomId, await getCaller(req, admin));
+    if (m.error) return m.error;
+
+    const { data, error } = await admin
+      .from('alert_areas')
+      .select(ALERT_AREA_COLUMNS)
+      .eq('member_id', m.member.id)
+      .order('created_at', { ascending: true });
+    if (error) return j(500, { ok: false, where: 'select alert_areas', error: error.message });
+    return j(200, { ok: true, areas: data || [], quiet_hours: quietHoursOf(m.member), digest: digestPrefsOf(m.member), locale: m.member.locale });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const body = ((await req.json().catch(() => null)) || {}) as Record<string, unknown>;
+    const roomId = typeof body.room_id === 'string' ? body.room_id : '';
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+
+    const m = await memberFor(admin, roomId, await getCaller(req, admin));
+    if (m.error) return m.error;
+
+    const v = validateAlertArea(body);
+    if (!v.ok) return j(400, { ok: false, where: 'validation', errors: v.errors });
+
+    const { count, error: cErr } = await admin
+      .from('alert_areas')
+      .select('id', { count: 'exact', head: true })
+      .eq('member_id', m.member.id);
+    if (cErr) return j(500, { ok: false, where: 'count alert_areas', error: cErr.message });
+    if ((count ?? 0) >= MAX_ALERT_AREAS) return j(409, { ok: false, error: `You can have at most ${MAX_ALERT_AREAS} alert areas per room` });
+
+    const { data, error } = await admin
+      .from('alert_areas')
+      .insert({ ...v.value, member_id: m.member.id, room_id: roomId })
+      .select(ALERT_AREA_COLUMNS)
+      .single();
+    if (error) return j(500, { ok: false, where: 'insert alert_areas', error: error.message });
+    return j(201, { ok: true, area: data });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) return j(400, { ok: false, where: 'validation', error: 'id is required' });
+
+    const { data: area, error: aErr } = await admin.from('alert_areas').select('id, member_id, room_id').eq('id', id).maybeSingle();
+    if (aErr) return j(500, { ok: false, where: 'select alert_areas', error: aErr.message });
+    if (!area) return j(404, { ok: false, error: 'Alert area not found' });
+
+    const m = await memberFor(admin, area.room_id, await getCaller(req, admin));
+    if (m.error) return m.error;
+    if (m.member.id !== area.member_id) return j(403, { ok: false, where: 'auth', error: 'Not your alert area' });
+
+    const { error } = await admin.from('alert_areas').delete().eq('id', id);
+    if (error) return j(500, { ok: false, where: 'delete alert_areas', error: error.message });
+    return j(200, { ok: true, deleted: id });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const body = ((await req.json().catch(() => null)) || {}) as { room_id?: unknown; quiet_hours?: unknown; digest?: unknown; locale?: unknown };
+    const roomId = typeof body.room_id === 'string' ? body.room_id : '';
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+    if (!('quiet_hours' in body) && !('digest' in body) && !('locale' in body)) return j(400, { ok: false, where: 'validation', error: 'Nothing to update' });
+
+    const m = await memberFor(admin, roomId, await getCaller(req, admin));
+    if (m.error) return m.error;
+
+    const patch: Record<string, unknown> = {};
+    if ('quiet_hours' in body) {
+      const v = validateQuietHours(body.quiet_hours);
+      if (!v.ok) return j(400, { ok: false, where: 'validation', errors: v.errors });
+      const q = v.value;
+      Object.assign(patch, { quiet_start: q?.start ?? null, quiet_end: q?.end ?? null, quiet_tz: q?.tz ?? null });
+    }
+    if ('digest' in body) {
+      const v = validateDigestPrefs(body.digest);
+      if (!v.ok) return j(400, { ok: false, where: 'validation', errors: v.errors });
+      const d = v.value;
+      Object.assign(patch, { email_digest: d.email, sms_digest: d.sms, digest_hour: d.hour, digest_tz: d.tz });
+    }
+    if ('locale' in body) {
+      if (body.locale !== null && !isLocale(body.locale)) return j(400, { ok: false, where: 'validation', errors: [`locale must be one of ${LOCALES.join(', ')}, or null`] });
+      patch.locale = body.locale;
+    }
+
+    const { data, error } = await admin
+      .from('members')
+      .update(patch)
+      .eq('id', m.member.id)
+      .select(MEMBER_COLUMNS)
+      .single();
+    if (error) return j(500, { ok: false, where: 'update members', error: error.message });
+    const updated = data as MemberRow;
+    return j(200, { ok: true, quiet_hours: quietHoursOf(updated), digest: digestPrefsOf(updated), locale: updated.locale });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
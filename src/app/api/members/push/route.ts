@@ -0,0 +1,104 @@
+// src/app/api/members/push/route.ts
+// Web Push subscriptions for the signed-in member.
+//   GET    /api/members/push?room_id=<uuid>&endpoint=<url>  → { public_key, subscribed }
+//   POST   /api/members/push   body { room_id, subscription: PushSubscriptionJSON }
+//   DELETE /api/members/push   body { room_id, endpoint }
+import { NextRequest } from 'next/server';
+import { getAdminClient, getCaller, getMembership } from '@/lib/server/supabase';
+import { pushEnv } from '@/lib/server/push';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const { VAPID_PUBLIC_KEY, pushConfigured } = pushEnv();
+    const url = new URL(req.url);
+    const roomId = url.searchParams.get('room_id');
+    const endpoint = url.searchParams.get('endpoint');
+
+    let subscribed = false;
+    const caller = await getCaller(req, admin);
+    const member = roomId ? await getMembership(admin, roomId, caller) : null;
+    if (member && endpoint) {
+      const { count } = await admin
+        .from('push_subscriptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('member_id', member.id)
+        .eq('endpoint', endpoint);
+      subscribed = (count ?? 0) > 0;
+    }
+    return j(200, { ok: true, configured: pushConfigured, public_key: pushConfigured ? VAPID_PUBLIC_KEY : null, subscribed });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const caller = await getCaller(req, admin);
+    if (!caller) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+
+    const body = ((await req.json().catch(() => null)) || {}) as { room_id?: unknown; subscription?: unknown };
+    const roomId = typeof body.room_id === 'string' ? body.room_id : '';
+    // PushSubscription.toJSON(): { endpoint, keys: { p256dh, auth } }
+    const sub = (body.subscription && typeof body.subscription === 'object' ? body.subscription : {}) as { endpoint?: unknown; keys?: unknown };
+    const keys = (sub.keys && typeof sub.keys === 'object' ? sub.keys : {}) as { p256dh?: unknown; auth?: unknown };
+    const endpoint = typeof sub.endpoint === 'string' ? sub.endpoint : '';
+    const p256dh = typeof keys.p256dh === 'string' ? keys.p256dh : '';
+    const auth = typeof keys.auth === 'string' ? keys.auth : '';
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+    if (!/^https:\/\//.test(endpoint) || !p256dh || !auth) {
+      return j(400, { ok: false, where: 'validation', error: 'subscription must include an https endpoint and p256dh/auth keys' });
+    }
+
+    const member = await getMembership(admin, roomId, caller);
+    if (!member) return j(403, { ok: false, where: 'auth', error: 'Join the room first' });
+
+    const { error } = await admin.from('push_subscriptions').upsert(
+      { member_id: member.id, room_id: roomId, endpoint, p256dh, auth, user_agent: req.headers.get('user-agent')?.slice(0, 300) || null },
+      { onConflict: 'member_id,endpoint' },
+    );
+    if (error) return j(500, { ok: false, where: 'upsert push_subscriptions', error: error.message });
+    return j(200, { ok: true, subscribed: true });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const caller = await getCaller(req, admin);
+    if (!caller) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+
+    const body = ((await req.json().catch(() => null)) || {}) as { room_id?: unknown; endpoint?: unknown };
+    const roomId = typeof body.room_id === 'string' ? body.room_id : '';
+    const endpoint = typeof body.endpoint === 'string' ? body.endpoint : '';
+    if (!roomId || !endpoint) return j(400, { ok: false, where: 'validation', error: 'room_id and endpoint are required' });
+
+    const member = await getMembership(admin, roomId, caller);
+    if (!member) return j(200, { ok: true, subscribed: false });
+
+    const { error } = await admin.from('push_subscriptions').delete().eq('member_id', member.id).eq('endpoint', endpoint);
+    if (error) return j(500, { ok: false, where: 'delete push_subscriptions', error: error.message });
+    return j(200, { ok: true, subscribed: false });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,61 @@
+// src/app/api/members/verify/confirm/route.ts
+// POST /api/members/verify/confirm  { room_id, code }  — checks an SMS code (signed in)
+// GET  /api/members/verify/confirm?token=…             — email confirm link; redirects back to the app
+import { NextRequest } from 'next/server';
+import { getAdminClient, getCaller, getMembership } from '@/lib/server/supabase';
+import { confirmEmailToken, confirmSmsCode } from '@/lib/server/verification';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const caller = await getCaller(req, admin);
+    if (!caller?.email) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+
+    const body = ((await req.json().catch(() => null)) || {}) as { room_id?: unknown; code?: unknown };
+    const roomId = typeof body.room_id === 'string' ? body.room_id : '';
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    if (!roomId || !/^\d{6}$/.test(code)) return j(400, { ok: false, where: 'validation', error: 'room_id and a 6-digit code are required' });
+
+    const member = await getMembership(admin, roomId, caller);
+    if (!member) return j(403, { ok: false, where: 'auth', error: 'Join the room first' });
+
+    const r = await confirmSmsCode(admin, member, code);
+    if (!r.ok) return j(r.status, { ok: false, where: 'verify', error: r.error });
+    return j(200, { ok: true, phone: r.value.phone_e164, phone_verified: true });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const url = new URL(req.url);
+  const back = new URL('/', process.env.NEXT_PUBLIC_SITE_URL || url.origin);
+  const admin = getAdminClient();
+  const token = url.searchParams.get('token') || '';
+
+  try {
+    if (!admin) throw new Error('Server is missing its Supabase configuration');
+    const r = token ? await confirmEmailToken(admin, token) : { ok: false as const, status: 400, error: 'Missing token' };
+    if (r.ok) {
+      back.searchParams.set('room', r.value.room_id);
+      back.searchParams.set('verified', 'email');
+    } else {
+      back.searchParams.set('verify_error', r.error);
+    }
+  } catch (e) {
+    back.searchParams.set('verify_error', (e as Error)?.message || String(e));
+  }
+  return Response.redirect(back.toString(), 303);
+}
@@ -0,0 +1,59 @@
+// src/app/api/members/verify/route.ts
+// POST /api/members/verify  { room_id, channel: 'sms', phone_e164 } — texts a one-time code
+// POST /api/members/verify  { room_id, channel: 'email' }            — emails a confirm link
+// The caller must already have a member row in the room (see /api/members/join).
+// Confirm with /api/members/verify/confirm.
+import { NextRequest } from 'next/server';
+import { getAdminClient, getCaller, getMembership } from '@/lib/server/supabase';
+import { sendEmailLink, sendSmsCode } from '@/lib/server/verification';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const caller = await getCaller(req, admin);
+    if (!caller?.email) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+
+    const body = ((await req.json().catch(() => null)) || {}) as { room_id?: unknown; channel?: unknown; phone_e164?: unknown };
+    const roomId = typeof body.room_id === 'string' ? body.room_id : '';
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+    if (body.channel !== 'sms' && body.channel !== 'email') return j(400, { ok: false, where: 'validation', error: "channel must be 'sms' or 'email'" });
+
+    const member = await getMembership(admin, roomId, caller);
+    if (!member) return j(403, { ok: false, where: 'auth', error: 'Join the room first' });
+
+    if (body.channel === 'sms') {
+      const phone = typeof body.phone_e164 === 'string' ? body.phone_e164.trim() : '';
+      if (!/^\+[1-9]\d{6,14}$/.test(phone)) {
+        return j(400, { ok: false, where: 'validation', error: 'phone_e164 must be in E.164 format, e.g. +15551234567' });
+      }
+      const r = await sendSmsCode(admin, member, phone);
+      if (!r.ok) return j(r.status, { ok: false, where: 'verify', error: r.error });
+      return j(200, { ok: true, sent: 'sms' });
+    }
+
+    if (member.email_verified_at) return j(200, { ok: true, verified: true });
+    // Signed in with an address Supabase Auth already confirmed: no second link needed
+    if (caller.email_verified && member.email === caller.email) {
+      const { error } = await admin.from('members').update({ email_verified_at: new Date().toISOString() }).eq('id', member.id);
+      if (error) return j(500, { ok: false, where: 'update members', error: error.message });
+      return j(200, { ok: true, verified: true });
+    }
+    const r = await sendEmailLink(admin, member, process.env.NEXT_PUBLIC_SITE_URL || new URL(req.url).origin);
+    if (!r.ok) return j(r.status, { ok: false, where: 'verify', error: r.error });
+    return j(200, { ok: true, sent: 'email' });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
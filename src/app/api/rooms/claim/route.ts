@@ -0,0 +1,76 @@
+// src/app/api/rooms/claim/route.ts
+// POST /api/rooms/claim  { room_id, admin_code } — whoever holds the room's admin code
+// (shown to the creator) becomes an admin. The room's owner_email becomes owner instead.
+import { timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { emailVerifiedAt, getAdminClient, getCaller, getMembership } from '@/lib/server/supabase';
+import { atLeast } from '@/lib/roles';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Admin codes are 6 digits: cap wrong guesses per user (per server instance)
+const MAX_FAILURES = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const failures = new Map<string, { count: number; until: number }>();
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function sameCode(a: string, b: string) {
+  const x = Buffer.from(a), y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const caller = await getCaller(req, admin);
+    if (!caller?.email) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+
+    const f = failures.get(caller.id);
+    if (f && f.count >= MAX_FAILURES && f.until > Date.now()) {
+      return new Response(JSON.stringify({ ok: false, error: 'Too many attempts — try again later' }), {
+        status: 429,
+        headers: { 'content-type': 'application/json', 'retry-after': String(Math.ceil((f.until - Date.now()) / 1000)) },
+      });
+    }
+
+    const body = ((await req.json().catch(() => null)) || {}) as { room_id?: unknown; admin_code?: unknown };
+    const roomId = typeof body.room_id === 'string' ? body.room_id : '';
+    const code = typeof body.admin_code === 'string' ? body.admin_code.trim() : '';
+    if (!roomId || !code) return j(400, { ok: false, where: 'validation', error: 'room_id and admin_code are required' });
+
+    const { data: room, error: rErr } = await admin.from('rooms').select('id, admin_code, owner_email').eq('id', roomId).maybeSingle();
+    if (rErr) return j(500, { ok: false, where: 'select rooms', error: rErr.message });
+    if (!room || !room.admin_code || !sameCode(String(room.admin_code), code)) {
+      const prev = f && f.until > Date.now() ? f.count : 0;
+      failures.set(caller.id, { count: prev + 1, until: Date.now() + LOCKOUT_MS });
+      return j(403, { ok: false, where: 'auth', error: 'Wrong admin code' });
+    }
+    failures.delete(caller.id);
+
+    const role = (room.owner_email || '').toLowerCase() === caller.email ? 'owner' : 'admin';
+    const member = await getMembership(admin, roomId, caller);
+    if (member && atLeast(member.role, role) && member.approved) return j(200, { ok: true, role: member.role });
+
+    // Holding the code is the approval, so the claimant is recorded as the approver
+    const decided = { at: new Date().toISOString(), by: caller.email };
+    const { error } = member
+      ? await admin.from('members').update({ role, approved: true, decided_at: decided.at, decided_by: decided.by }).eq('id', member.id)
+      : await admin.from('members').insert({
+          room_id: roomId, email: caller.email, approved: true, email_enabled: true, sms_enabled: false, role,
+          decided_at: decided.at, decided_by: decided.by, email_verified_at: emailVerifiedAt(caller),
+        });
+    if (error) return j(500, { ok: false, where: member ? 'update members' : 'insert members', error: error.message });
+    return j(200, { ok: true, role });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,145 @@
+// src/app/api/rooms/members/route.ts
+// Room roster for owners/admins.
+//   GET    /api/rooms/members?room_id=<uuid>
+//   PATCH  /api/rooms/members?id=<member id>   body { role?, approved? }  (approved: false on a pending row = deny)
+//   DELETE /api/rooms/members?id=<member id>
+// Admins manage members and viewers; only owners can grant or take away admin/owner.
+// A room always keeps at least one owner. Approve/deny/suspend stamps decided_at + decided_by.
+import { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MEMBER_COLUMNS, getAdminClient, getCaller, getMembership, roleOf, type Caller, type MemberRow } from '@/lib/server/supabase';
+import { atLeast, isRole, type Role } from '@/lib/roles';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+async function findMember(admin: SupabaseClient, id: string) {
+  const { data, error } = await admin.from('members').select(MEMBER_COLUMNS).eq('id', id).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as MemberRow | null) ?? null;
+}
+
+// Caller's role in the target's room, or an error response
+async function actorRole(admin: SupabaseClient, roomId: string, caller: Caller | null) {
+  if (!caller) return { error: j(401, { ok: false, where: 'auth', error: 'Sign in required' }) };
+  const role = roleOf(await getMembership(admin, roomId, caller));
+  if (!atLeast(role, 'admin')) return { error: j(403, { ok: false, where: 'auth', error: 'Only room admins can manage members' }) };
+  return { role: role as Role, caller };
+}
+
+async function ownerCount(admin: SupabaseClient, roomId: string) {
+  const { count, error } = await admin
+    .from('members')
+    .select('id', { count: 'exact', head: true })
+    .eq('room_id', roomId)
+    .eq('role', 'owner')
+    .eq('approved', true);
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
+
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const roomId = new URL(req.url).searchParams.get('room_id');
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+
+    const actor = await actorRole(admin, roomId, await getCaller(req, admin));
+    if (actor.error) return actor.error;
+
+    const { data, error } = await admin
+      .from('members')
+      .select(MEMBER_COLUMNS)
+      .eq('room_id', roomId)
+      .order('approved', { ascending: true })
+      .order('requested_at', { ascending: true })
+      .order('email', { ascending: true });
+    if (error) return j(500, { ok: false, where: 'select members', error: error.message });
+    return j(200, { ok: true, members: data || [] });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) return j(400, { ok: false, where: 'validation', error: 'id is required' });
+
+    const target = await findMember(admin, id);
+    if (!target) return j(404, { ok: false, error: 'Member not found' });
+
+    const actor = await actorRole(admin, target.room_id, await getCaller(req, admin));
+    if (actor.error) return actor.error;
+
+    const body = ((await req.json().catch(() => null)) || {}) as { role?: unknown; approved?: unknown };
+    const patch: Partial<Pick<MemberRow, 'role' | 'approved' | 'decided_at' | 'decided_by'>> = {};
+    if (body.role !== undefined) {
+      if (!isRole(body.role)) return j(400, { ok: false, where: 'validation', error: 'role must be owner, admin, member or viewer' });
+      patch.role = body.role;
+    }
+    if (body.approved !== undefined) {
+      if (typeof body.approved !== 'boolean') return j(400, { ok: false, where: 'validation', error: 'approved must be a boolean' });
+      patch.approved = body.approved;
+      patch.decided_at = new Date().toISOString();
+      patch.decided_by = actor.caller.email;
+    }
+    if (!Object.keys(patch).length) return j(400, { ok: false, where: 'validation', error: 'Nothing to update' });
+
+    // Admin-level changes (either side of the change) are for owners only
+    const touchesAdmin = atLeast(target.role, 'admin') || (patch.role && atLeast(patch.role, 'admin'));
+    if (touchesAdmin && actor.role !== 'owner') {
+      return j(403, { ok: false, where: 'auth', error: 'Only the room owner can change admins' });
+    }
+    const losesOwner = target.role === 'owner' && target.approved && (patch.role && patch.role !== 'owner' || patch.approved === false);
+    if (losesOwner && (await ownerCount(admin, target.room_id)) <= 1) {
+      return j(409, { ok: false, error: 'A room needs at least one owner — promote someone else first' });
+    }
+
+    const { data, error } = await admin.from('members').update(patch).eq('id', id).select(MEMBER_COLUMNS).single();
+    if (error) return j(500, { ok: false, where: 'update members', error: error.message });
+    return j(200, { ok: true, member: data });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) return j(400, { ok: false, where: 'validation', error: 'id is required' });
+
+    const target = await findMember(admin, id);
+    if (!target) return j(404, { ok: false, error: 'Member not found' });
+
+    const actor = await actorRole(admin, target.room_id, await getCaller(req, admin));
+    if (actor.error) return actor.error;
+    if (atLeast(target.role, 'admin') && actor.role !== 'owner') {
+      return j(403, { ok: false, where: 'auth', error: 'Only the room owner can remove admins' });
+    }
+    if (target.role === 'owner' && target.approved && (await ownerCount(admin, target.room_id)) <= 1) {
+      return j(409, { ok: false, error: 'A room needs at least one owner' });
+    }
+
+    const { error } = await admin.from('members').delete().eq('id', id);
+    if (error) return j(500, { ok: false, where: 'delete members', error: error.message });
+    return j(200, { ok: true, deleted: id });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
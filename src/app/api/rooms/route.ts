@@ -0,0 +1,131 @@
+// src/app/api/rooms/route.ts
+// Rooms are created and configured here (browsers can only read them; see the room_roles migration).
+//   GET   /api/rooms?id=<uuid>   — settings + the caller's role, membership status and alert contacts
+//   POST  /api/rooms             — create; caller becomes owner; admin_code is returned once
+//   PATCH /api/rooms?id=<uuid>   — update settings (owner/admin); alert wording is /api/rooms/templates
+import { randomInt } from 'crypto';
+import { NextRequest } from 'next/server';
+import { emailVerifiedAt, getAdminClient, getCaller, getMembership, getRoomSettings, membershipStatus, roleOf } from '@/lib/server/supabase';
+import { EDIT_POLICIES, JOIN_MODES, ROOM_SETTINGS_COLUMNS, atLeast, type EditPolicy, type JoinMode } from '@/lib/roles';
+import { isValidTimeZone } from '@/lib/sightingExport';
+import { LOCALES, isLocale } from '@/lib/notifyTemplates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function shortCode(name: string) {
+  return (name || 'room').toLowerCase().replace(/[^a-z0-9]+/g, '').slice(0, 10) + '-' + Math.random().toString(36).slice(2, 6);
+}
+
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) return j(400, { ok: false, where: 'validation', error: 'id is required' });
+
+    const room = await getRoomSettings(admin, id);
+    if (!room) return j(404, { ok: false, error: 'Room not found' });
+
+    const caller = await getCaller(req, admin);
+    const member = await getMembership(admin, id, caller);
+    const contacts = member && {
+      email: member.email, email_verified: !!member.email_verified_at, email_enabled: member.email_enabled ?? true,
+      phone: member.phone_e164, phone_verified: !!member.phone_verified_at, sms_enabled: !!member.sms_enabled,
+    };
+    return j(200, { ok: true, room, role: roleOf(member), status: membershipStatus(member), contacts });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const caller = await getCaller(req, admin);
+    if (!caller?.email) return j(401, { ok: false, where: 'auth', error: 'Sign in to create a room' });
+
+    const body = ((await req.json().catch(() => null)) || {}) as { name?: unknown; timezone?: unknown };
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, 120) : '';
+    const timezone = typeof body.timezone === 'string' && isValidTimeZone(body.timezone) ? body.timezone : null;
+    const admin_code = String(randomInt(100000, 1000000)); // 6 digits
+
+    const { data: room, error } = await admin
+      .from('rooms')
+      .insert({ name: name || null, owner_email: caller.email, short_code: shortCode(name), admin_code, timezone })
+      .select(ROOM_SETTINGS_COLUMNS)
+      .single();
+    if (error) return j(500, { ok: false, where: 'insert rooms', error: error.message });
+
+    const { error: mErr } = await admin.from('members').insert({
+      room_id: (room as { id: string }).id, email: caller.email, approved: true, email_enabled: true, sms_enabled: false, role: 'owner',
+      decided_at: new Date().toISOString(), email_verified_at: emailVerifiedAt(caller),
+    });
+    if (mErr) return j(500, { ok: false, where: 'insert members', error: mErr.message });
+
+    return j(201, { ok: true, room, role: 'owner', admin_code });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) return j(400, { ok: false, where: 'validation', error: 'id is required' });
+
+    const caller = await getCaller(req, admin);
+    if (!caller) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+    const member = await getMembership(admin, id, caller);
+    if (!atLeast(roleOf(member), 'admin')) return j(403, { ok: false, where: 'auth', error: 'Only room admins can change settings' });
+
+    const body = ((await req.json().catch(() => null)) || {}) as Record<string, unknown>;
+    const patch: Record<string, unknown> = {};
+    const errors: string[] = [];
+    if ('name' in body) {
+      if (typeof body.name !== 'string') errors.push('name must be a string');
+      else patch.name = body.name.trim().slice(0, 120) || null;
+    }
+    if ('require_auth' in body) {
+      if (typeof body.require_auth !== 'boolean') errors.push('require_auth must be a boolean');
+      else patch.require_auth = body.require_auth;
+    }
+    if ('edit_policy' in body) {
+      if (!EDIT_POLICIES.includes(body.edit_policy as EditPolicy)) errors.push(`edit_policy must be one of ${EDIT_POLICIES.join(', ')}`);
+      else patch.edit_policy = body.edit_policy;
+    }
+    if ('join_mode' in body) {
+      if (!JOIN_MODES.includes(body.join_mode as JoinMode)) errors.push(`join_mode must be one of ${JOIN_MODES.join(', ')}`);
+      else patch.join_mode = body.join_mode;
+    }
+    if ('timezone' in body) {
+      if (body.timezone !== null && (typeof body.timezone !== 'string' || !isValidTimeZone(body.timezone))) errors.push('timezone must be an IANA timezone');
+      else patch.timezone = body.timezone;
+    }
+    if ('locale' in body) {
+      if (!isLocale(body.locale)) errors.push(`locale must be one of ${LOCALES.join(', ')}`);
+      else patch.locale = body.locale;
+    }
+    if (errors.length) return j(400, { ok: false, where: 'validation', errors });
+    if (!Object.keys(patch).length) return j(400, { ok: false, where: 'validation', error: 'Nothing to update' });
+
+    const { data: room, error } = await admin.from('rooms').update(patch).eq('id', id).select(ROOM_SETTINGS_COLUMNS).single();
+    if (error) return j(500, { ok: false, where: 'update rooms', error: error.message });
+    return j(200, { ok: true, room });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
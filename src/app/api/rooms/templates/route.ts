@@ -0,0 +1,81 @@
+// src/app/api/rooms/templates/route.ts
+// Per-room alert wording for owners/admins (see lib/notifyTemplates.ts).
+//   GET /api/rooms/templates?room_id=<uuid>  — { templates, defaults, locale }
+//   PUT /api/rooms/templates?room_id=<uuid>  body { templates: { en?: {subject?, body?, short?}, es?: … } }
+// PUT replaces the room's overrides; an empty or missing part falls back to the default.
+import { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAdminClient, getCaller, getMembership, roleOf } from '@/lib/server/supabase';
+import { atLeast } from '@/lib/roles';
+import { LOCALES, defaultTemplate, validateTemplates, type Locale, type NotifyTemplate } from '@/lib/notifyTemplates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+// Error response unless the caller is an owner/admin of the room
+async function requireAdmin(admin: SupabaseClient, req: NextRequest, roomId: string) {
+  const caller = await getCaller(req, admin);
+  if (!caller) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+  if (!atLeast(roleOf(await getMembership(admin, roomId, caller)), 'admin')) {
+    return j(403, { ok: false, where: 'auth', error: 'Only room admins can change alert templates' });
+  }
+  return null;
+}
+
+function defaults() {
+  return Object.fromEntries(LOCALES.map((l) => [l, defaultTemplate(l)])) as Record<Locale, NotifyTemplate>;
+}
+
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const roomId = new URL(req.url).searchParams.get('room_id');
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+    const denied = await requireAdmin(admin, req, roomId);
+    if (denied) return denied;
+
+    const { data, error } = await admin.from('rooms').select('locale, notify_templates').eq('id', roomId).maybeSingle();
+    if (error) return j(500, { ok: false, where: 'select rooms', error: error.message });
+    if (!data) return j(404, { ok: false, where: 'lookup', error: 'Room not found' });
+    return j(200, { ok: true, templates: data.notify_templates || {}, defaults: defaults(), locale: data.locale });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const roomId = new URL(req.url).searchParams.get('room_id');
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+    const denied = await requireAdmin(admin, req, roomId);
+    if (denied) return denied;
+
+    const body = ((await req.json().catch(() => null)) || {}) as { templates?: unknown };
+    const v = validateTemplates(body.templates ?? {});
+    if (!v.ok) return j(400, { ok: false, where: 'validation', errors: v.errors });
+
+    const { data, error } = await admin
+      .from('rooms')
+      .update({ notify_templates: v.value })
+      .eq('id', roomId)
+      .select('notify_templates')
+      .maybeSingle();
+    if (error) return j(500, { ok: false, where: 'update rooms', error: error.message });
+    if (!data) return j(404, { ok: false, where: 'lookup', error: 'Room not found' });
+    return j(200, { ok: true, templates: data.notify_templates || {}, defaults: defaults() });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,39 @@
+// src/app/api/sightings/count/route.ts
+// Total matching sightings for a room, so the UI can say "showing 200 of 12,431".
+// Accepts the same room_id / bbox / filter params as GET /api/sightings.
+import { NextRequest } from 'next/server';
+import { getAdminClient, getCaller, readDenied } from '@/lib/server/supabase';
+import { parseApiFilters } from '@/lib/sightingFilters';
+import { countSightings, parseBBox } from '@/lib/server/sightingQuery';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const url = new URL(req.url);
+    const roomId = url.searchParams.get('room_id');
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+    const denied = await readDenied(admin, roomId, await getCaller(req, admin));
+    if (denied) return j(denied.status, denied.body);
+
+    const rawBBox = url.searchParams.get('bbox');
+    const bbox = parseBBox(rawBBox);
+    if (rawBBox && !bbox) return j(400, { ok: false, where: 'validation', error: 'bbox must be west,south,east,north' });
+
+    const count = await countSightings(admin, roomId, parseApiFilters(url.searchParams), bbox);
+    return j(200, { ok: true, count });
+  } catch (e) {
+    return j(500, { ok: false, where: 'count sightings', error: (e as Error)?.message || String(e) });
+  }
+}
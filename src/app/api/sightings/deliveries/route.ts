@@ -0,0 +1,92 @@
+// src/app/api/sightings/deliveries/route.ts
+// Delivery log for one sighting's alerts (room owners/admins only).
+//   GET  /api/sightings/deliveries?sighting_id=<uuid>  — outbox rows + per-status counts
+//   POST /api/sightings/deliveries?sighting_id=<uuid>  — retry the failed rows now
+import { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAdminClient, getCaller, getMembership, roleOf, type Caller } from '@/lib/server/supabase';
+import { atLeast } from '@/lib/roles';
+import { OUTBOX_LOG_COLUMNS, processOutbox, type OutboxRow, type OutboxStatus } from '@/lib/server/outbox';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+// The sighting's room must be one the caller administers; returns an error response or null
+async function checkAdmin(admin: SupabaseClient, sightingId: string, caller: Caller | null) {
+  if (!caller) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+  const { data, error } = await admin.from('sightings').select('room_id').eq('id', sightingId).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return j(404, { ok: false, error: 'Sighting not found' });
+  if (!atLeast(roleOf(await getMembership(admin, data.room_id, caller)), 'admin')) {
+    return j(403, { ok: false, where: 'auth', error: 'Only room admins can see delivery logs' });
+  }
+  return null;
+}
+
+// Push endpoints are long capability URLs; the push service's host is enough to show
+function displayTarget(row: Pick<OutboxRow, 'channel' | 'target'>) {
+  if (row.channel !== 'push') return row.target;
+  try { return new URL(row.target).host; } catch { return 'browser'; }
+}
+
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const sightingId = new URL(req.url).searchParams.get('sighting_id');
+    if (!sightingId) return j(400, { ok: false, where: 'validation', error: 'sighting_id is required' });
+
+    const denied = await checkAdmin(admin, sightingId, await getCaller(req, admin));
+    if (denied) return denied;
+
+    const { data, error } = await admin
+      .from('notification_outbox')
+      .select(OUTBOX_LOG_COLUMNS)
+      .eq('sighting_id', sightingId)
+      .order('created_at', { ascending: true });
+    if (error) return j(500, { ok: false, where: 'select notification_outbox', error: error.message });
+
+    const deliveries = ((data || []) as Array<Omit<OutboxRow, 'message' | 'room_id' | 'push_subscription_id'>>)
+      .map((r) => ({ ...r, target: displayTarget(r) }));
+    const summary: Record<OutboxStatus, number> = { pending: 0, sending: 0, sent: 0, delivered: 0, failed: 0 };
+    for (const r of deliveries) summary[r.status]++;
+    return j(200, { ok: true, deliveries, summary });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const sightingId = new URL(req.url).searchParams.get('sighting_id');
+    if (!sightingId) return j(400, { ok: false, where: 'validation', error: 'sighting_id is required' });
+
+    const denied = await checkAdmin(admin, sightingId, await getCaller(req, admin));
+    if (denied) return denied;
+
+    // Start the failed rows over with a fresh attempt budget
+    const { data, error } = await admin
+      .from('notification_outbox')
+      .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('sighting_id', sightingId)
+      .eq('status', 'failed')
+      .select('id');
+    if (error) return j(500, { ok: false, where: 'update notification_outbox', error: error.message });
+
+    const result = await processOutbox(admin, { ids: (data || []).map((r: { id: string }) => r.id) });
+    return j(200, { ok: true, ...result });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,82 @@
+// src/app/api/sightings/export/route.ts
+// GET /api/sightings/export?room_id=<uuid>&format=csv|geojson|kml[&tz=<IANA>][&sort=]
+//   + the same filter params as GET /api/sightings (see filtersToApiParams)
+// Streams back an attachment with every matching row. Timestamps are written in UTC and
+// in `tz` (default: the room's timezone, else UTC). Rooms that require sign-in export to
+// approved members only, so the app fetches it with its bearer token rather than a plain link.
+import { NextRequest } from 'next/server';
+import { getAdminClient, getCaller, readDenied } from '@/lib/server/supabase';
+import { decodeCursor, pageSightings, type Cursor } from '@/lib/server/sightingQuery';
+import type { Sighting } from '@/lib/sighting';
+import { EMPTY_FILTERS, applyFilters, parseApiFilters, parseFilters } from '@/lib/sightingFilters';
+import { EXPORT_FORMATS, exportSightings, isExportFormat, isValidTimeZone } from '@/lib/sightingExport';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Hard cap so one request can't walk an unbounded table
+const MAX_EXPORT_ROWS = 50000;
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function slug(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'room';
+}
+
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const url = new URL(req.url);
+    const roomId = url.searchParams.get('room_id');
+    const format = url.searchParams.get('format') || 'csv';
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id is required' });
+    if (!isExportFormat(format)) return j(400, { ok: false, where: 'validation', error: 'format must be csv, geojson or kml' });
+
+    const { data: room, error: rErr } = await admin.from('rooms').select('id, name, timezone').eq('id', roomId).maybeSingle();
+    if (rErr) return j(500, { ok: false, where: 'select rooms', error: rErr.message });
+    if (!room) return j(404, { ok: false, error: 'Room not found' });
+    const denied = await readDenied(admin, roomId, await getCaller(req, admin));
+    if (denied) return j(denied.status, denied.body);
+
+    const tz = url.searchParams.get('tz') || room.timezone || 'UTC';
+    if (!isValidTimeZone(tz)) return j(400, { ok: false, where: 'validation', error: `Unknown timezone: ${tz}` });
+
+    const filters = parseApiFilters(url.searchParams);
+    const rows: Sighting[] = [];
+    let cursor: Cursor | null = null;
+    do {
+      const page = await pageSightings(admin, roomId, { filters, cursor, limit: 1000 });
+      rows.push(...(page.rows as Sighting[]));
+      cursor = decodeCursor(page.next_cursor);
+    } while (cursor && rows.length < MAX_EXPORT_ROWS);
+    const truncated = !!cursor;
+
+    // Same order the list shows (city/state/reporter sorts are applied here, not in SQL)
+    const { sort } = parseFilters(url.searchParams);
+    const ordered = sort === 'newest' || sort === 'oldest' ? rows : applyFilters(rows, { ...EMPTY_FILTERS, sort });
+
+    const spec = EXPORT_FORMATS[format];
+    const body = exportSightings(format, ordered, { timeZone: tz, roomId, roomName: room.name });
+    const filename = `sightings-${slug(room.name || roomId)}-${new Date().toISOString().slice(0, 10)}.${spec.ext}`;
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'content-type': spec.mime,
+        'content-disposition': `attachment; filename="${filename}"`,
+        'cache-control': 'no-store',
+        'x-export-rows': String(ordered.length),
+        'x-export-truncated': truncated ? '1' : '0',
+      },
+    });
+  } catch (e) {
+    return j(500, { ok: false, where: 'export', error: (e as Error)?.message || String(e) });
+  }
+}
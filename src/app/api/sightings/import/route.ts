@@ -0,0 +1,83 @@
+// src/app/api/sightings/import/route.ts
+// POST /api/sightings/import — one batch of a bulk import.
+// Body: { room_id, rows: [{ line, ...SightingInput }] }  (at most MAX_BATCH rows)
+// Each row is validated on its own; bad rows come back in `errors` with their line
+// number instead of failing the batch. Rows are keyed by a hash of their content
+// (import_key), so re-sending a row that already exists is counted as a duplicate.
+// Imports don't send notifications.
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { getAdminClient, getCaller, getMembership, roleOf } from '@/lib/server/supabase';
+import { atLeast } from '@/lib/roles';
+import { validateSighting, type SightingInput } from '@/lib/sighting';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_BATCH = 500;
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function importKey(s: Partial<SightingInput>) {
+  const norm = (v?: string | null) => (v || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return createHash('sha256')
+    // Country only when not the US, so rows imported before it existed keep their keys
+    .update([s.reported_at, norm(s.summary), norm(s.city), norm(s.state), ...(s.country && s.country !== 'US' ? [s.country] : [])].join('|'))
+    .digest('hex');
+}
+
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const caller = await getCaller(req, admin);
+    if (!caller) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+
+    const body = (await req.json().catch(() => null)) as { room_id?: string; rows?: unknown[] } | null;
+    const roomId = body?.room_id;
+    const rows = Array.isArray(body?.rows) ? body!.rows : null;
+    if (!roomId || !rows) return j(400, { ok: false, where: 'validation', error: 'room_id and rows[] are required' });
+    if (rows.length > MAX_BATCH) return j(413, { ok: false, where: 'validation', error: `At most ${MAX_BATCH} rows per batch` });
+
+    const member = await getMembership(admin, roomId, caller);
+    if (!atLeast(roleOf(member), 'member')) return j(403, { ok: false, where: 'auth', error: 'Only room members can import' });
+
+    const errors: Array<{ line: number; errors: string[] }> = [];
+    const byKey = new Map<string, Record<string, unknown>>();
+    let duplicates = 0;
+
+    rows.forEach((raw, i) => {
+      const line = Number((raw as { line?: unknown })?.line) || i + 1;
+      const v = validateSighting({ ...(raw as object), room_id: roomId });
+      if (!v.ok) { errors.push({ line, errors: v.errors }); return; }
+      if (v.value.lat == null || v.value.lng == null) {
+        errors.push({ line, errors: ['A pin (lat/lng) is required — add coordinates or a geocodable address'] });
+        return;
+      }
+      const key = importKey(v.value);
+      if (byKey.has(key)) { duplicates++; return; } // same row twice in one file
+      byKey.set(key, { ...v.value, import_key: key, created_by: caller.id });
+    });
+
+    let inserted = 0;
+    if (byKey.size) {
+      const { data, error } = await admin
+        .from('sightings')
+        .upsert([...byKey.values()], { onConflict: 'room_id,import_key', ignoreDuplicates: true })
+        .select('id');
+      if (error) return j(500, { ok: false, where: 'insert sightings', error: error.message });
+      inserted = data?.length ?? 0;
+      duplicates += byKey.size - inserted;
+    }
+
+    return j(200, { ok: true, inserted, duplicates, errors });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,257 @@
+// src/app/api/sightings/route.ts
+// Server-side reads/writes for sightings. The browser no longer writes the table
+// directly: every write is validated here, checked against the caller's session and
+// room membership (rooms with "require sign-in" off also take signed-out posts), and new
+// sightings fan out notifications from here. Reads in rooms that require sign-in are for
+// approved members only (same for /count and /export).
+import { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAdminClient, getCaller, getMembership, getRoomSettings, membershipStatus, readDenied, roleOf, type Caller } from '@/lib/server/supabase';
+import { requestMembership } from '@/lib/server/membership';
+import { atLeast, canModifySighting } from '@/lib/roles';
+import { notifyRoom } from '@/lib/server/notify';
+import { SIGHTING_COLUMNS, changedSince, validateSighting, type Sighting, type SightingInput } from '@/lib/sighting';
+import { parseApiFilters } from '@/lib/sightingFilters';
+import { decodeCursor, pageSightings, parseBBox } from '@/lib/server/sightingQuery';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PAGE_LIMIT = 200;
+const MAX_PAGE_LIMIT = 1000;
+const MAX_BBOX_LIMIT = 2000;
+const CLIENT_KEY_RE = /^[A-Za-z0-9_-]{8,64}$/;
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+async function findSighting(admin: SupabaseClient, id: string) {
+  const { data, error } = await admin.from('sightings').select(SIGHTING_COLUMNS).eq('id', id).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as Sighting | null) ?? null;
+}
+
+// Edit/delete rules: checked against the row's real room (not what the client says),
+// the caller's role there, and the room's edit_policy. Returns an error response or null.
+async function checkModify(admin: SupabaseClient, row: Sighting, caller: Caller) {
+  const [member, room] = await Promise.all([getMembership(admin, row.room_id, caller), getRoomSettings(admin, row.room_id)]);
+  if (!member?.approved) return j(403, { ok: false, where: 'auth', error: 'Not a member of this room' });
+  if (!canModifySighting(roleOf(member), room?.edit_policy || 'own', row, caller)) {
+    return j(403, { ok: false, where: 'auth', error: 'Only room admins can change sightings posted by others' });
+  }
+  return null;
+}
+
+// Writes require a session; the poster's email is the reporter unless they chose anonymous
+function reporterName(requested: unknown, caller: Caller) {
+  return requested === 'anonymous' ? 'anonymous' : (caller.email || 'anonymous');
+}
+
+// GET /api/sightings?room_id=<uuid>[&cursor=&limit=]  — one page of a room, newest first
+//     &bbox=west,south,east,north                     — only pins inside the map viewport
+//     &q=&city=&state=&by=&make=&model=&color=&media=1&after=&before=&order=asc
+//                                                     — filters (see filtersToApiParams)
+// GET /api/sightings?id=<uuid>                        — one sighting
+// Response: { ok, sightings, next_cursor } — pass next_cursor back to get the next page.
+export async function GET(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const url = new URL(req.url);
+    const id = url.searchParams.get('id');
+    const roomId = url.searchParams.get('room_id');
+
+    const caller = await getCaller(req, admin);
+    if (id) {
+      const row = await findSighting(admin, id);
+      if (!row) return j(404, { ok: false, error: 'Sighting not found' });
+      const denied = await readDenied(admin, row.room_id, caller);
+      return denied ? j(denied.status, denied.body) : j(200, { ok: true, sighting: row });
+    }
+    if (!roomId) return j(400, { ok: false, where: 'validation', error: 'room_id or id is required' });
+    const denied = await readDenied(admin, roomId, caller);
+    if (denied) return j(denied.status, denied.body);
+
+    const rawCursor = url.searchParams.get('cursor');
+    const cursor = decodeCursor(rawCursor);
+    if (rawCursor && !cursor) return j(400, { ok: false, where: 'validation', error: 'Invalid cursor' });
+
+    const rawBBox = url.searchParams.get('bbox');
+    const bbox = parseBBox(rawBBox);
+    if (rawBBox && !bbox) return j(400, { ok: false, where: 'validation', error: 'bbox must be west,south,east,north' });
+
+    const max = bbox ? MAX_BBOX_LIMIT : MAX_PAGE_LIMIT;
+    const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || DEFAULT_PAGE_LIMIT, 1), max);
+
+    const page = await pageSightings(admin, roomId, { filters: parseApiFilters(url.searchParams), cursor, limit, bbox });
+    return j(200, { ok: true, sightings: page.rows, next_cursor: page.next_cursor });
+  } catch (e) {
+    return j(500, { ok: false, where: 'select sightings', error: (e as Error)?.message || String(e) });
+  }
+}
+
+// Inserts a validated sighting and fans out its notifications. A `client_key` already used in the
+// room means the client is replaying a create whose response it never got: answer with that row.
+async function insertSighting(
+  admin: SupabaseClient,
+  row: Partial<SightingInput> & { user_name: string; created_by: string | null; client_key: string | null }
+) {
+  const { data: created, error } = await admin
+    .from('sightings')
+    .insert(row)
+    .select(SIGHTING_COLUMNS)
+    .single();
+  if (error?.code === '23505' && row.client_key) {
+    const { data: existing, error: findError } = await admin
+      .from('sightings')
+      .select(SIGHTING_COLUMNS)
+      .eq('room_id', row.room_id!)
+      .eq('client_key', row.client_key)
+      .maybeSingle();
+    if (findError) return j(500, { ok: false, where: 'select sightings', error: findError.message });
+    if (existing) return j(200, { ok: true, sighting: existing, notify: null, replayed: true });
+  }
+  if (error) return j(500, { ok: false, where: 'insert sightings', error: error.message });
+
+  const s = created as Sighting;
+  const notify = await notifyRoom(admin, {
+    room_id: s.room_id,
+    title: s.summary.slice(0, 80) || 'New sighting',
+    notes: s.summary,
+    address_text: s.address_text,
+    city: s.city,
+    state: s.state,
+    country: s.country,
+    reporter: s.user_name,
+    lat: s.lat,
+    lng: s.lng,
+    when_iso: s.reported_at,
+    sighting_id: s.id,
+  }).catch((e) => ({ ok: false, where: 'notify', error: e?.message || String(e) }));
+
+  return j(201, { ok: true, sighting: s, notify });
+}
+
+// POST /api/sightings — create; body is a SightingInput plus an optional client_key (idempotency key)
+export async function POST(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const caller = await getCaller(req, admin);
+
+    const body = await req.json().catch(() => null);
+    const v = validateSighting(body);
+    if (!v.ok) return j(400, { ok: false, where: 'validation', errors: v.errors });
+    const input = v.value;
+    if (input.lat == null || input.lng == null) {
+      return j(400, { ok: false, where: 'validation', errors: ['A pin (lat/lng) is required'] });
+    }
+    const rawKey = (body as { client_key?: unknown }).client_key;
+    if (rawKey != null && (typeof rawKey !== 'string' || !CLIENT_KEY_RE.test(rawKey))) {
+      return j(400, { ok: false, where: 'validation', errors: ['client_key must be 8–64 letters, digits, - or _'] });
+    }
+    const clientKey = typeof rawKey === 'string' ? rawKey : null;
+
+    const room = await getRoomSettings(admin, input.room_id!);
+    if (!room) return j(404, { ok: false, error: 'Room not found' });
+
+    // Signed-out posts only where the room has turned off "require sign-in"; no membership involved
+    if (!caller && room.require_auth !== false) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+    if (!caller) return insertSighting(admin, { ...input, user_name: 'anonymous', created_by: null, client_key: clientKey });
+
+    // Posting while signed in asks to join the room (approved at once only in open rooms)
+    let member = await getMembership(admin, input.room_id!, caller);
+    if (!member && caller.email) {
+      member = (await requestMembership(admin, room, { ...caller, email: caller.email })).member;
+    }
+    const status = membershipStatus(member);
+    if (status === 'pending') return j(403, { ok: false, where: 'auth', status, error: 'Your request to join this room is waiting for an admin' });
+    if (status !== 'approved') return j(403, { ok: false, where: 'auth', status, error: 'Not a member of this room' });
+    if (!atLeast(roleOf(member), 'member')) return j(403, { ok: false, where: 'auth', error: 'Viewers cannot post sightings' });
+
+    return insertSighting(admin, { ...input, user_name: reporterName(input.user_name, caller), created_by: caller.id, client_key: clientKey });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+// PATCH /api/sightings?id=<uuid> — partial update.
+// Body may include `expect` (the row as the editor last saw it); if the row has
+// changed since, we answer 409 unless `force` is set.
+export async function PATCH(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) return j(400, { ok: false, where: 'validation', error: 'id is required' });
+
+    const caller = await getCaller(req, admin);
+    if (!caller) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+
+    const current = await findSighting(admin, id);
+    if (!current) return j(404, { ok: false, conflict: 'deleted', error: 'Sighting not found' });
+
+    const denied = await checkModify(admin, current, caller);
+    if (denied) return denied;
+
+    const { expect, force, ...fields } = ((await req.json().catch(() => null)) || {}) as Record<string, unknown> & {
+      expect?: Record<string, unknown> | null; force?: boolean;
+    };
+    const v = validateSighting(fields, { partial: true, defaultCountry: current.country });
+    if (!v.ok) return j(400, { ok: false, where: 'validation', errors: v.errors });
+    const patch = v.value;
+    if (patch.room_id && patch.room_id !== current.room_id) {
+      return j(400, { ok: false, where: 'validation', errors: ['room_id cannot be changed'] });
+    }
+    delete patch.room_id;
+    if ('user_name' in patch) patch.user_name = reporterName(patch.user_name, caller);
+
+    if (expect && !force && changedSince(expect, current)) {
+      return j(409, { ok: false, conflict: 'changed', current });
+    }
+
+    const { data: updated, error } = await admin
+      .from('sightings')
+      .update(patch)
+      .eq('id', id)
+      .select(SIGHTING_COLUMNS)
+      .single();
+    if (error) return j(500, { ok: false, where: 'update sightings', error: error.message });
+    return j(200, { ok: true, sighting: updated });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
+
+// DELETE /api/sightings?id=<uuid>
+export async function DELETE(req: NextRequest) {
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const id = new URL(req.url).searchParams.get('id');
+    if (!id) return j(400, { ok: false, where: 'validation', error: 'id is required' });
+
+    const caller = await getCaller(req, admin);
+    if (!caller) return j(401, { ok: false, where: 'auth', error: 'Sign in required' });
+
+    const current = await findSighting(admin, id);
+    if (!current) return j(404, { ok: false, error: 'Sighting not found' });
+
+    const denied = await checkModify(admin, current, caller);
+    if (denied) return denied;
+
+    const { error } = await admin.from('sightings').delete().eq('id', id);
+    if (error) return j(500, { ok: false, where: 'delete sightings', error: error.message });
+    return j(200, { ok: true, deleted: id });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
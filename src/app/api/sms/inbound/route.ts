@@ -0,0 +1,77 @@
+// src/app/api/sms/inbound/route.ts
+// Twilio inbound-SMS webhook (set as the number's "A message comes in" URL).
+// STOP-type keywords turn SMS alerts off in every room for the sender's number, START turns
+// them back on (verified numbers only), HELP explains. Requests must carry a valid
+// X-Twilio-Signature; set TWILIO_WEBHOOK_URL if the public URL differs from NEXT_PUBLIC_SITE_URL.
+import { NextRequest } from 'next/server';
+import { getAdminClient } from '@/lib/server/supabase';
+import { escapeHtml } from '@/lib/server/notify';
+import { siteUrl } from '@/lib/server/unsubscribe';
+import { readTwilioWebhook } from '@/lib/server/webhooks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Twilio's standard opt-out / opt-in / help keywords
+const STOP_WORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'REVOKE', 'OPTOUT'];
+const START_WORDS = ['START', 'YES', 'UNSTOP', 'OPTIN'];
+const HELP_WORDS = ['HELP', 'INFO'];
+
+function twiml(message?: string) {
+  const body = message ? `<Message>${escapeHtml(message)}</Message>` : '';
+  return new Response(`<?xml version="1.0" encoding="UTF-8"?><Response>${body}</Response>`, {
+    status: 200,
+    headers: { 'content-type': 'text/xml; charset=utf-8' },
+  });
+}
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) return j(500, { ok: false, where: 'env', error: 'Missing TWILIO_AUTH_TOKEN' });
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const { params, valid } = await readTwilioWebhook(req, '/api/sms/inbound');
+    if (!valid) return j(403, { ok: false, where: 'auth', error: 'Invalid Twilio signature' });
+
+    const from = (params.From || '').trim();
+    const word = (params.Body || '').trim().split(/\s+/)[0]?.toUpperCase() || '';
+    if (!from) return twiml();
+
+    if (STOP_WORDS.includes(word)) {
+      const { error } = await admin.from('members').update({ sms_enabled: false }).eq('phone_e164', from);
+      if (error) return j(500, { ok: false, where: 'update members', error: error.message });
+      return twiml('You’re unsubscribed from UFO sighting alerts and won’t get more texts. Reply START to resubscribe.');
+    }
+
+    if (START_WORDS.includes(word)) {
+      const { data, error } = await admin
+        .from('members')
+        .update({ sms_enabled: true })
+        .eq('phone_e164', from)
+        .not('phone_verified_at', 'is', null)
+        .select('id');
+      if (error) return j(500, { ok: false, where: 'update members', error: error.message });
+      return twiml(data?.length
+        ? 'You’re resubscribed to UFO sighting alerts. Reply STOP to opt out, HELP for help.'
+        : 'This number isn’t verified for any room yet. Add it under Settings → Alert contacts in the app.');
+    }
+
+    if (HELP_WORDS.includes(word)) {
+      const base = siteUrl();
+      return twiml(`UFO sighting alerts: texts about new sightings in rooms you joined. Reply STOP to opt out, START to resume.${base ? ` Manage alerts at ${base}` : ''}`);
+    }
+
+    return twiml(); // anything else: no reply
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
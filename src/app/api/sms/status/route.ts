@@ -0,0 +1,42 @@
+// src/app/api/sms/status/route.ts
+// Twilio message status callback (passed as statusCallback when the outbox sends an SMS).
+// Updates the matching notification_outbox row: delivered, or failed with Twilio's error code.
+import { NextRequest } from 'next/server';
+import { getAdminClient } from '@/lib/server/supabase';
+import { recordProviderStatus } from '@/lib/server/outbox';
+import { readTwilioWebhook } from '@/lib/server/webhooks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function j(status: number, body: unknown) {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+export async function POST(req: NextRequest) {
+  if (!process.env.TWILIO_AUTH_TOKEN) return j(500, { ok: false, where: 'env', error: 'Missing TWILIO_AUTH_TOKEN' });
+  const admin = getAdminClient();
+  if (!admin) return j(500, { ok: false, where: 'env', error: 'Missing SUPABASE_URL or SUPABASE_SECRET_KEY' });
+
+  try {
+    const { params, valid } = await readTwilioWebhook(req, '/api/sms/status');
+    if (!valid) return j(403, { ok: false, where: 'auth', error: 'Invalid Twilio signature' });
+
+    const sid = params.MessageSid || params.SmsSid;
+    const status = (params.MessageStatus || params.SmsStatus || '').toLowerCase();
+    if (!sid || !status) return j(400, { ok: false, where: 'validation', error: 'MessageSid and MessageStatus are required' });
+
+    // queued → sending → sent → delivered | undelivered | failed
+    const rows = await recordProviderStatus(admin, sid, status === 'delivered'
+      ? { provider_status: status, status: 'delivered' }
+      : status === 'undelivered' || status === 'failed'
+        ? { provider_status: status, status: 'failed', error: `Twilio ${status}${params.ErrorCode ? ` (error ${params.ErrorCode})` : ''}` }
+        : { provider_status: status });
+    return j(200, { ok: true, updated: rows.length });
+  } catch (e) {
+    return j(500, { ok: false, where: 'fatal', error: (e as Error)?.message || String(e) });
+  }
+}
@@ -0,0 +1,71 @@
+// src/app/api/unsubscribe/route.ts
+// Email opt-out for one room, from the signed link in every alert email.
+//   GET  /api/unsubscribe?t=<token>  — confirmation page (link scanners only ever GET, so nothing changes here)
+//   POST /api/unsubscribe?t=<token>  — one-click (List-Unsubscribe-Post) or the page's button;
+//                                      form field action=resubscribe turns email back on
+import { NextRequest } from 'next/server';
+import { getAdminClient } from '@/lib/server/supabase';
+import { escapeHtml } from '@/lib/server/notify';
+import { verifyUnsubscribeToken } from '@/lib/server/unsubscribe';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function page(status: number, title: string, body: string) {
+  const html = `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${escapeHtml(title)}</title></head>
+<body style="font-family:system-ui,Segoe UI,Roboto,Helvetica,Arial,sans-serif;line-height:1.45;max-width:32rem;margin:3rem auto;padding:0 1rem">
+<h1 style="font-size:1.25rem">${escapeHtml(title)}</h1>${body}</body></html>`;
+  return new Response(html, { status, headers: { 'content-type': 'text/html; charset=utf-8' } });
+}
+
+function button(token: string, action: 'unsubscribe' | 'resubscribe', label: string) {
+  return `<form method="post" action="/api/unsubscribe?t=${encodeURIComponent(token)}">
+<input type="hidden" name="action" value="${action}"><button style="padding:.5rem 1rem">${label}</button></form>`;
+}
+
+async function lookup(token: string) {
+  const memberId = verifyUnsubscribeToken(token);
+  const admin = getAdminClient();
+  if (!memberId || !admin) return null;
+  const { data } = await admin.from('members').select('id, room_id, email, email_enabled').eq('id', memberId).maybeSingle();
+  if (!data) return null;
+  const { data: room } = await admin.from('rooms').select('name').eq('id', data.room_id).maybeSingle();
+  return { admin, member: data as { id: string; room_id: string; email: string | null; email_enabled: boolean | null }, roomName: room?.name || 'this room' };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const token = new URL(req.url).searchParams.get('t') || '';
+    const hit = await lookup(token);
+    if (!hit) return page(400, 'Link not valid', '<p>This unsubscribe link is invalid or the membership no longer exists.</p>');
+    const { member, roomName } = hit;
+    return member.email_enabled === false
+      ? page(200, 'Already unsubscribed', `<p>${escapeHtml(member.email || '')} gets no emails from ${escapeHtml(roomName)}.</p>${button(token, 'resubscribe', 'Resubscribe')}`)
+      : page(200, 'Unsubscribe?', `<p>Stop sighting emails from ${escapeHtml(roomName)} to ${escapeHtml(member.email || '')}?</p>${button(token, 'unsubscribe', 'Unsubscribe')}`);
+  } catch (e) {
+    return page(500, 'Something went wrong', `<p>${escapeHtml((e as Error)?.message || String(e))}</p>`);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const token = new URL(req.url).searchParams.get('t') || '';
+    const hit = await lookup(token);
+    if (!hit) return page(400, 'Link not valid', '<p>This unsubscribe link is invalid or the membership no longer exists.</p>');
+    const { admin, member, roomName } = hit;
+
+    // Mail clients send "List-Unsubscribe=One-Click"; our page sends action=…
+    const form = await req.formData().catch(() => null);
+    const resubscribe = form?.get('action') === 'resubscribe';
+
+    const { error } = await admin.from('members').update({ email_enabled: resubscribe }).eq('id', member.id);
+    if (error) return page(500, 'Something went wrong', `<p>${escapeHtml(error.message)}</p>`);
+
+    return resubscribe
+      ? page(200, 'Resubscribed', `<p>Sighting emails from ${escapeHtml(roomName)} will resume.</p>`)
+      : page(200, 'Unsubscribed', `<p>You won’t get more sighting emails from ${escapeHtml(roomName)}.</p>${button(token, 'resubscribe', 'Undo')}`);
+  } catch (e) {
+    return page(500, 'Something went wrong', `<p>${escapeHtml((e as Error)?.message || String(e))}</p>`);
+  }
+}
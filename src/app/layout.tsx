@@ -22,6 +22,15 @@ export const metadata: Metadata = {
     apple: "/icons/icon-192.png",
   },
   manifest: "/manifest.json",
+  // Absolute URLs for link previews; shared room/sighting links override these (lib/server/shareMeta.ts)
+  metadataBase: process.env.NEXT_PUBLIC_SITE_URL ? new URL(process.env.NEXT_PUBLIC_SITE_URL) : undefined,
+  openGraph: {
+    title: "UFO & Drone Tracker",
+    description: "Track UFO & drone sightings with your circle.",
+    siteName: "UFO & Drone Tracker",
+    type: "website",
+    images: [{ url: "/icons/icon-512.png", width: 512, height: 512 }],
+  },
 };
 
 // Next.js 15 viewport export replaces themeColor in metadata
@@ -2,9 +2,20 @@
 export const dynamic = 'force-dynamic';
 export const revalidate = false; // always render at request time (no stale SSR)
 
+import type { Metadata } from 'next';
 import ClientPage from './ClientPage';
+import { shareMetadata } from '@/lib/server/shareMeta';
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v) ?? null;
+
+// /?room=<id>&sighting=<id> links preview the room/sighting when pasted in chat
+export async function generateMetadata({ searchParams }: { searchParams: SearchParams }): Promise<Metadata> {
+  const sp = await searchParams;
+  return shareMetadata({ room: first(sp.room), sighting: first(sp.sighting) });
+}
 
 export default function Page() {
   return <ClientPage />;
 }
-
@@ -0,0 +1,19 @@
+// src/app/r/[code]/page.tsx
+// /r/<short code or room id> — shareable room link (see src/lib/deepLinks.ts)
+export const dynamic = 'force-dynamic';
+
+import type { Metadata } from 'next';
+import ClientPage from '@/app/ClientPage';
+import { shareMetadata } from '@/lib/server/shareMeta';
+
+type Params = Promise<{ code: string }>;
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { code } = await params;
+  return shareMetadata({ room: code });
+}
+
+export default async function RoomPage({ params }: { params: Params }) {
+  const { code } = await params;
+  return <ClientPage initialRoom={code} />;
+}
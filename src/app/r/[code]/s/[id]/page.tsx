@@ -0,0 +1,19 @@
+// src/app/r/[code]/s/[id]/page.tsx
+// /r/<short code or room id>/s/<sighting id> — opens one sighting on the map (see src/lib/deepLinks.ts)
+export const dynamic = 'force-dynamic';
+
+import type { Metadata } from 'next';
+import ClientPage from '@/app/ClientPage';
+import { shareMetadata } from '@/lib/server/shareMeta';
+
+type Params = Promise<{ code: string; id: string }>;
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { code, id } = await params;
+  return shareMetadata({ room: code, sighting: id });
+}
+
+export default async function SightingPage({ params }: { params: Params }) {
+  const { code, id } = await params;
+  return <ClientPage initialRoom={code} initialSighting={id} />;
+}
@@ -1,12 +1,15 @@
 // src/app/sw-register.tsx
 "use client";
 import { useEffect } from "react";
+import { requestBackgroundSync } from "@/lib/useLocal";
 
 export default function SWRegister() {
   useEffect(() => {
     if ("serviceWorker" in navigator) {
       navigator.serviceWorker
         .register("/sw.js")
+        // Replay offline reports left over from a previous session
+        .then(() => requestBackgroundSync())
         .catch((err) => console.error("SW register failed:", err));
     }
   }, []);
@@ -0,0 +1,160 @@
+// src/lib/alertAreas.ts
+// Member alert areas (radius or polygon) and quiet hours. Used by /api/members/alerts
+// (validation), notify.ts (who gets an alert) and ClientPage (drawing + preview).
+import { formatInTimeZone } from 'date-fns-tz';
+import { isValidTimeZone } from './sightingExport';
+
+export type LatLng = [number, number]; // [lat, lng]
+
+export type AlertArea = {
+  id: string;
+  name: string | null;
+  kind: 'radius' | 'polygon';
+  center_lat: number | null;
+  center_lng: number | null;
+  radius_m: number | null;
+  polygon: LatLng[] | null;
+};
+
+export type AlertAreaInput = Omit<AlertArea, 'id'>;
+
+export type QuietHours = { start: string; end: string; tz: string }; // HH:MM, HH:MM, IANA
+
+export const ALERT_AREA_COLUMNS = 'id, member_id, room_id, name, kind, center_lat, center_lng, radius_m, polygon';
+export const MAX_ALERT_AREAS = 10;
+export const MAX_RADIUS_M = 500_000;
+export const MAX_POLYGON_POINTS = 200;
+
+// ========
+// Geometry
+// ========
+const EARTH_RADIUS_M = 6_371_000;
+
+export function distanceMeters(a: LatLng, b: LatLng) {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b[0] - a[0]), dLng = rad(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a[0])) * Math.cos(rad(b[0])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Ray casting on lat/lng (fine at alert-area scale; polygons don't cross the antimeridian). */
+export function pointInPolygon(p: LatLng, ring: LatLng[]) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [yi, xi] = ring[i], [yj, xj] = ring[j];
+    if ((yi > p[0]) !== (yj > p[0]) && p[1] < ((xj - xi) * (p[0] - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+export function areaContains(area: AlertArea, lat: number, lng: number) {
+  if (area.kind === 'radius') {
+    if (area.center_lat == null || area.center_lng == null || !area.radius_m) return false;
+    return distanceMeters([area.center_lat, area.center_lng], [lat, lng]) <= area.radius_m;
+  }
+  return !!area.polygon && area.polygon.length >= 3 && pointInPolygon([lat, lng], area.polygon);
+}
+
+/** Centre of an area: the circle's centre, or the average of a polygon's corners. */
+export function areaCenter(area: AlertArea): LatLng | null {
+  if (area.kind === 'radius') return area.center_lat != null && area.center_lng != null ? [area.center_lat, area.center_lng] : null;
+  if (!area.polygon?.length) return null;
+  const n = area.polygon.length;
+  return [area.polygon.reduce((s, p) => s + p[0], 0) / n, area.polygon.reduce((s, p) => s + p[1], 0) / n];
+}
+
+/** Metres from (lat, lng) to the nearest area centre, or null without areas or a pin. */
+export function nearestAreaDistance(areas: AlertArea[], lat: number | null | undefined, lng: number | null | undefined) {
+  if (lat == null || lng == null) return null;
+  const ds = areas.map(areaCenter).filter((c): c is LatLng => !!c).map((c) => distanceMeters(c, [lat, lng]));
+  return ds.length ? Math.min(...ds) : null;
+}
+
+/**
+ * Does a member with these areas want an alert at (lat, lng)? No areas = everything;
+ * with areas, sightings without a pin don't match.
+ */
+export function wantsAlertAt(areas: AlertArea[], lat: number | null | undefined, lng: number | null | undefined) {
+  if (!areas.length) return true;
+  if (lat == null || lng == null) return false;
+  return areas.some((a) => areaContains(a, lat, lng));
+}
+
+// ===========
+// Quiet hours
+// ===========
+const HHMM = /^([01]\d|2[0-3]):([0-5]\d)(?::\d{2})?$/;
+
+function minutes(hhmm: string) {
+  const m = hhmm.match(HHMM);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+/** True when `now` falls inside start–end in `tz` (start > end wraps past midnight). */
+export function inQuietHours(q: QuietHours | null, now = new Date()) {
+  if (!q) return false;
+  const start = minutes(q.start), end = minutes(q.end);
+  if (start == null || end == null || start === end) return false;
+  let cur: number;
+  try { cur = minutes(formatInTimeZone(now, q.tz, 'HH:mm'))!; } catch { return false; }
+  return start < end ? cur >= start && cur < end : cur >= start || cur < end;
+}
+
+// ==========
+// Validation
+// ==========
+function num(v: unknown) {
+  const n = typeof v === 'string' ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+function validLatLng(lat: number | null, lng: number | null) {
+  return lat != null && lng != null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+export function validateAlertArea(body: unknown): { ok: true; value: AlertAreaInput } | { ok: false; errors: string[] } {
+  if (!body || typeof body !== 'object') return { ok: false, errors: ['body must be an object'] };
+  const src = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const name = typeof src.name === 'string' ? src.name.trim().slice(0, 80) || null : null;
+
+  if (src.kind === 'radius') {
+    const lat = num(src.center_lat), lng = num(src.center_lng), r = num(src.radius_m);
+    if (!validLatLng(lat, lng)) errors.push('center_lat/center_lng must be a valid coordinate');
+    if (r == null || r <= 0 || r > MAX_RADIUS_M) errors.push(`radius_m must be between 1 and ${MAX_RADIUS_M}`);
+    return errors.length ? { ok: false, errors } : {
+      ok: true,
+      value: { name, kind: 'radius', center_lat: lat, center_lng: lng, radius_m: Math.round(r!), polygon: null },
+    };
+  }
+
+  if (src.kind === 'polygon') {
+    const raw = Array.isArray(src.polygon) ? src.polygon : [];
+    const ring = raw.map((p) => (Array.isArray(p) ? [num(p[0]), num(p[1])] : [null, null]) as [number | null, number | null]);
+    if (ring.length < 3) errors.push('polygon needs at least 3 points');
+    if (ring.length > MAX_POLYGON_POINTS) errors.push(`polygon can have at most ${MAX_POLYGON_POINTS} points`);
+    if (ring.some(([lat, lng]) => !validLatLng(lat, lng))) errors.push('polygon points must be [lat, lng] coordinates');
+    return errors.length ? { ok: false, errors } : {
+      ok: true,
+      value: { name, kind: 'polygon', center_lat: null, center_lng: null, radius_m: null, polygon: ring as LatLng[] },
+    };
+  }
+
+  return { ok: false, errors: ["kind must be 'radius' or 'polygon'"] };
+}
+
+export function validateQuietHours(v: unknown): { ok: true; value: QuietHours | null } | { ok: false; errors: string[] } {
+  if (v === null) return { ok: true, value: null };
+  const q = (v || {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof q.start !== 'string' || minutes(q.start) == null) errors.push('start must be HH:MM');
+  if (typeof q.end !== 'string' || minutes(q.end) == null) errors.push('end must be HH:MM');
+  if (typeof q.tz !== 'string' || !isValidTimeZone(q.tz)) errors.push('tz must be an IANA timezone');
+  return errors.length ? { ok: false, errors } : { ok: true, value: { start: q.start as string, end: q.end as string, tz: q.tz as string } };
+}
+
+/** Quiet hours from a members row (time columns come back as HH:MM:SS). */
+export function quietHoursOf(m: { quiet_start?: string | null; quiet_end?: string | null; quiet_tz?: string | null }): QuietHours | null {
+  if (!m.quiet_start || !m.quiet_end || !m.quiet_tz) return null;
+  return { start: m.quiet_start.slice(0, 5), end: m.quiet_end.slice(0, 5), tz: m.quiet_tz };
+}
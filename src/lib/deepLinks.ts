@@ -0,0 +1,30 @@
+// src/lib/deepLinks.ts
+// Shareable links into the app: /r/<short code>[/s/<sighting id>] when the room has a short code
+// (pages under src/app/r/), otherwise /?room=<id>[&sighting=<id>]. Opening either joins the room,
+// selects the sighting and centres the map on it. Used by notifications, digests, the list's
+// Share button and the push notification handler.
+type RoomRef = { id: string; short_code?: string | null };
+
+export function roomPath(room: RoomRef) {
+  return room.short_code
+    ? `/r/${encodeURIComponent(room.short_code)}`
+    : `/?${new URLSearchParams({ room: room.id })}`;
+}
+
+export function sightingPath(room: RoomRef, sightingId: string) {
+  return room.short_code
+    ? `/r/${encodeURIComponent(room.short_code)}/s/${encodeURIComponent(sightingId)}`
+    : `/?${new URLSearchParams({ room: room.id, sighting: sightingId })}`;
+}
+
+/** The room and sighting a link points at (either form); nulls when it names neither. */
+export function parseDeepLink(href: string, base = 'http://localhost') {
+  let url: URL;
+  try { url = new URL(href, base); } catch { return { room: null, sighting: null }; }
+  const m = url.pathname.match(/^\/r\/([^/]+)(?:\/s\/([^/]+))?\/?$/);
+  if (m) return { room: decodeURIComponent(m[1]), sighting: m[2] ? decodeURIComponent(m[2]) : null };
+  return {
+    room: url.searchParams.get('room')?.trim() || null,
+    sighting: url.searchParams.get('sighting')?.trim() || null,
+  };
+}
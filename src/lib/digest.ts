@@ -0,0 +1,74 @@
+// src/lib/digest.ts
+// Per-member digest preferences: each of email and SMS is instant, an hourly summary or a daily
+// one sent at `hour` local time. Used by /api/members/alerts (validation), notify.ts (instant or
+// queue), the digest sender (server/digest.ts) and ClientPage.
+import { formatInTimeZone } from 'date-fns-tz';
+import { isValidTimeZone } from './sightingExport';
+
+export type DigestMode = 'instant' | 'hourly' | 'daily';
+export const DIGEST_MODES: DigestMode[] = ['instant', 'hourly', 'daily'];
+
+export type DigestChannel = 'email' | 'sms';
+
+export type DigestPrefs = {
+  email: DigestMode;
+  sms: DigestMode;
+  hour: number;        // 0–23, daily digests
+  tz: string | null;   // IANA; null = the room's timezone
+};
+
+export const DEFAULT_DIGEST_PREFS: DigestPrefs = { email: 'instant', sms: 'instant', hour: 8, tz: null };
+
+function isMode(v: unknown): v is DigestMode {
+  return typeof v === 'string' && (DIGEST_MODES as string[]).includes(v);
+}
+
+type DigestColumns = {
+  email_digest?: string | null; sms_digest?: string | null; digest_hour?: number | null; digest_tz?: string | null;
+};
+
+/** Digest preferences from a members row. */
+export function digestPrefsOf(m: DigestColumns): DigestPrefs {
+  return {
+    email: isMode(m.email_digest) ? m.email_digest : 'instant',
+    sms: isMode(m.sms_digest) ? m.sms_digest : 'instant',
+    hour: m.digest_hour ?? DEFAULT_DIGEST_PREFS.hour,
+    tz: m.digest_tz ?? null,
+  };
+}
+
+export function validateDigestPrefs(v: unknown): { ok: true; value: DigestPrefs } | { ok: false; errors: string[] } {
+  const d = (v && typeof v === 'object' ? v : {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  if (!isMode(d.email)) errors.push(`email must be one of ${DIGEST_MODES.join(', ')}`);
+  if (!isMode(d.sms)) errors.push(`sms must be one of ${DIGEST_MODES.join(', ')}`);
+  const hour = d.hour == null ? DEFAULT_DIGEST_PREFS.hour : Number(d.hour);
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) errors.push('hour must be 0–23');
+  const tz = d.tz == null || d.tz === '' ? null : d.tz;
+  if (tz !== null && (typeof tz !== 'string' || !isValidTimeZone(tz))) errors.push('tz must be an IANA timezone');
+  return errors.length
+    ? { ok: false, errors }
+    : { ok: true, value: { email: d.email as DigestMode, sms: d.sms as DigestMode, hour, tz: tz as string | null } };
+}
+
+const HOUR_MS = 3600 * 1000;
+const SLACK_MS = 5 * 60 * 1000; // cron runs drift; don't skip an hour over a few minutes
+
+/**
+ * Whether a digest should go out now. Hourly: an hour since the last one. Daily: once per local
+ * day, at or after `hour`. Instant (the member switched back): send what's left right away.
+ */
+export function digestDue(mode: DigestMode, prefs: Pick<DigestPrefs, 'hour'>, tz: string, lastSentAt: string | null, now = new Date()) {
+  if (mode === 'instant' || !lastSentAt) return mode !== 'daily' || localHour(now, tz) >= prefs.hour;
+  const last = new Date(lastSentAt);
+  if (mode === 'hourly') return now.getTime() - last.getTime() >= HOUR_MS - SLACK_MS;
+  return localHour(now, tz) >= prefs.hour && localDay(last, tz) !== localDay(now, tz);
+}
+
+function localHour(d: Date, tz: string) {
+  try { return Number(formatInTimeZone(d, tz, 'H')); } catch { return d.getUTCHours(); }
+}
+
+function localDay(d: Date, tz: string) {
+  try { return formatInTimeZone(d, tz, 'yyyy-MM-dd'); } catch { return d.toISOString().slice(0, 10); }
+}
@@ -0,0 +1,259 @@
+// src/lib/notifyTemplates.ts
+// Notification wording: default templates in English and Spanish, per-room overrides
+// (rooms.notify_templates), {{variable}} rendering and local-time/distance formatting.
+// Shared by the server (notify.ts, digest.ts) and ClientPage (template editor preview).
+import { formatInTimeZone } from 'date-fns-tz';
+import { enUS, es } from 'date-fns/locale';
+import { placeLabel } from './regions';
+
+export type Locale = 'en' | 'es';
+export const LOCALES: Locale[] = ['en', 'es'];
+export const LOCALE_LABELS: Record<Locale, string> = { en: 'English', es: 'Español' };
+
+export function isLocale(v: unknown): v is Locale {
+  return typeof v === 'string' && (LOCALES as string[]).includes(v);
+}
+
+/** subject + body: email (and Slack/Discord/webhook posts); short: SMS and push body. */
+export type NotifyTemplate = { subject: string; body: string; short: string };
+export type TemplatePart = keyof NotifyTemplate;
+export const TEMPLATE_PARTS: TemplatePart[] = ['subject', 'body', 'short'];
+export const TEMPLATE_LIMITS: Record<TemplatePart, number> = { subject: 200, body: 4000, short: 600 };
+
+/** A room's overrides; missing parts fall back to the default for that language. */
+export type RoomTemplates = Partial<Record<Locale, Partial<NotifyTemplate>>>;
+
+export const TEMPLATE_VARS = [
+  'room_name', 'title', 'summary', 'address', 'city', 'state', 'local_time', 'link', 'distance', 'coords', 'reporter',
+] as const;
+export type TemplateVar = (typeof TEMPLATE_VARS)[number];
+export type TemplateVars = Partial<Record<TemplateVar, string | null>>;
+
+export const TEMPLATE_VAR_HELP: Record<TemplateVar, string> = {
+  room_name: 'Room name',
+  title: 'First line of the report',
+  summary: 'Full report text',
+  address: 'Address, or city and state',
+  city: 'City',
+  state: 'State',
+  local_time: 'When it happened, in the room’s timezone',
+  link: 'Link that opens the sighting on the map',
+  distance: 'Distance from the member’s nearest alert area',
+  coords: 'Latitude, longitude',
+  reporter: 'Reporter name',
+};
+
+// ============
+// Translations
+// ============
+const STRINGS = {
+  en: {
+    template: {
+      subject: 'New sighting in {{room_name}}: {{title}}',
+      body: [
+        'New sighting reported in {{room_name}}',
+        '',
+        '{{summary}}',
+        '',
+        'Where: {{address}}',
+        'When: {{local_time}}',
+        'Distance: {{distance}} from your alert area',
+        '',
+        'Open it on the map: {{link}}',
+      ].join('\n'),
+      short: '{{room_name}}: {{title}} — {{address}}, {{local_time}}\n{{link}}',
+    },
+    dateFormat: "EEE, MMM d, yyyy 'at' h:mm a zzz",
+    shortDateFormat: 'MMM d, h:mm a',
+    dateLocale: enUS,
+    miles: true,
+    replyStop: 'Reply STOP to opt out.',
+    unsubscribe: 'Unsubscribe from this room’s emails',
+    unsubscribeText: (url: string) => `Unsubscribe from this room’s emails: ${url}`,
+    digestSubject: (n: number, room: string, period: 'hourly' | 'daily') =>
+      `${n} new sighting${n === 1 ? '' : 's'} in ${room} (${period === 'daily' ? 'daily digest' : 'hourly digest'})`,
+    digestSms: (n: number, room: string) => `${n} new sighting${n === 1 ? '' : 's'} in ${room}`,
+    digestMore: (n: number) => `…and ${n} more in the app.`,
+    mapAlt: 'Map of the sightings',
+  },
+  es: {
+    template: {
+      subject: 'Nuevo avistamiento en {{room_name}}: {{title}}',
+      body: [
+        'Se reportó un nuevo avistamiento en {{room_name}}',
+        '',
+        '{{summary}}',
+        '',
+        'Dónde: {{address}}',
+        'Cuándo: {{local_time}}',
+        'Distancia: {{distance}} de tu zona de alertas',
+        '',
+        'Velo en el mapa: {{link}}',
+      ].join('\n'),
+      short: '{{room_name}}: {{title}} — {{address}}, {{local_time}}\n{{link}}',
+    },
+    dateFormat: "EEEE d 'de' MMMM 'de' yyyy, HH:mm zzz",
+    shortDateFormat: "d MMM, HH:mm",
+    dateLocale: es,
+    miles: false,
+    replyStop: 'Responde STOP para darte de baja.',
+    unsubscribe: 'Dejar de recibir los correos de esta sala',
+    unsubscribeText: (url: string) => `Dejar de recibir los correos de esta sala: ${url}`,
+    digestSubject: (n: number, room: string, period: 'hourly' | 'daily') =>
+      `${n} ${n === 1 ? 'nuevo avistamiento' : 'nuevos avistamientos'} en ${room} (${period === 'daily' ? 'resumen diario' : 'resumen por hora'})`,
+    digestSms: (n: number, room: string) => `${n} ${n === 1 ? 'nuevo avistamiento' : 'nuevos avistamientos'} en ${room}`,
+    digestMore: (n: number) => `…y ${n} más en la app.`,
+    mapAlt: 'Mapa de los avistamientos',
+  },
+};
+
+export function strings(locale: Locale | null | undefined) {
+  return STRINGS[isLocale(locale) ? locale : 'en'];
+}
+
+export function defaultTemplate(locale: Locale): NotifyTemplate {
+  return { ...strings(locale).template };
+}
+
+/** The room's template for a language, with defaults filled in. */
+export function templateFor(templates: RoomTemplates | null | undefined, locale: Locale): NotifyTemplate {
+  const custom = templates?.[locale] || {};
+  const base = defaultTemplate(locale);
+  return {
+    subject: custom.subject?.trim() || base.subject,
+    body: custom.body?.trim() || base.body,
+    short: custom.short?.trim() || base.short,
+  };
+}
+
+// =========
+// Rendering
+// =========
+const VAR_RE = /\{\{\s*(\w+)\s*\}\}/g;
+
+const GAP = '\u0000';  // stands in for an empty variable until its separator is removed
+
+/**
+ * Fills in {{variables}}. A line whose variables are all empty is dropped, so "Where: {{address}}"
+ * disappears rather than printing "Where: ". Otherwise an empty variable is left out along with the
+ * separator next to it: "{{title}} — {{address}}, {{local_time}}" without an address reads "Title, 9:40 PM".
+ */
+export function renderTemplate(tpl: string, vars: TemplateVars) {
+  return tpl
+    .split('\n')
+    .flatMap((line) => {
+      let used = 0, filled = 0;
+      const out = line.replace(VAR_RE, (_, k: string) => {
+        const v = vars[k as TemplateVar];
+        used++;
+        if (v) filled++;
+        return v || GAP;
+      });
+      if (used && !filled) return [];
+      if (filled === used) return [out];
+      const tidy = out
+        .replace(new RegExp(`\\s*[,;—–·|]\\s*${GAP}`, 'g'), '')   // "Title — ␀, time" → "Title, time"
+        .replace(new RegExp(`${GAP}\\s*[,;—–·|]\\s*`, 'g'), '')   // "␀ — addr" → "addr"
+        .replaceAll(GAP, '')
+        .replace(/[\s:—–]+$/, '');
+      return [tidy];
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Simple sanitizer for HTML
+export function escapeHtml(s: string) {
+  return s
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#039;');
+}
+
+/** Rendered plain text → email HTML: paragraphs on blank lines, links made clickable. */
+export function textToHtml(text: string) {
+  const paragraphs = text.split(/\n{2,}/).map((p) =>
+    `<p>${escapeHtml(p).replace(/https?:\/\/[^\s<]+/g, (u) => `<a href="${u}">${u}</a>`).replace(/\n/g, '<br/>')}</p>`);
+  return `<div style="font-family:system-ui,Segoe UI,Roboto,Helvetica,Arial,sans-serif;line-height:1.45">${paragraphs.join('')}</div>`;
+}
+
+export function formatLocalTime(iso: string, tz: string, locale: Locale, short = false) {
+  const s = strings(locale);
+  try {
+    return formatInTimeZone(iso, tz, short ? s.shortDateFormat : s.dateFormat, { locale: s.dateLocale });
+  } catch {
+    return new Date(iso).toUTCString();
+  }
+}
+
+export function formatDistance(meters: number, locale: Locale) {
+  if (strings(locale).miles) {
+    const mi = meters / 1609.344;
+    return `${mi < 10 ? mi.toFixed(1) : Math.round(mi)} mi`;
+  }
+  const km = meters / 1000;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+}
+
+/** Template variables for one sighting as one member (or the room) will see it. */
+export function sightingVars(p: {
+  room_name: string;
+  title: string;
+  notes?: string | null;
+  address_text?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  when_iso?: string | null;
+  reporter?: string | null;
+  link?: string | null;
+  distance_m?: number | null;
+  tz: string;
+  locale: Locale;
+}): TemplateVars {
+  const place = placeLabel(p);
+  return {
+    room_name: p.room_name,
+    title: p.title,
+    summary: p.notes || p.title,
+    address: p.address_text || place,
+    city: p.city,
+    state: p.state,
+    local_time: p.when_iso ? formatLocalTime(p.when_iso, p.tz, p.locale) : null,
+    link: p.link,
+    distance: p.distance_m != null ? formatDistance(p.distance_m, p.locale) : null,
+    coords: p.lat != null && p.lng != null ? `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}` : null,
+    reporter: p.reporter && p.reporter !== 'anonymous' ? p.reporter : null,
+  };
+}
+
+// ==========
+// Validation
+// ==========
+export function validateTemplates(v: unknown): { ok: true; value: RoomTemplates } | { ok: false; errors: string[] } {
+  if (!v || typeof v !== 'object' || Array.isArray(v)) return { ok: false, errors: ['templates must be an object'] };
+  const errors: string[] = [];
+  const out: RoomTemplates = {};
+  for (const [locale, parts] of Object.entries(v as Record<string, unknown>)) {
+    if (!isLocale(locale)) { errors.push(`unknown language "${locale}" (expected ${LOCALES.join(', ')})`); continue; }
+    if (!parts || typeof parts !== 'object') { errors.push(`${locale} must be an object`); continue; }
+    const clean: Partial<NotifyTemplate> = {};
+    for (const part of TEMPLATE_PARTS) {
+      const raw = (parts as Record<string, unknown>)[part];
+      if (raw == null || raw === '') continue;
+      if (typeof raw !== 'string') { errors.push(`${locale}.${part} must be a string`); continue; }
+      const text = raw.trim();
+      if (text.length > TEMPLATE_LIMITS[part]) errors.push(`${locale}.${part} must be at most ${TEMPLATE_LIMITS[part]} characters`);
+      const unknown = [...text.matchAll(VAR_RE)].map((m) => m[1]).filter((k) => !(TEMPLATE_VARS as readonly string[]).includes(k));
+      if (unknown.length) errors.push(`${locale}.${part}: unknown variable${unknown.length > 1 ? 's' : ''} ${unknown.map((k) => `{{${k}}}`).join(', ')}`);
+      if (text) clean[part] = text;
+    }
+    if (Object.keys(clean).length) out[locale] = clean;
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, value: out };
+}
@@ -0,0 +1,119 @@
+// src/lib/regions.ts
+// Countries and their first-level regions (ISO 3166-1 alpha-2 / ISO 3166-2 subdivision codes, stored
+// without the country prefix: "NY", "ON", "ENG", "JAL"). Shared by the report form, sighting
+// validation and forward/reverse geocoding. Countries not listed here are accepted with a free-text region.
+
+export type CountryInfo = {
+  name: string;
+  regionLabel: string;          // what the form calls a region
+  google: string;               // Google `region` bias (a ccTLD, not always the ISO code)
+  regions: Record<string, string>;
+  aliases?: Record<string, string>;  // other names providers use → code
+};
+
+export const DEFAULT_COUNTRY = 'US';
+
+// US states (code ↔ name)
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DC: 'District of Columbia', DE: 'Delaware',
+  FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', IA: 'Iowa', ID: 'Idaho',
+  IL: 'Illinois', IN: 'Indiana', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+  MA: 'Massachusetts', MD: 'Maryland', ME: 'Maine', MI: 'Michigan',
+  MN: 'Minnesota', MO: 'Missouri', MS: 'Mississippi', MT: 'Montana',
+  NC: 'North Carolina', ND: 'North Dakota', NE: 'Nebraska', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NV: 'Nevada', NY: 'New York',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania',
+  RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee',
+  TX: 'Texas', UT: 'Utah', VA: 'Virginia', VT: 'Vermont', WA: 'Washington',
+  WI: 'Wisconsin', WV: 'West Virginia', WY: 'Wyoming',
+};
+
+export const COUNTRIES: Record<string, CountryInfo> = {
+  US: { name: 'United States', regionLabel: 'State', google: 'us', regions: US_STATES },
+  CA: {
+    name: 'Canada', regionLabel: 'Province / territory', google: 'ca',
+    regions: {
+      AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick',
+      NL: 'Newfoundland and Labrador', NS: 'Nova Scotia', NT: 'Northwest Territories', NU: 'Nunavut',
+      ON: 'Ontario', PE: 'Prince Edward Island', QC: 'Quebec', SK: 'Saskatchewan', YT: 'Yukon',
+    },
+    aliases: { 'yukon territory': 'YT', pei: 'PE' },
+  },
+  GB: {
+    name: 'United Kingdom', regionLabel: 'Nation', google: 'uk',
+    regions: { ENG: 'England', NIR: 'Northern Ireland', SCT: 'Scotland', WLS: 'Wales' },
+    aliases: { cymru: 'WLS', alba: 'SCT' },
+  },
+  MX: {
+    name: 'Mexico', regionLabel: 'State', google: 'mx',
+    regions: {
+      AGU: 'Aguascalientes', BCN: 'Baja California', BCS: 'Baja California Sur', CAM: 'Campeche',
+      CHP: 'Chiapas', CHH: 'Chihuahua', CMX: 'Ciudad de México', COA: 'Coahuila', COL: 'Colima',
+      DUR: 'Durango', GUA: 'Guanajuato', GRO: 'Guerrero', HID: 'Hidalgo', JAL: 'Jalisco',
+      MEX: 'México', MIC: 'Michoacán', MOR: 'Morelos', NAY: 'Nayarit', NLE: 'Nuevo León',
+      OAX: 'Oaxaca', PUE: 'Puebla', QUE: 'Querétaro', ROO: 'Quintana Roo', SIN: 'Sinaloa',
+      SLP: 'San Luis Potosí', SON: 'Sonora', TAB: 'Tabasco', TAM: 'Tamaulipas', TLA: 'Tlaxcala',
+      VER: 'Veracruz', YUC: 'Yucatán', ZAC: 'Zacatecas',
+    },
+    aliases: {
+      'mexico city': 'CMX', cdmx: 'CMX', 'distrito federal': 'CMX', 'estado de mexico': 'MEX', 'state of mexico': 'MEX',
+      'coahuila de zaragoza': 'COA', 'michoacan de ocampo': 'MIC', 'veracruz de ignacio de la llave': 'VER',
+    },
+  },
+};
+
+/** Lowercase, accents and punctuation folded ("Nuevo León" → "nuevo leon"). */
+export function foldName(s?: string | null) {
+  return (s || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[\s,.'-]+/g, ' ').trim();
+}
+
+export function isCountryCode(v: unknown): v is string {
+  return typeof v === 'string' && /^[A-Z]{2}$/.test(v);
+}
+
+/** Country names/codes as providers write them ("USA", "United Kingdom", "UK", "México") → ISO code. */
+export function countryCode(v?: string | null) {
+  const f = foldName(v);
+  if (!f) return null;
+  if (f === 'usa' || f === 'united states' || f === 'united states of america') return 'US';
+  if (f === 'uk' || f === 'great britain' || f === 'england' || f === 'scotland' || f === 'wales') return 'GB';
+  if (/^[a-z]{2}$/.test(f)) return f.toUpperCase();
+  const hit = Object.entries(COUNTRIES).find(([, c]) => foldName(c.name) === f);
+  return hit ? hit[0] : null;
+}
+
+/**
+ * The ISO 3166-2 code (without prefix) for a region written as a code ("on", "CA-ON") or a name
+ * ("Ontario", "Québec"), or null when it isn't a known region of `country`.
+ */
+export function regionCode(country: string | null | undefined, v?: string | null) {
+  const info = COUNTRIES[(country || DEFAULT_COUNTRY).toUpperCase()];
+  const raw = (v || '').trim();
+  if (!info || !raw) return null;
+  const code = raw.toUpperCase().replace(/^[A-Z]{2}-/, '');
+  if (info.regions[code]) return code;
+  const f = foldName(raw);
+  const byName = Object.entries(info.regions).find(([, name]) => foldName(name) === f);
+  return byName ? byName[0] : info.aliases?.[f] || null;
+}
+
+/** What a sighting stores as its region: the code when it's a known region, else the text as written. */
+export function normalizeRegion(country: string | null | undefined, v: string) {
+  return regionCode(country, v) || v.trim();
+}
+
+export function regionLabel(country?: string | null) {
+  return COUNTRIES[(country || DEFAULT_COUNTRY).toUpperCase()]?.regionLabel || 'State / region';
+}
+
+export function countryName(country?: string | null) {
+  const c = (country || DEFAULT_COUNTRY).toUpperCase();
+  return COUNTRIES[c]?.name || c;
+}
+
+/** "City, ST" for US sightings, "City, ON, Canada" elsewhere. */
+export function placeLabel(p: { city?: string | null; state?: string | null; country?: string | null }) {
+  const foreign = p.country && p.country.toUpperCase() !== DEFAULT_COUNTRY ? countryName(p.country) : null;
+  return [p.city, p.state, foreign].filter(Boolean).join(', ');
+}
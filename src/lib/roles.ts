@@ -0,0 +1,59 @@
+// src/lib/roles.ts
+// Room roles and the edit policy, shared by the API (enforcement) and ClientPage (which buttons to show).
+import type { Locale } from './notifyTemplates';
+
+export type Role = 'owner' | 'admin' | 'member' | 'viewer';
+export const ROLES: Role[] = ['owner', 'admin', 'member', 'viewer'];
+
+/** Who may edit/delete sightings posted by someone else: admins only ('own'), or any member ('any'). */
+export type EditPolicy = 'own' | 'any';
+export const EDIT_POLICIES: EditPolicy[] = ['own', 'any'];
+
+/** How join requests are handled: held for an admin ('approval') or accepted straight away ('open'). */
+export type JoinMode = 'approval' | 'open';
+export const JOIN_MODES: JoinMode[] = ['approval', 'open'];
+
+/** Where the caller's join request stands (null = never asked to join). */
+export type MembershipStatus = 'approved' | 'pending' | 'denied';
+
+// Room-level settings stored on the rooms row
+export type RoomSettings = {
+  id: string;
+  name: string | null;
+  short_code: string | null;
+  require_auth: boolean;
+  edit_policy: EditPolicy;
+  join_mode: JoinMode;
+  timezone: string | null;
+  locale: Locale;             // default language for alerts (see notifyTemplates.ts)
+};
+export const ROOM_SETTINGS_COLUMNS = 'id, name, short_code, require_auth, edit_policy, join_mode, timezone, locale';
+
+const RANK: Record<Role, number> = { viewer: 0, member: 1, admin: 2, owner: 3 };
+
+export function isRole(v: unknown): v is Role {
+  return typeof v === 'string' && (ROLES as string[]).includes(v);
+}
+
+/** True when `role` is at least `min` (null = not a member). */
+export function atLeast(role: Role | null | undefined, min: Role) {
+  return !!role && RANK[role] >= RANK[min];
+}
+
+/**
+ * May this caller change `row`? Admins always; members for their own rows, or any row
+ * when the room's policy is 'any'. Rows from before `created_by` existed fall back to
+ * matching the reporter name against the caller's email.
+ */
+export function canModifySighting(
+  role: Role | null | undefined,
+  policy: EditPolicy,
+  row: { created_by?: string | null; user_name?: string | null },
+  caller: { id: string; email: string | null } | null,
+) {
+  if (atLeast(role, 'admin')) return true;
+  if (!atLeast(role, 'member') || !caller) return false;
+  if (policy === 'any') return true;
+  if (row.created_by) return row.created_by === caller.id;
+  return !!caller.email && (row.user_name || '').toLowerCase() === caller.email;
+}
@@ -0,0 +1,196 @@
+// src/lib/server/digest.ts
+// Hourly/daily summaries. notify.ts queues a digest_items row per sighting for members who chose a
+// digest on a channel; sendDueDigests (run by /api/cron/digests) turns each member's due items into
+// one email (list + a static map when MAPBOX_TOKEN is a public token) or one SMS, sent via the outbox.
+// Written in the member's language (or the room's), times in the digest's timezone.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MEMBER_COLUMNS, type MemberRow } from './supabase';
+import { enqueue, processOutbox, type OutboxInsert, type ProcessResult } from './outbox';
+import { siteUrl, unsubscribeParts } from './unsubscribe';
+import { ROOM_SETTINGS_COLUMNS, type RoomSettings } from '@/lib/roles';
+import { SIGHTING_COLUMNS, type Sighting } from '@/lib/sighting';
+import { digestDue, digestPrefsOf, type DigestChannel } from '@/lib/digest';
+import { inQuietHours, quietHoursOf } from '@/lib/alertAreas';
+import { escapeHtml, formatLocalTime, strings, type Locale } from '@/lib/notifyTemplates';
+import { roomPath, sightingPath } from '@/lib/deepLinks';
+import { placeLabel } from '@/lib/regions';
+
+const MAX_ITEMS = 5000;      // pending items looked at per run
+const EMAIL_LIST_MAX = 50;   // sightings listed in one email
+const SMS_LIST_MAX = 4;
+const MAP_PINS_MAX = 30;
+
+type ItemRow = { id: string; member_id: string; room_id: string; channel: DigestChannel; sighting_id: string };
+
+export type DigestRunResult = {
+  digests: number;    // messages queued
+  sightings: number;  // items they covered
+  waiting: number;    // items not due yet (or in quiet hours)
+  dropped: number;    // items whose member/contact/sighting is gone
+  outbox: ProcessResult | null;
+};
+
+/** Mapbox static image with a pin per sighting; secret (sk.) tokens must never end up in an email. */
+export function staticMapUrl(points: Array<{ lat: number; lng: number }>) {
+  const token = process.env.MAPBOX_TOKEN;
+  if (!token?.startsWith('pk.') || !points.length) return null;
+  const pins = points.slice(0, MAP_PINS_MAX).map(p => `pin-s+e11d48(${p.lng.toFixed(4)},${p.lat.toFixed(4)})`).join(',');
+  return `https://api.mapbox.com/styles/v1/mapbox/streets-v12/static/${pins}/auto/600x300@2x?padding=40&access_token=${token}`;
+}
+
+function sightingLink(s: Sighting, room: RoomSettings | undefined) {
+  const base = siteUrl();
+  return base ? `${base}${sightingPath({ id: s.room_id, short_code: room?.short_code }, s.id)}` : null;
+}
+
+type Period = 'hourly' | 'daily';
+
+function when(s: Sighting, tz: string, locale: Locale) {
+  return formatLocalTime(s.reported_at, tz, locale, true);
+}
+
+function roomLabel(room: RoomSettings | undefined) {
+  return room?.name || room?.short_code || 'your room';
+}
+
+function emailDigest(m: MemberRow, room: RoomSettings | undefined, rows: Sighting[], tz: string, period: Period, locale: Locale): OutboxInsert['message'] {
+  const t = strings(locale);
+  const subject = t.digestSubject(rows.length, roomLabel(room), period);
+  const shown = rows.slice(0, EMAIL_LIST_MAX);
+  const more = rows.length - shown.length;
+  const unsub = unsubscribeParts(m.id, locale);
+  const map = staticMapUrl(rows.filter(s => s.lat != null && s.lng != null) as Array<Sighting & { lat: number; lng: number }>);
+
+  const text = [
+    subject,
+    '',
+    ...shown.map(s => `• ${when(s, tz, locale)} — ${placeLabel(s)}: ${s.summary.slice(0, 140)}${sightingLink(s, room) ? `\n  ${sightingLink(s, room)}` : ''}`),
+    more > 0 ? t.digestMore(more) : null,
+  ].filter(v => v != null).join('\n') + unsub.text;
+
+  const html =
+    `<div style="font-family:system-ui,Segoe UI,Roboto,Helvetica,Arial,sans-serif;line-height:1.45">
+       <p><b>${escapeHtml(subject)}</b></p>
+       ${map ? `<p><img src="${escapeHtml(map)}" width="600" height="300" alt="${escapeHtml(t.mapAlt)}" style="max-width:100%;height:auto;border-radius:8px" /></p>` : ''}
+       <ul style="padding-left:18px">
+         ${shown.map(s => {
+           const link = sightingLink(s, room);
+           const place = escapeHtml(placeLabel(s));
+           return `<li style="margin-bottom:6px"><b>${escapeHtml(when(s, tz, locale))}</b> — ${link ? `<a href="${escapeHtml(link)}">${place}</a>` : place}<br/>${escapeHtml(s.summary.slice(0, 280))}</li>`;
+         }).join('')}
+       </ul>
+       ${more > 0 ? `<p>${escapeHtml(t.digestMore(more))}</p>` : ''}
+     </div>` + unsub.html;
+
+  return { subject, text, html, headers: unsub.headers };
+}
+
+function smsDigest(room: RoomSettings | undefined, rows: Sighting[], tz: string, locale: Locale): OutboxInsert['message'] {
+  const t = strings(locale);
+  const shown = rows.slice(0, SMS_LIST_MAX).map(s => `${placeLabel(s)} (${when(s, tz, locale)})`);
+  const more = rows.length - shown.length;
+  const base = siteUrl();
+  return {
+    text: [
+      `${t.digestSms(rows.length, roomLabel(room))}: ${shown.join('; ')}${more > 0 ? `; +${more}` : ''}`,
+      base ? `${base}${roomPath({ id: rows[0].room_id, short_code: room?.short_code })}` : null,
+      t.replyStop,
+    ].filter(Boolean).join('\n'),
+  };
+}
+
+/** Sends every digest that's due now; items for members not due yet stay queued. */
+export async function sendDueDigests(admin: SupabaseClient, now = new Date()): Promise<DigestRunResult> {
+  const result: DigestRunResult = { digests: 0, sightings: 0, waiting: 0, dropped: 0, outbox: null };
+
+  const { data: itemData, error } = await admin
+    .from('digest_items')
+    .select('id, member_id, room_id, channel, sighting_id')
+    .is('digested_at', null)
+    .order('created_at', { ascending: true })
+    .limit(MAX_ITEMS);
+  if (error) throw new Error(error.message);
+  const items = (itemData || []) as ItemRow[];
+  if (!items.length) return result;
+
+  const groups = new Map<string, ItemRow[]>();
+  for (const it of items) groups.set(`${it.member_id}:${it.channel}`, [...(groups.get(`${it.member_id}:${it.channel}`) || []), it]);
+
+  const memberIds = [...new Set(items.map(i => i.member_id))];
+  const roomIds = [...new Set(items.map(i => i.room_id))];
+  const [{ data: memberData, error: mErr }, { data: roomData, error: rErr }] = await Promise.all([
+    admin.from('members').select(MEMBER_COLUMNS).in('id', memberIds),
+    admin.from('rooms').select(ROOM_SETTINGS_COLUMNS).in('id', roomIds),
+  ]);
+  if (mErr) throw new Error(mErr.message);
+  if (rErr) throw new Error(rErr.message);
+  const members = new Map(((memberData || []) as MemberRow[]).map(m => [m.id, m]));
+  const rooms = new Map(((roomData || []) as RoomSettings[]).map(r => [r.id, r]));
+
+  // Decide which groups go out now
+  const due: Array<{ member: MemberRow; channel: DigestChannel; items: ItemRow[]; tz: string }> = [];
+  const done: string[] = [];
+  for (const group of groups.values()) {
+    const { member_id, channel, room_id } = group[0];
+    const m = members.get(member_id);
+    const contactOk = m?.approved && (channel === 'email'
+      ? (m.email_enabled ?? true) && m.email && m.email_verified_at
+      : (m.sms_enabled ?? false) && m.phone_e164 && m.phone_verified_at);
+    if (!m || !contactOk) { result.dropped += group.length; done.push(...group.map(i => i.id)); continue; }
+
+    const prefs = digestPrefsOf(m);
+    const tz = prefs.tz || rooms.get(room_id)?.timezone || 'UTC';
+    const last = channel === 'email' ? m.email_digest_sent_at : m.sms_digest_sent_at;
+    if (!digestDue(prefs[channel], prefs, tz, last, now) || inQuietHours(quietHoursOf(m), now)) {
+      result.waiting += group.length;
+      continue;
+    }
+    due.push({ member: m, channel, items: group, tz });
+  }
+
+  const sightingIds = [...new Set(due.flatMap(d => d.items.map(i => i.sighting_id)))];
+  const sightings = new Map<string, Sighting>();
+  for (let i = 0; i < sightingIds.length; i += 500) {
+    const { data, error: sErr } = await admin.from('sightings').select(SIGHTING_COLUMNS).in('id', sightingIds.slice(i, i + 500));
+    if (sErr) throw new Error(sErr.message);
+    for (const s of (data || []) as Sighting[]) sightings.set(s.id, s);
+  }
+
+  const rows: OutboxInsert[] = [];
+  const sentAt: Array<{ member_id: string; channel: DigestChannel }> = [];
+  for (const d of due) {
+    done.push(...d.items.map(i => i.id));
+    const list = d.items.map(i => sightings.get(i.sighting_id)).filter((s): s is Sighting => !!s)
+      .sort((a, b) => a.reported_at.localeCompare(b.reported_at));
+    result.dropped += d.items.length - list.length;
+    if (!list.length) continue;
+
+    const room = rooms.get(d.member.room_id);
+    const period: Period = digestPrefsOf(d.member)[d.channel] === 'daily' ? 'daily' : 'hourly';
+    const locale: Locale = d.member.locale || room?.locale || 'en';
+    rows.push({
+      room_id: d.member.room_id, member_id: d.member.id, kind: 'digest', channel: d.channel,
+      target: d.channel === 'email' ? d.member.email! : d.member.phone_e164!,
+      message: d.channel === 'email' ? emailDigest(d.member, room, list, d.tz, period, locale) : smsDigest(room, list, d.tz, locale),
+    });
+    sentAt.push({ member_id: d.member.id, channel: d.channel });
+    result.digests++;
+    result.sightings += list.length;
+  }
+
+  const ids = await enqueue(admin, rows);
+  const stamp = now.toISOString();
+  for (let i = 0; i < done.length; i += 500) {
+    const { error: uErr } = await admin.from('digest_items').update({ digested_at: stamp }).in('id', done.slice(i, i + 500));
+    if (uErr) throw new Error(uErr.message);
+  }
+  for (const channel of ['email', 'sms'] as const) {
+    const memberIdsSent = sentAt.filter(s => s.channel === channel).map(s => s.member_id);
+    if (!memberIdsSent.length) continue;
+    const { error: uErr } = await admin.from('members').update({ [`${channel}_digest_sent_at`]: stamp }).in('id', memberIdsSent);
+    if (uErr) throw new Error(uErr.message);
+  }
+
+  result.outbox = await processOutbox(admin, { ids });
+  return result;
+}
@@ -0,0 +1,102 @@
+// src/lib/server/geocode/cache.ts
+// Geocode result cache. Requests are keyed by their normalized query (case, punctuation and spacing
+// folded; the `near` bias rounded to ~1 km), kept in a per-instance LRU and, when the service role
+// is configured, in the geocode_cache table so other instances and cold starts share it.
+// Misses are cached too, for less time, so a typo doesn't hit every provider on each retry.
+import { createHash } from 'crypto';
+import { getAdminClient } from '../supabase';
+
+export type CacheSource = 'memory' | 'db';
+export type CacheInfo = { status: 'hit' | 'miss'; source?: CacheSource; age_s?: number; key: string };
+
+type Entry = { value: CachedResult; storedAt: number; expiresAt: number };
+
+/** What /api/geocode answered: the response status and body (a hit, candidates, or an error). */
+export type CachedResult = { status: number; body: Record<string, unknown> };
+
+const HOUR_MS = 3600 * 1000;
+const MAX_ENTRIES = Number(process.env.GEOCODE_CACHE_MAX) || 1000;
+export const HIT_TTL_MS = (Number(process.env.GEOCODE_CACHE_TTL_HOURS) || 24 * 7) * HOUR_MS;
+export const MISS_TTL_MS = HOUR_MS;
+const PRUNE_CHANCE = 0.01;  // writes that also delete expired rows
+
+const lru = new Map<string, Entry>();  // insertion order = recency
+
+function norm(s?: string | null) {
+  return (s || '').toLowerCase().replace(/[\s,.'#-]+/g, ' ').trim();
+}
+
+/**
+ * Stable key for a request: kind + normalized text/constraints + coordinates rounded to `digits`
+ * decimals (2 ≈ 1 km for a bias point; reverse lookups use 4 ≈ 10 m).
+ */
+export function cacheKey(kind: string, parts: Record<string, string | number | boolean | null | undefined>, digits = 2) {
+  const canon = Object.keys(parts).sort().map((k) => {
+    const v = parts[k];
+    if (v == null || v === false || v === '') return null;
+    return `${k}=${typeof v === 'number' ? v.toFixed(digits) : typeof v === 'string' ? norm(v) : '1'}`;
+  }).filter(Boolean).join('&');
+  return `${kind}:${createHash('sha256').update(canon).digest('hex').slice(0, 32)}`;
+}
+
+function dbEnabled() {
+  return process.env.GEOCODE_CACHE_DB !== '0';
+}
+
+function remember(key: string, e: Entry) {
+  lru.delete(key);
+  lru.set(key, e);
+  while (lru.size > MAX_ENTRIES) lru.delete(lru.keys().next().value!);
+}
+
+export async function getCached(key: string): Promise<{ value: CachedResult; info: CacheInfo } | null> {
+  const now = Date.now();
+  const mem = lru.get(key);
+  if (mem && mem.expiresAt > now) {
+    remember(key, mem);
+    return { value: mem.value, info: { status: 'hit', source: 'memory', age_s: Math.round((now - mem.storedAt) / 1000), key } };
+  }
+  if (mem) lru.delete(key);
+
+  const admin = dbEnabled() ? getAdminClient() : null;
+  if (!admin) return null;
+  // A missing table or a slow database just means no shared cache
+  try {
+    const { data } = await admin
+      .from('geocode_cache')
+      .select('status, body, created_at, expires_at')
+      .eq('key', key)
+      .gt('expires_at', new Date(now).toISOString())
+      .maybeSingle();
+    if (!data) return null;
+    const storedAt = new Date(data.created_at).getTime();
+    const value: CachedResult = { status: data.status, body: data.body };
+    remember(key, { value, storedAt, expiresAt: new Date(data.expires_at).getTime() });
+    return { value, info: { status: 'hit', source: 'db', age_s: Math.round((now - storedAt) / 1000), key } };
+  } catch {
+    return null;
+  }
+}
+
+export async function putCached(key: string, value: CachedResult, ttlMs: number) {
+  const now = Date.now();
+  remember(key, { value, storedAt: now, expiresAt: now + ttlMs });
+
+  const admin = dbEnabled() ? getAdminClient() : null;
+  if (!admin) return;
+  try {
+    await admin.from('geocode_cache').upsert({
+      key, status: value.status, body: value.body,
+      created_at: new Date(now).toISOString(), expires_at: new Date(now + ttlMs).toISOString(),
+    });
+    if (Math.random() < PRUNE_CHANCE) await admin.from('geocode_cache').delete().lt('expires_at', new Date(now).toISOString());
+  } catch {}
+}
+
+/** JSON response for a (possibly cached) answer, with the cache status in the body and a header. */
+export function cachedReply(r: CachedResult, cache: CacheInfo) {
+  return new Response(JSON.stringify({ ...r.body, cache }, null, 2), {
+    status: r.status,
+    headers: { 'content-type': 'application/json', 'x-geocode-cache': cache.status },
+  });
+}
@@ -0,0 +1,54 @@
+// src/lib/server/geocode/config.ts
+// Which geocoding sources /api/geocode uses, in what order, and how much each one's candidates count:
+//   GEOCODE_PROVIDERS=google_findplace,geoapify,mapbox,google_text,nominatim   (order; leave one out to disable it)
+//   GEOCODE_WEIGHTS=nominatim:0.8,mapbox:1.2                                    (candidate score multiplier, default 1)
+// Strict lookups take the first acceptable hit in this order; reverse lookups use the same order per service.
+import type { GeocodeProvider } from './limits';
+
+export type GeocodeSource = 'google_findplace' | 'geoapify' | 'mapbox' | 'google_text' | 'nominatim';
+
+export const SOURCES: GeocodeSource[] = ['google_findplace', 'geoapify', 'mapbox', 'google_text', 'nominatim'];
+
+/** The service (API key, rate limit, health) behind each source. */
+export const SOURCE_SERVICE: Record<GeocodeSource, GeocodeProvider> = {
+  google_findplace: 'google',
+  geoapify: 'geoapify',
+  mapbox: 'mapbox',
+  google_text: 'google',
+  nominatim: 'nominatim',
+};
+
+const MAX_WEIGHT = 10;
+
+function isSource(v: string): v is GeocodeSource {
+  return (SOURCES as string[]).includes(v);
+}
+
+export function geocodeConfig() {
+  const problems: string[] = [];
+
+  let order = SOURCES;
+  const rawOrder = process.env.GEOCODE_PROVIDERS?.trim();
+  if (rawOrder) {
+    const names = rawOrder.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+    for (const n of names) if (!isSource(n)) problems.push(`GEOCODE_PROVIDERS: unknown provider "${n}" (expected ${SOURCES.join(', ')})`);
+    order = [...new Set(names.filter(isSource))];
+    if (!order.length) { problems.push('GEOCODE_PROVIDERS names no known provider; using the default order'); order = SOURCES; }
+  }
+
+  const weights = Object.fromEntries(SOURCES.map((s) => [s, 1])) as Record<GeocodeSource, number>;
+  for (const pair of (process.env.GEOCODE_WEIGHTS || '').split(',').map((s) => s.trim()).filter(Boolean)) {
+    const [name, raw] = pair.split(':').map((s) => s.trim());
+    const w = Number(raw);
+    if (!isSource(name.toLowerCase())) problems.push(`GEOCODE_WEIGHTS: unknown provider "${name}"`);
+    else if (!Number.isFinite(w) || w < 0 || w > MAX_WEIGHT) problems.push(`GEOCODE_WEIGHTS: ${name} must be a number from 0 to ${MAX_WEIGHT}`);
+    else weights[name.toLowerCase() as GeocodeSource] = w;
+  }
+
+  return { order, weights, problems };
+}
+
+/** Services in the order their first source appears (for lookups with one call per service). */
+export function serviceOrder(order: GeocodeSource[]) {
+  return [...new Set(order.map((s) => SOURCE_SERVICE[s]))];
+}
@@ -0,0 +1,113 @@
+// src/lib/server/geocode/health.ts
+// Per-service call stats and a circuit breaker (per server instance). A service that errors or times
+// out BREAKER_FAILURES times in a row is skipped for a cooldown (1 min, doubling to 10 min); after
+// the cooldown one trial call is let through, and a success closes the breaker again.
+// "No result" is not a failure: provider functions throw (via geoFetch) only for transport/API errors.
+import type { GeocodeProvider } from './limits';
+
+const TIMEOUT_MS = Number(process.env.GEOCODE_TIMEOUT_MS) || 5000;
+const BREAKER_FAILURES = 3;
+const BASE_COOLDOWN_MS = 60_000;
+const MAX_COOLDOWN_MS = 10 * 60_000;
+const SAMPLE_SIZE = 50;  // recent calls kept for latency/error rate
+
+type Sample = { ms: number; ok: boolean };
+type State = {
+  samples: Sample[];
+  calls: number;
+  errors: number;
+  consecutiveFailures: number;
+  openUntil: number;     // 0 = closed
+  cooldownMs: number;
+  trialInFlight: boolean;
+  lastError: string | null;
+  lastErrorAt: number | null;
+};
+
+const states = new Map<GeocodeProvider, State>();
+
+function stateOf(p: GeocodeProvider) {
+  let s = states.get(p);
+  if (!s) {
+    s = { samples: [], calls: 0, errors: 0, consecutiveFailures: 0, openUntil: 0, cooldownMs: BASE_COOLDOWN_MS, trialInFlight: false, lastError: null, lastErrorAt: null };
+    states.set(p, s);
+  }
+  return s;
+}
+
+/** An HTTP or API-level failure (as opposed to "nothing found"). */
+export class GeocodeHttpError extends Error {}
+
+/** fetch with a timeout; throws GeocodeHttpError on a non-2xx response. */
+export async function geoFetch(url: string, init: RequestInit = {}) {
+  let r: Response;
+  try {
+    r = await fetch(url, { ...init, signal: AbortSignal.timeout(TIMEOUT_MS) });
+  } catch (e) {
+    throw new GeocodeHttpError((e as Error)?.name === 'TimeoutError' ? `timed out after ${TIMEOUT_MS} ms` : (e as Error)?.message || String(e));
+  }
+  if (!r.ok) throw new GeocodeHttpError(`HTTP ${r.status}`);
+  return r;
+}
+
+/** Whether a call may go out now; while half-open only one trial call is allowed at a time. */
+export function admit(p: GeocodeProvider, now = Date.now()) {
+  const s = stateOf(p);
+  if (!s.openUntil) return true;
+  if (now < s.openUntil || s.trialInFlight) return false;
+  s.trialInFlight = true;
+  return true;
+}
+
+export function recordCall(p: GeocodeProvider, ms: number, error: string | null, now = Date.now()) {
+  const s = stateOf(p);
+  s.calls++;
+  s.samples.push({ ms, ok: !error });
+  if (s.samples.length > SAMPLE_SIZE) s.samples.shift();
+  s.trialInFlight = false;
+
+  if (!error) {
+    s.consecutiveFailures = 0;
+    s.openUntil = 0;
+    s.cooldownMs = BASE_COOLDOWN_MS;
+    return;
+  }
+  s.errors++;
+  s.lastError = error;
+  s.lastErrorAt = now;
+  s.consecutiveFailures++;
+  if (s.openUntil) {
+    // Trial call failed: stay open, longer
+    s.cooldownMs = Math.min(MAX_COOLDOWN_MS, s.cooldownMs * 2);
+    s.openUntil = now + s.cooldownMs;
+  } else if (s.consecutiveFailures >= BREAKER_FAILURES) {
+    s.openUntil = now + s.cooldownMs;
+  }
+}
+
+export function healthOf(p: GeocodeProvider, now = Date.now()) {
+  const s = stateOf(p);
+  const recent = s.samples;
+  const sorted = recent.map((x) => x.ms).sort((a, b) => a - b);
+  const failed = recent.filter((x) => !x.ok).length;
+  return {
+    breaker: !s.openUntil ? 'closed' : now < s.openUntil ? 'open' : 'half_open',
+    open_until: s.openUntil && now < s.openUntil ? new Date(s.openUntil).toISOString() : null,
+    calls: s.calls,
+    errors: s.errors,
+    recent_calls: recent.length,
+    error_rate: recent.length ? Math.round((failed / recent.length) * 1000) / 1000 : null,
+    avg_ms: recent.length ? Math.round(sorted.reduce((a, b) => a + b, 0) / recent.length) : null,
+    p95_ms: recent.length ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : null,
+    last_error: s.lastError,
+    last_error_at: s.lastErrorAt ? new Date(s.lastErrorAt).toISOString() : null,
+  };
+}
+
+/** Google answers HTTP 200 with a `status` for quota/key problems; those count as failures too. */
+export function assertGoogleOk(j: unknown) {
+  const { status, error_message } = (j || {}) as { status?: unknown; error_message?: unknown };
+  if (status && status !== 'OK' && status !== 'ZERO_RESULTS') {
+    throw new GeocodeHttpError(`Google ${status}${error_message ? `: ${error_message}` : ''}`);
+  }
+}
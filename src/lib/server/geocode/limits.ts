@@ -0,0 +1,110 @@
+// src/lib/server/geocode/limits.ts
+// Rate limits for /api/geocode (per server instance, like the admin-code lockout in /api/rooms/claim):
+//  - per client IP, so one browser (or a runaway import) can't burn the providers' quota;
+//  - per provider, so we stay under each service's limits — Nominatim's usage policy is at most
+//    one request per second for the whole application.
+// Cache hits don't count against either.
+import { admit, recordCall } from './health';
+
+export type GeocodeProvider = 'google' | 'geoapify' | 'mapbox' | 'nominatim';
+
+type Window = { limit: number; ms: number };
+
+const IP_WINDOW: Window = { limit: Number(process.env.GEOCODE_RATE_PER_MIN) || 60, ms: 60_000 };
+
+const PROVIDER_WINDOWS: Record<GeocodeProvider, Window> = {
+  google: { limit: 10, ms: 1000 },
+  geoapify: { limit: 5, ms: 1000 },    // free plan: 5 requests/s
+  mapbox: { limit: 10, ms: 1000 },
+  nominatim: { limit: 1, ms: 1000 },   // usage policy: absolute max 1 request/s
+};
+
+const hits = new Map<string, number[]>();  // bucket → request timestamps inside the window
+
+/** Records a request in `bucket`; returns 0 when allowed, else ms until a slot frees up. */
+function take(bucket: string, w: Window, now = Date.now()) {
+  const recent = (hits.get(bucket) || []).filter((t) => t > now - w.ms);
+  if (recent.length >= w.limit) {
+    hits.set(bucket, recent);
+    return recent[0] + w.ms - now;
+  }
+  recent.push(now);
+  hits.set(bucket, recent);
+  // Keep the map from growing with one-off IPs
+  if (hits.size > 5000) for (const [k, ts] of hits) if (!ts.some((t) => t > now - 60_000)) hits.delete(k);
+  return 0;
+}
+
+/** Client IP from the proxy headers (Vercel/most hosts set x-forwarded-for). */
+export function clientIp(headers: Headers) {
+  return headers.get('x-forwarded-for')?.split(',')[0]?.trim() || headers.get('x-real-ip') || 'unknown';
+}
+
+export function takeIpSlot(ip: string) {
+  return take(`ip:${ip}`, IP_WINDOW);
+}
+
+export function takeProviderSlot(provider: GeocodeProvider) {
+  return take(`provider:${provider}`, PROVIDER_WINDOWS[provider]);
+}
+
+// Env var holding each provider's key (Nominatim needs none)
+const PROVIDER_KEYS: Record<GeocodeProvider, string | null> = {
+  google: 'GOOGLE_MAPS_API_KEY', geoapify: 'GEOAPIFY_API_KEY', mapbox: 'MAPBOX_TOKEN', nominatim: null,
+};
+
+export function providerConfigured(provider: GeocodeProvider) {
+  const env = PROVIDER_KEYS[provider];
+  return !env || !!process.env[env];
+}
+
+export function providerWindow(provider: GeocodeProvider) {
+  return { limit: PROVIDER_WINDOWS[provider].limit, per_ms: PROVIDER_WINDOWS[provider].ms };
+}
+
+export type Via = <T>(provider: GeocodeProvider, empty: T, call: () => Promise<T>) => Promise<T>;
+
+/**
+ * Gate for one request's provider calls: unconfigured, over-limit or tripped (circuit breaker open)
+ * providers return `empty`, and so does a call that fails — its error is recorded for /api/geocode?health=1.
+ * `limited` and `failed` say which providers were skipped that way, so an empty answer isn't mistaken
+ * for "nothing there"; `answered` holds the ones whose call went through.
+ */
+export function providerGate() {
+  const limited = new Map<GeocodeProvider, number>(); // provider → ms until it frees up
+  const failed = new Set<GeocodeProvider>();           // breaker open, or the call threw
+  const answered = new Set<GeocodeProvider>();
+  const via: Via = async (provider, empty, call) => {
+    if (!providerConfigured(provider)) return empty;
+    const wait = takeProviderSlot(provider);
+    if (wait) { limited.set(provider, Math.max(wait, limited.get(provider) || 0)); return empty; }
+    if (!admit(provider)) { failed.add(provider); return empty; }
+    const started = Date.now();
+    try {
+      const out = await call();
+      recordCall(provider, Date.now() - started, null);
+      answered.add(provider);
+      return out;
+    } catch (e) {
+      recordCall(provider, Date.now() - started, (e as Error)?.message || String(e));
+      failed.add(provider);
+      return empty;
+    }
+  };
+  return { via, limited, failed, answered };
+}
+
+export function tooMany(waitMs: number, cache: { status: string }) {
+  const retryAfter = Math.max(1, Math.ceil(waitMs / 1000));
+  return new Response(JSON.stringify({ error: 'Too many geocoding requests — try again shortly', retry_after: retryAfter, cache }, null, 2), {
+    status: 429,
+    headers: { 'content-type': 'application/json', 'retry-after': String(retryAfter), 'x-geocode-cache': cache.status },
+  });
+}
+
+export function unavailable(failed: Iterable<GeocodeProvider>, cache: { status: string }) {
+  return new Response(JSON.stringify({ error: 'Geocoding providers are unavailable — try again shortly', failed: [...failed], cache }, null, 2), {
+    status: 503,
+    headers: { 'content-type': 'application/json', 'x-geocode-cache': cache.status },
+  });
+}
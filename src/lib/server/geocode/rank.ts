@@ -0,0 +1,133 @@
+// src/lib/server/geocode/rank.ts
+// Merging and ranking of /api/geocode candidates. Providers often return the same place with
+// slightly different labels ("123 Main St" vs "123 Main Street, Springfield, Illinois"), so
+// candidates within CLUSTER_M of each other whose labels share most of their words become one
+// entry listing every provider that agreed. Ranking then rewards agreement between services,
+// closeness to the `near` bias point and a city/state match, on top of the configured weights.
+import { distanceMeters } from '@/lib/alertAreas';
+import { countryCode, foldName, regionCode } from '@/lib/regions';
+import { SOURCE_SERVICE, type GeocodeSource } from './config';
+
+/** One provider's result, as returned by the candidate functions in /api/geocode. */
+export type Candidate = {
+  provider: string;
+  label: string;
+  lat: number;
+  lng: number;
+  city?: string;
+  state?: string;
+  state_code?: string;
+  country_code?: string;
+};
+
+/** A merged result: `provider` is the best-ranked member's, `providers` every source that agreed. */
+export type RankedCandidate = Candidate & {
+  providers: string[];
+  distance_m?: number;
+  score: number;
+  confidence: number;  // 0–1, for display
+};
+
+const CLUSTER_M = 50;
+const LABEL_OVERLAP = 0.5;          // share of the shorter label's words the other must contain
+const AGREEMENT_BONUS = 25;         // per extra service that found the place
+const DISTANCE_BONUS = 30;          // at the bias point, decaying with distance…
+const DISTANCE_SCALE_M = 10_000;    // …to about a third 10 km out
+const STOP_WORDS = new Set(['usa', 'us', 'united', 'states', 'of', 'america', 'the']);
+
+function labelWords(label: string) {
+  return new Set(foldName(label).replace(/#/g, ' ').split(' ').filter((w) => w.length > 1 && !STOP_WORDS.has(w)));
+}
+function similarLabels(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return false;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return shared / Math.min(a.size, b.size) >= LABEL_OVERLAP;
+}
+
+type Member = Candidate & { source: GeocodeSource; base: number; words: Set<string> };
+
+/**
+ * `buckets[i]` holds the results of `order[i]`, in that provider's own ranking. Returns merged
+ * candidates, best first.
+ */
+export function rankCandidates(
+  buckets: Candidate[][],
+  opts: {
+    order: GeocodeSource[];
+    weights: Record<GeocodeSource, number>;
+    near: { lat: number; lng: number } | null;
+    expect: { city?: string; state?: string; country?: string };
+  }
+): RankedCandidate[] {
+  const { order, weights, near, expect } = opts;
+
+  // Base score: provider weight, then configured order and each provider's own ranking as tie-breaks
+  let members: Member[] = buckets.flatMap((list, i) =>
+    list
+      .filter((c) => Number.isFinite(c.lat) && Number.isFinite(c.lng))
+      .map((c, rank) => ({ ...c, source: order[i], base: 100 * weights[order[i]] - i * 10 - Math.min(rank, 9), words: labelWords(c.label) }))
+  );
+
+  // Only keep the expected country (US when only a state was given)
+  if (expect.country) members = members.filter((c) => countryCode(c.country_code) === expect.country);
+
+  // Cluster, strongest members first so each cluster is represented by its best result
+  const clusters: Member[][] = [];
+  for (const m of members.sort((a, b) => b.base - a.base)) {
+    const home = clusters.find(([head]) =>
+      distanceMeters([head.lat, head.lng], [m.lat, m.lng]) <= CLUSTER_M && similarLabels(head.words, m.words)
+    );
+    if (home) home.push(m);
+    else clusters.push([m]);
+  }
+
+  const answered = new Set(members.map((m) => SOURCE_SERVICE[m.source])).size;
+  const cityWanted = foldName(expect.city);
+  const stateWanted = expect.state ? regionCode(expect.country, expect.state) || foldName(expect.state) : '';
+
+  const ranked = clusters.map((cluster): RankedCandidate => {
+    const [head] = cluster;
+    const pick = <K extends 'city' | 'state' | 'state_code' | 'country_code'>(k: K) => cluster.find((m) => m[k])?.[k];
+    const merged: Candidate = {
+      provider: head.provider,
+      label: head.label,
+      lat: head.lat,
+      lng: head.lng,
+      city: pick('city'),
+      state: pick('state'),
+      state_code: pick('state_code'),
+      country_code: pick('country_code'),
+    };
+
+    // Agreement counts services, not sources: Google's two endpoints share one dataset
+    const services = new Set(cluster.map((m) => SOURCE_SERVICE[m.source])).size;
+    const distance = near ? distanceMeters([near.lat, near.lng], [merged.lat, merged.lng]) : null;
+    const stateMatch =
+      !!stateWanted &&
+      [merged.state_code, merged.state].some((v) => !!v && (regionCode(expect.country, v) || foldName(v)) === stateWanted);
+    const cityMatch = !!cityWanted && !!merged.city && foldName(merged.city).includes(cityWanted);
+
+    let score = head.base + AGREEMENT_BONUS * (services - 1);
+    if (distance != null) score += DISTANCE_BONUS * Math.exp(-distance / DISTANCE_SCALE_M);
+    if (stateMatch) score += 30;
+    if (cityMatch) score += 20;
+
+    // Confidence: how many of the services that answered agree (up to three), how close, how well it matches
+    const agreement = Math.min(1, services / Math.max(1, Math.min(3, answered)));
+    const closeness = distance == null ? 0.5 : Math.exp(-distance / (2 * DISTANCE_SCALE_M));
+    const wanted = (cityWanted ? 1 : 0) + (stateWanted ? 1 : 0);
+    const match = wanted ? ((cityMatch ? 1 : 0) + (stateMatch ? 1 : 0)) / wanted : 0.5;
+    const confidence = 0.5 * agreement + 0.25 * closeness + 0.25 * match;
+
+    return {
+      ...merged,
+      providers: [...new Set(cluster.map((m) => m.provider))],
+      ...(distance != null ? { distance_m: Math.round(distance) } : {}),
+      score: Math.round(score * 10) / 10,
+      confidence: Math.round(confidence * 100) / 100,
+    };
+  });
+
+  return ranked.sort((a, b) => b.score - a.score);
+}
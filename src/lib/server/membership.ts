@@ -0,0 +1,53 @@
+// src/lib/server/membership.ts
+// Joining a room: open rooms approve straight away, approval rooms hold the request
+// for an owner/admin (who gets an email about it).
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RoomSettings } from '@/lib/roles';
+import { MEMBER_COLUMNS, emailVerifiedAt, getMembership, type Caller, type MemberRow } from './supabase';
+import { notifyRoomAdmins } from './notify';
+
+export type JoinResult = { member: MemberRow; created: boolean };
+
+/**
+ * Returns the caller's member row for `room`, creating it if needed. An existing row keeps
+ * its status (a denied or suspended member can't re-approve themselves by joining again).
+ * Phone numbers are added separately, through SMS verification (/api/members/verify).
+ */
+export async function requestMembership(
+  admin: SupabaseClient,
+  room: RoomSettings,
+  caller: Caller & { email: string },
+): Promise<JoinResult> {
+  const existing = await getMembership(admin, room.id, caller);
+  if (existing) return { member: existing, created: false };
+
+  const open = room.join_mode === 'open';
+  const { data, error } = await admin
+    .from('members')
+    .insert({
+      room_id: room.id,
+      email: caller.email,
+      approved: open,
+      email_enabled: true,
+      sms_enabled: false,
+      email_verified_at: emailVerifiedAt(caller),
+      role: 'member',
+      decided_at: open ? new Date().toISOString() : null,
+    })
+    .select(MEMBER_COLUMNS)
+    .single();
+  if (error) throw new Error(error.message);
+
+  if (!open) {
+    // Best effort: the request is saved even if the email can't be sent
+    await notifyRoomAdmins(admin, {
+      room_id: room.id,
+      subject: `Join request for ${room.name || 'your room'}`,
+      text: [
+        `${caller.email} asked to join ${room.name || `room ${room.id}`}.`,
+        'Approve or deny the request under Settings → Room roles.',
+      ].join('\n'),
+    }).catch(() => null);
+  }
+  return { member: data as MemberRow, created: true };
+}
@@ -0,0 +1,273 @@
+// src/lib/server/notify.ts
+// Fan-out of a new-sighting alert to a room's approved members (email, SMS, Web Push to subscribed
+// browsers) and to room-wide Slack/Discord/webhook posts; providers/ decides who sends each.
+// Deliveries go through the notification outbox (outbox.ts): they're recorded first, tried once
+// here, and retried later if a provider fails.
+// Only verified contacts are used (see verification.ts); every email carries a signed unsubscribe link.
+// Members with alert areas only hear about sightings inside them, and nothing during their quiet hours.
+// Members on an hourly/daily digest get the sighting queued in digest_items (server/digest.ts) instead.
+// Wording comes from the room's templates (notifyTemplates.ts) in the member's language, or the room's.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MemberRow } from './supabase';
+import { siteUrl, unsubscribeParts } from './unsubscribe';
+import { PUSH_SUBSCRIPTION_COLUMNS, type PushPayload, type PushSubscriptionRow } from './push';
+import { enqueue, processOutbox, type OutboxInsert, type OutboxKind } from './outbox';
+import { ROOM_CHANNELS, providerFor } from './providers';
+import { roomPath, sightingPath } from '@/lib/deepLinks';
+import type { DigestMode } from '@/lib/digest';
+import { ALERT_AREA_COLUMNS, inQuietHours, nearestAreaDistance, quietHoursOf, wantsAlertAt, type AlertArea } from '@/lib/alertAreas';
+import {
+  escapeHtml, isLocale, renderTemplate, sightingVars, strings, templateFor, textToHtml,
+  type Locale, type RoomTemplates,
+} from '@/lib/notifyTemplates';
+
+export { escapeHtml };
+
+export type NotifyParams = {
+  room_id: string;
+  title: string;
+  notes?: string | null;
+  address_text?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  reporter?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  when_iso?: string | null;
+  sighting_id?: string | null;  // push notifications open this sighting on the map
+  kind?: OutboxKind;            // 'test' for manual sends from /api/notify
+};
+
+export type NotifyResult = {
+  ok: boolean;
+  where?: string;
+  error?: string;
+  counts?: { email: number; sms: number; push?: number; posts?: number };  // posts: Slack/Discord/webhook
+  notes?: {
+    emailConfigured: boolean;
+    smsConfigured: boolean;
+    pushConfigured?: boolean;
+    recipients: { emails: string[]; phones: string[] };
+    emailErr: string | null;
+    smsErr: string | null;
+    pushErr?: string | null;
+    postErr?: string | null;
+    skipped?: { outsideAreas: number; quietHours: number };
+    digested?: number;  // deliveries held for a member's hourly/daily digest
+    queued?: number;    // outbox rows written
+    retrying?: number;  // of those, failed the first attempt and will be retried
+  };
+};
+
+/** Which channels can send right now (providers/ picks the provider per channel from env). */
+export function notifyEnv() {
+  return {
+    emailConfigured: !!providerFor('email'),
+    smsConfigured: !!providerFor('sms'),
+    pushConfigured: !!providerFor('push'),
+  };
+}
+
+export async function notifyRoom(admin: SupabaseClient, params: NotifyParams): Promise<NotifyResult> {
+  const { emailConfigured, smsConfigured, pushConfigured } = notifyEnv();
+  const { room_id, title, notes, address_text, lat, lng, when_iso, sighting_id } = params;
+
+  const { data: room, error: rErr } = await admin
+    .from('rooms')
+    .select('id, name, short_code, timezone, locale, notify_templates')
+    .eq('id', room_id)
+    .maybeSingle();
+  if (rErr) return { ok: false, where: 'select room', error: rErr.message };
+
+  const { data: members, error: mErr } = await admin
+    .from('members')
+    .select('id, email, phone_e164, approved, email_enabled, sms_enabled, email_verified_at, phone_verified_at, quiet_start, quiet_end, quiet_tz, email_digest, sms_digest, locale')
+    .eq('room_id', room_id)
+    .eq('approved', true);
+
+  if (mErr) return { ok: false, where: 'select members', error: mErr.message };
+
+  const { data: areaRows, error: aErr } = await admin.from('alert_areas').select(ALERT_AREA_COLUMNS).eq('room_id', room_id);
+  if (aErr) return { ok: false, where: 'select alert_areas', error: aErr.message };
+  const areasBy = new Map<string, AlertArea[]>();
+  for (const a of (areaRows || []) as Array<AlertArea & { member_id: string }>) {
+    areasBy.set(a.member_id, [...(areasBy.get(a.member_id) || []), a]);
+  }
+
+  const skipped = { outsideAreas: 0, quietHours: 0 };
+  const inArea = ((members || []) as MemberRow[]).filter(m => {
+    if (!wantsAlertAt(areasBy.get(m.id) || [], lat, lng)) { skipped.outsideAreas++; return false; }
+    return true;
+  });
+  const list = inArea.filter(m => {
+    if (inQuietHours(quietHoursOf(m))) { skipped.quietHours++; return false; }
+    return true;
+  });
+  const emailOk = (m: MemberRow) => !!((m.email_enabled ?? true) && m.email && m.email_verified_at);
+  const smsOk = (m: MemberRow) => !!((m.sms_enabled ?? false) && m.phone_e164 && m.phone_verified_at);
+  // Digest members get this sighting in their next summary instead (quiet hours are applied when
+  // the summary goes out). Test sends are always instant.
+  const digesting = (mode: DigestMode | undefined) => !!sighting_id && (params.kind ?? 'sighting') === 'sighting' && (mode ?? 'instant') !== 'instant';
+
+  const emailTo = list.filter(m => emailOk(m) && !digesting(m.email_digest));
+  const emails = emailTo.map(m => m.email!) as string[];
+
+  const smsTo = list.filter(m => smsOk(m) && !digesting(m.sms_digest));
+  const phones = smsTo.map(m => m.phone_e164!) as string[];
+
+  const digestRows = [
+    ...(emailConfigured ? inArea.filter(m => emailOk(m) && digesting(m.email_digest)).map(m => ({ member_id: m.id, channel: 'email' })) : []),
+    ...(smsConfigured ? inArea.filter(m => smsOk(m) && digesting(m.sms_digest)).map(m => ({ member_id: m.id, channel: 'sms' })) : []),
+  ].map(r => ({ ...r, room_id, sighting_id: sighting_id! }));
+  if (digestRows.length) {
+    const { error: dErr } = await admin.from('digest_items').upsert(digestRows, { onConflict: 'member_id,channel,sighting_id', ignoreDuplicates: true });
+    if (dErr) return { ok: false, where: 'insert digest_items', error: dErr.message };
+  }
+
+  const roomRef = { id: room_id, short_code: room?.short_code };
+  const appPath = sighting_id ? sightingPath(roomRef, sighting_id) : roomPath(roomRef);
+  const link = siteUrl() ? `${siteUrl()}${appPath}` : null;
+
+  // Rendered per language (and per member when they have alert areas, for {{distance}})
+  const roomLocale: Locale = isLocale(room?.locale) ? room.locale : 'en';
+  const templates = (room?.notify_templates || {}) as RoomTemplates;
+  const render = (locale: Locale, distance_m: number | null, withLink = true) => {
+    const tpl = templateFor(templates, locale);
+    const vars = sightingVars({
+      ...params, room_name: room?.name || room?.short_code || 'your room', link: withLink ? link : null,
+      distance_m, tz: room?.timezone || 'UTC', locale,
+    });
+    return { subject: renderTemplate(tpl.subject, vars), body: renderTemplate(tpl.body, vars), short: renderTemplate(tpl.short, vars) };
+  };
+  const localeOf = (m: MemberRow): Locale => (isLocale(m.locale) ? m.locale : roomLocale);
+  const distanceTo = (memberId: string) => nearestAreaDistance(areasBy.get(memberId) || [], lat, lng);
+
+  // One outbox row per delivery; the first attempt runs now, retries from /api/cron/outbox
+  const base = { room_id, sighting_id: sighting_id ?? null, kind: params.kind ?? 'sighting' } as const;
+  const rows: OutboxInsert[] = [];
+  if (emailConfigured) {
+    for (const m of emailTo) {
+      const locale = localeOf(m);
+      const msg = render(locale, distanceTo(m.id));
+      const unsub = unsubscribeParts(m.id, locale);
+      rows.push({
+        ...base, member_id: m.id, channel: 'email', target: m.email!,
+        message: { subject: msg.subject, html: textToHtml(msg.body) + unsub.html, text: msg.body + unsub.text, headers: unsub.headers },
+      });
+    }
+  }
+  if (smsConfigured) {
+    for (const m of smsTo) {
+      const locale = localeOf(m);
+      const msg = render(locale, distanceTo(m.id));
+      rows.push({ ...base, member_id: m.id, channel: 'sms', target: m.phone_e164!, message: { text: `${msg.short.slice(0, 1450)}\n${strings(locale).replyStop}` } });
+    }
+  }
+
+  // Web Push (subscriptions aren't contacts to verify: the browser permission prompt is the opt-in)
+  let pushErr: string | null = null;
+  if (pushConfigured && list.length) {
+    const { data: subs, error: pErr } = await admin
+      .from('push_subscriptions')
+      .select(PUSH_SUBSCRIPTION_COLUMNS)
+      .eq('room_id', room_id)
+      .in('member_id', list.map(m => m.id));
+    if (pErr) pushErr = pErr.message;
+    const byId = new Map(list.map(m => [m.id, m]));
+    for (const sub of (subs || []) as PushSubscriptionRow[]) {
+      const m = byId.get(sub.member_id);
+      // The notification itself is the link, so it's left out of the body
+      const msg = render(m ? localeOf(m) : roomLocale, distanceTo(sub.member_id), false);
+      const payload: PushPayload = {
+        title: msg.subject,
+        body: msg.short.slice(0, 240),
+        url: appPath,
+        tag: sighting_id ? `sighting-${sighting_id}` : undefined,
+      };
+      rows.push({ ...base, member_id: sub.member_id, channel: 'push', target: sub.endpoint, push_subscription_id: sub.id, message: { text: payload.body, push: payload } });
+    }
+  }
+
+  // Room-wide posts (Slack, Discord, webhook): one each, regardless of members' alert settings
+  const post = render(roomLocale, null);
+  for (const channel of ROOM_CHANNELS) {
+    const provider = providerFor(channel);
+    if (!provider) continue;
+    rows.push({
+      ...base, channel, target: provider.name,
+      message: {
+        subject: post.subject, text: post.body, url: link ?? undefined,
+        data: { event: base.kind === 'test' ? 'notify.test' : 'sighting.created', room_id, sighting_id: sighting_id ?? null, title, notes: notes ?? null, address_text: address_text ?? null, lat: lat ?? null, lng: lng ?? null, when_iso: when_iso ?? null },
+      },
+    });
+  }
+
+  let ids: string[];
+  try {
+    ids = await enqueue(admin, rows);
+  } catch (e) {
+    return { ok: false, where: 'insert notification_outbox', error: (e as Error)?.message || String(e) };
+  }
+  const sent = await processOutbox(admin, { ids });
+
+  return {
+    ok: true,
+    counts: { email: sent.sentBy.email, sms: sent.sentBy.sms, push: sent.sentBy.push, posts: ROOM_CHANNELS.reduce((n, c) => n + sent.sentBy[c], 0) },
+    notes: {
+      emailConfigured,
+      smsConfigured,
+      recipients: { emails, phones },
+      emailErr: sent.errors.email ?? null,
+      smsErr: sent.errors.sms ?? null,
+      pushConfigured,
+      pushErr: pushErr ?? sent.errors.push ?? null,
+      postErr: sent.errors.slack ?? sent.errors.discord ?? sent.errors.webhook ?? null,
+      skipped,
+      digested: digestRows.length,
+      queued: ids.length,
+      retrying: sent.retrying,
+    },
+  };
+}
+
+/** Emails a room's approved owners/admins (e.g. about a pending join request). */
+export async function notifyRoomAdmins(
+  admin: SupabaseClient,
+  params: { room_id: string; subject: string; text: string },
+): Promise<NotifyResult> {
+  const { emailConfigured, smsConfigured } = notifyEnv();
+  const { room_id, subject, text } = params;
+
+  const { data, error } = await admin
+    .from('members')
+    .select('id, email, email_enabled, email_verified_at')
+    .eq('room_id', room_id)
+    .eq('approved', true)
+    .in('role', ['owner', 'admin']);
+  if (error) return { ok: false, where: 'select members', error: error.message };
+
+  const emailTo = ((data || []) as MemberRow[]).filter(m => (m.email_enabled ?? true) && m.email && m.email_verified_at);
+  const emails = emailTo.map(m => m.email!);
+
+  const html = `<div style="font-family:system-ui,Segoe UI,Roboto,Helvetica,Arial,sans-serif;line-height:1.45">
+       ${text.split('\n').map(l => `<p>${escapeHtml(l)}</p>`).join('')}
+       <p><a href="${siteUrl()}${roomPath({ id: room_id })}">Open room settings</a></p>
+     </div>`;
+  const rows: OutboxInsert[] = emailConfigured
+    ? emailTo.map(m => {
+        const unsub = unsubscribeParts(m.id);
+        return {
+          room_id, kind: 'join_request', member_id: m.id, channel: 'email', target: m.email!,
+          message: { subject, html: html + unsub.html, text: text + unsub.text, headers: unsub.headers },
+        } satisfies OutboxInsert;
+      })
+    : [];
+  const sent = await processOutbox(admin, { ids: await enqueue(admin, rows) });
+
+  return {
+    ok: true,
+    counts: { email: sent.sentBy.email, sms: 0 },
+    notes: { emailConfigured, smsConfigured, recipients: { emails, phones: [] }, emailErr: sent.errors.email ?? null, smsErr: null },
+  };
+}
@@ -0,0 +1,146 @@
+// src/lib/server/outbox.ts
+// Durable notification delivery. notify.ts writes one notification_outbox row per intended
+// email/SMS/push/room post; processOutbox claims due rows, sends them through the channel's
+// provider (providers/) and reschedules failures with exponential backoff. It runs right after
+// enqueueing (first attempt) and from /api/cron/outbox (retries). Provider webhooks (/api/sms/status, /api/email/events) move rows to delivered/failed,
+// so the table is also the per-sighting delivery log room admins see.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PushPayload } from './push';
+import { providerFor, type SendResult } from './providers';
+
+export type OutboxChannel = 'email' | 'sms' | 'push' | 'slack' | 'discord' | 'webhook';
+export type OutboxKind = 'sighting' | 'test' | 'join_request' | 'digest';
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'delivered' | 'failed';
+
+/** Everything needed to (re)send one delivery, rendered at enqueue time. */
+export type OutboxMessage = {
+  subject?: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+  url?: string;                       // absolute link to the sighting (chat posts, webhooks)
+  push?: PushPayload;
+  data?: Record<string, unknown>;     // structured event for NOTIFY_WEBHOOK_URL
+};
+
+export type OutboxRow = {
+  id: string;
+  room_id: string;
+  sighting_id: string | null;
+  member_id: string | null;
+  kind: OutboxKind;
+  channel: OutboxChannel;
+  target: string;                     // email / phone / push endpoint; provider name for room channels
+  push_subscription_id: string | null;
+  message: OutboxMessage;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  provider_id: string | null;
+  provider_status: string | null;
+  created_at: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+};
+
+export type OutboxInsert = Pick<OutboxRow, 'room_id' | 'kind' | 'channel' | 'target' | 'message'>
+  & Partial<Pick<OutboxRow, 'sighting_id' | 'member_id' | 'push_subscription_id'>>;
+
+/** Columns for the delivery log (no message bodies). */
+export const OUTBOX_LOG_COLUMNS =
+  'id, sighting_id, member_id, kind, channel, target, status, attempts, next_attempt_at, last_error, provider_id, provider_status, created_at, sent_at, delivered_at';
+
+export const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 30_000;
+const MAX_DELAY_MS = 6 * 3600 * 1000;
+
+/** Delay before attempt `attempts + 1`: 30s, 1m, 2m, 4m, … capped at 6h, ±20% jitter. */
+export function backoffMs(attempts: number) {
+  const d = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(d * (0.8 + Math.random() * 0.4));
+}
+
+export async function enqueue(admin: SupabaseClient, rows: OutboxInsert[]): Promise<string[]> {
+  if (!rows.length) return [];
+  const { data, error } = await admin.from('notification_outbox').insert(rows).select('id');
+  if (error) throw new Error(error.message);
+  return (data || []).map((r: { id: string }) => r.id);
+}
+
+function deliver(admin: SupabaseClient, row: OutboxRow): Promise<SendResult> {
+  const provider = providerFor(row.channel);
+  // Left pending: the channel may be configured again before attempts run out
+  if (!provider) return Promise.resolve({ ok: false, error: `No ${row.channel} provider is configured` });
+  return provider.send(admin, { key: `outbox-${row.id}`, target: row.target, message: row.message, push_subscription_id: row.push_subscription_id });
+}
+
+export type ProcessResult = {
+  claimed: number;
+  sent: number;
+  sentBy: Record<OutboxChannel, number>;
+  retrying: number;
+  failed: number;
+  errors: Partial<Record<OutboxChannel, string>>;  // first error per channel
+};
+
+/**
+ * Claims due rows (only `ids` when given), sends them and records the outcome.
+ * Failures are retried with backoff until MAX_ATTEMPTS, then marked failed.
+ */
+export async function processOutbox(admin: SupabaseClient, opts: { limit?: number; ids?: string[] } = {}): Promise<ProcessResult> {
+  const result: ProcessResult = { claimed: 0, sent: 0, sentBy: { email: 0, sms: 0, push: 0, slack: 0, discord: 0, webhook: 0 }, retrying: 0, failed: 0, errors: {} };
+  if (opts.ids && !opts.ids.length) return result;
+
+  const { data, error } = await admin.rpc('claim_notification_outbox', { p_limit: opts.limit ?? opts.ids?.length ?? 50, p_ids: opts.ids ?? null });
+  if (error) throw new Error(error.message);
+  const rows = (data || []) as OutboxRow[];
+  result.claimed = rows.length;
+
+  await Promise.all(rows.map(async (row) => {
+    let d: SendResult;
+    try { d = await deliver(admin, row); }
+    catch (e) { d = { ok: false, error: (e as Error)?.message || String(e) }; }
+
+    const now = new Date();
+    let patch: Record<string, unknown>;
+    if (d.ok) {
+      result.sent++;
+      result.sentBy[row.channel]++;
+      patch = { status: 'sent', sent_at: now.toISOString(), last_error: null, provider_id: d.provider_id ?? null, provider_status: d.provider_status ?? null };
+    } else {
+      result.errors[row.channel] ??= d.error;
+      const giveUp = d.permanent || row.attempts >= MAX_ATTEMPTS;
+      if (giveUp) result.failed++; else result.retrying++;
+      patch = giveUp
+        ? { status: 'failed', last_error: d.error }
+        : { status: 'pending', last_error: d.error, next_attempt_at: new Date(now.getTime() + backoffMs(row.attempts)).toISOString() };
+    }
+    const { error: uErr } = await admin
+      .from('notification_outbox')
+      .update({ ...patch, locked_until: null, updated_at: now.toISOString() })
+      .eq('id', row.id);
+    if (uErr) result.errors[row.channel] ??= uErr.message;
+  }));
+
+  return result;
+}
+
+/** Applies a provider status callback to the row it sent (matched by provider id). */
+export async function recordProviderStatus(
+  admin: SupabaseClient,
+  providerId: string,
+  update: { provider_status: string; status?: 'delivered' | 'failed'; error?: string | null },
+) {
+  const now = new Date().toISOString();
+  const patch: Record<string, unknown> = { provider_status: update.provider_status, updated_at: now };
+  if (update.status === 'delivered') Object.assign(patch, { status: 'delivered', delivered_at: now, last_error: null });
+  if (update.status === 'failed') Object.assign(patch, { status: 'failed', last_error: update.error || update.provider_status });
+
+  let q = admin.from('notification_outbox').update(patch).eq('provider_id', providerId);
+  // Callbacks can arrive out of order: an intermediate status must not undo a final one
+  if (!update.status) q = q.eq('status', 'sent');
+  const { data, error } = await q.select('id, member_id');
+  if (error) throw new Error(error.message);
+  return (data || []) as Array<{ id: string; member_id: string | null }>;
+}
@@ -0,0 +1,59 @@
+// src/lib/server/providers/chat.ts
+// Room-wide channels: one post per alert rather than one per member.
+//   Slack   — SLACK_WEBHOOK_URL (incoming webhook)
+//   Discord — DISCORD_WEBHOOK_URL
+//   Webhook — NOTIFY_WEBHOOK_URL gets the event as JSON; with NOTIFY_WEBHOOK_SECRET the body is
+//             signed in `X-UFO-Signature: sha256=<hex HMAC>`. `X-UFO-Delivery` is stable across retries.
+import { createHmac } from 'crypto';
+import { httpFailure, type NotificationProvider, type SendResult } from './types';
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<SendResult & { res?: Response }> {
+  try {
+    const payload = JSON.stringify(body);
+    const res = await fetch(url, { method: 'POST', headers: { 'content-type': 'application/json', ...headers }, body: payload });
+    if (!res.ok) return httpFailure(res.status, `HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`);
+    return { ok: true, provider_status: String(res.status), res };
+  } catch (e) {
+    return { ok: false, error: (e as Error)?.message || String(e) };
+  }
+}
+
+export const slackProvider: NotificationProvider = {
+  name: 'slack',
+  channel: 'slack',
+  configured: () => !!process.env.SLACK_WEBHOOK_URL,
+  async send(_admin, { message }) {
+    const link = message.url ? `\n<${message.url}|Open in the app>` : '';
+    const r = await postJson(process.env.SLACK_WEBHOOK_URL!, { text: `${message.text}${link}` });
+    return r.ok ? { ok: true, provider_status: 'posted' } : r;
+  },
+};
+
+export const discordProvider: NotificationProvider = {
+  name: 'discord',
+  channel: 'discord',
+  configured: () => !!process.env.DISCORD_WEBHOOK_URL,
+  async send(_admin, { message }) {
+    const link = message.url ? `\n${message.url}` : '';
+    const url = new URL(process.env.DISCORD_WEBHOOK_URL!);
+    url.searchParams.set('wait', 'true'); // answer with the created message (its id)
+    const r = await postJson(url.toString(), { content: `${message.text.slice(0, 2000 - link.length)}${link}` });
+    if (!r.ok) return r;
+    const posted = (await r.res?.json().catch(() => null)) as { id?: string } | null;
+    return { ok: true, provider_id: posted?.id ?? null, provider_status: 'posted' };
+  },
+};
+
+export const webhookProvider: NotificationProvider = {
+  name: 'webhook',
+  channel: 'webhook',
+  configured: () => !!process.env.NOTIFY_WEBHOOK_URL,
+  async send(_admin, { key, message }) {
+    const body = { delivery: key, subject: message.subject ?? null, text: message.text, url: message.url ?? null, ...message.data };
+    const headers: Record<string, string> = { 'x-ufo-delivery': key };
+    const secret = process.env.NOTIFY_WEBHOOK_SECRET;
+    if (secret) headers['x-ufo-signature'] = `sha256=${createHmac('sha256', secret).update(JSON.stringify(body)).digest('hex')}`;
+    const r = await postJson(process.env.NOTIFY_WEBHOOK_URL!, body, headers);
+    return r.ok ? { ok: true, provider_status: r.provider_status } : r;
+  },
+};
@@ -0,0 +1,60 @@
+// src/lib/server/providers/index.ts
+// Which provider sends each channel, chosen from env:
+//   EMAIL_PROVIDER=resend|smtp|sink   SMS_PROVIDER=twilio|sink   PUSH_PROVIDER=webpush|sink
+//   SLACK_PROVIDER / DISCORD_PROVIDER / WEBHOOK_PROVIDER=slack|discord|webhook|sink
+// Unset, a channel uses the first provider whose credentials are present (in the order below).
+// NOTIFY_SINK=1 sends every channel without an explicit choice to the dev sink (sink.ts).
+import type { OutboxChannel } from '../outbox';
+import type { NotificationProvider } from './types';
+import { resendProvider } from './resend';
+import { smtpProvider } from './smtp';
+import { twilioProvider } from './twilio';
+import { webPushProvider } from './webpush';
+import { discordProvider, slackProvider, webhookProvider } from './chat';
+import { sinkDir, sinkProvider } from './sink';
+
+export type { NotificationProvider, ProviderSend, SendResult } from './types';
+
+export const CHANNELS: OutboxChannel[] = ['email', 'sms', 'push', 'slack', 'discord', 'webhook'];
+
+/** Channels posted once per alert for the whole room (not per member). */
+export const ROOM_CHANNELS: OutboxChannel[] = ['slack', 'discord', 'webhook'];
+
+const PROVIDERS: Record<OutboxChannel, NotificationProvider[]> = {
+  email: [resendProvider, smtpProvider],
+  sms: [twilioProvider],
+  push: [webPushProvider],
+  slack: [slackProvider],
+  discord: [discordProvider],
+  webhook: [webhookProvider],
+};
+
+function choiceFor(channel: OutboxChannel) {
+  const explicit = process.env[`${channel.toUpperCase()}_PROVIDER`]?.trim().toLowerCase();
+  if (explicit) return explicit;
+  const sink = process.env.NOTIFY_SINK;
+  return sink && sink !== '0' && sink !== 'false' ? 'sink' : null;
+}
+
+/** The provider for a channel, or null when the channel is off (or its chosen provider lacks credentials). */
+export function providerFor(channel: OutboxChannel): NotificationProvider | null {
+  const choice = choiceFor(channel);
+  if (choice === 'sink') return sinkProvider(channel);
+  if (choice === 'none' || choice === 'off') return null;
+  const candidates = choice ? PROVIDERS[channel].filter((p) => p.name === choice) : PROVIDERS[channel];
+  return candidates.find((p) => p.configured()) ?? null;
+}
+
+/** For health checks: the active provider per channel, plus misconfigured explicit choices. */
+export function providerStatus() {
+  const channels = Object.fromEntries(CHANNELS.map((c) => [c, providerFor(c)?.name ?? null])) as Record<OutboxChannel, string | null>;
+  const problems = CHANNELS.flatMap((c) => {
+    const choice = choiceFor(c);
+    if (!choice || choice === 'sink' || choice === 'none' || choice === 'off' || channels[c]) return [];
+    return PROVIDERS[c].some((p) => p.name === choice)
+      ? [`${c}: ${choice} is missing credentials`]
+      : [`${c}: unknown provider "${choice}" (expected ${[...PROVIDERS[c].map((p) => p.name), 'sink'].join(', ')})`];
+  });
+  const usesSink = Object.values(channels).includes('sink');
+  return { channels, problems, sinkDir: usesSink ? sinkDir() : null };
+}
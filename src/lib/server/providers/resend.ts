@@ -0,0 +1,19 @@
+// src/lib/server/providers/resend.ts
+// Email via Resend (RESEND_API_KEY, RESEND_FROM_EMAIL). Delivery events: /api/email/events.
+import { Resend } from 'resend';
+import type { NotificationProvider } from './types';
+
+export const resendProvider: NotificationProvider = {
+  name: 'resend',
+  channel: 'email',
+  configured: () => !!(process.env.RESEND_API_KEY && process.env.RESEND_FROM_EMAIL),
+  async send(_admin, { key, target, message }) {
+    const { subject, text, html, headers } = message;
+    const { data, error } = await new Resend(process.env.RESEND_API_KEY).emails.send(
+      { from: process.env.RESEND_FROM_EMAIL!, to: target, subject: subject || 'UFO sightings', text, html, headers },
+      { idempotencyKey: key }, // a retry after a timeout can't send twice
+    );
+    if (error) return { ok: false, error: error.message, permanent: error.name === 'validation_error' };
+    return { ok: true, provider_id: data?.id ?? null, provider_status: 'sent' };
+  },
+};
@@ -0,0 +1,31 @@
+// src/lib/server/providers/sink.ts
+// Local development / tests: instead of calling a live service, each message is logged to the
+// console and written as JSON to NOTIFY_SINK_DIR (default .notify-sink/ in the working directory).
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { OutboxChannel } from '../outbox';
+import type { NotificationProvider } from './types';
+
+export function sinkDir() {
+  return path.resolve(process.env.NOTIFY_SINK_DIR || '.notify-sink');
+}
+
+export function sinkProvider(channel: OutboxChannel): NotificationProvider {
+  return {
+    name: 'sink',
+    channel,
+    configured: () => true,
+    async send(_admin, { key, target, message, push_subscription_id }) {
+      const at = new Date().toISOString();
+      const file = `${at.replace(/[:.]/g, '-')}-${channel}-${key.replace(/[^\w-]/g, '_')}.json`;
+      try {
+        await mkdir(sinkDir(), { recursive: true });
+        await writeFile(path.join(sinkDir(), file), JSON.stringify({ at, channel, target, push_subscription_id, message }, null, 2));
+      } catch (e) {
+        return { ok: false, error: (e as Error)?.message || String(e) };
+      }
+      console.info(`[notify sink] ${channel} → ${target}: ${message.subject || message.text.split('\n')[0]} (${file})`);
+      return { ok: true, provider_id: file, provider_status: 'written' };
+    },
+  };
+}
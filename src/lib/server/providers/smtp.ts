@@ -0,0 +1,41 @@
+// src/lib/server/providers/smtp.ts
+// Email over SMTP with nodemailer: SMTP_URL (smtp[s]://user:pass@host:port) or
+// SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS/SMTP_SECURE; sender from SMTP_FROM (or RESEND_FROM_EMAIL).
+import nodemailer from 'nodemailer';
+import type { NotificationProvider } from './types';
+
+function from() {
+  return process.env.SMTP_FROM || process.env.RESEND_FROM_EMAIL;
+}
+
+function transport() {
+  if (process.env.SMTP_URL) return nodemailer.createTransport(process.env.SMTP_URL);
+  const port = Number(process.env.SMTP_PORT || 587);
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+}
+
+export const smtpProvider: NotificationProvider = {
+  name: 'smtp',
+  channel: 'email',
+  configured: () => !!((process.env.SMTP_URL || process.env.SMTP_HOST) && from()),
+  async send(_admin, { key, target, message }) {
+    const { subject, text, html, headers } = message;
+    try {
+      const info = await transport().sendMail({
+        from: from(), to: target, subject: subject || 'UFO sightings', text, html, headers,
+        messageId: `<${key}@${from()!.split('@').pop()?.replace(/>$/, '')}>`,
+      });
+      return { ok: true, provider_id: info.messageId, provider_status: 'sent' };
+    } catch (e) {
+      // 5xx SMTP replies are permanent (unknown mailbox, rejected), 4xx are "try later"
+      const err = e as { responseCode?: number; message?: string } | null;
+      const code = Number(err?.responseCode);
+      return { ok: false, error: err?.message || String(e), permanent: code >= 500 && code < 600 };
+    }
+  },
+};
@@ -0,0 +1,32 @@
+// src/lib/server/providers/twilio.ts
+// SMS via Twilio (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER). Status callbacks: /api/sms/status.
+import twilio from 'twilio';
+import type { NotificationProvider } from './types';
+import { siteUrl } from '../unsubscribe';
+
+// Errors that retrying won't fix: invalid/unreachable number, recipient replied STOP
+const PERMANENT = new Set([21211, 21408, 21610, 21612, 21614]);
+
+export const twilioProvider: NotificationProvider = {
+  name: 'twilio',
+  channel: 'sms',
+  configured: () => !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_FROM_NUMBER),
+  async send(admin, { target, message }) {
+    const base = siteUrl();
+    try {
+      const msg = await twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN).messages.create({
+        to: target,
+        from: process.env.TWILIO_FROM_NUMBER!,
+        body: message.text,
+        ...(base ? { statusCallback: `${base}/api/sms/status` } : {}),
+      });
+      return { ok: true, provider_id: msg.sid, provider_status: msg.status };
+    } catch (e) {
+      const err = e as { code?: number; message?: string } | null;
+      const code = Number(err?.code);
+      // Carrier-level opt-out we didn't hear about through /api/sms/inbound
+      if (code === 21610) await admin.from('members').update({ sms_enabled: false }).eq('phone_e164', target);
+      return { ok: false, error: err?.message || String(e), permanent: PERMANENT.has(code) };
+    }
+  },
+};
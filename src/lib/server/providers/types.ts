@@ -0,0 +1,27 @@
+// src/lib/server/providers/types.ts
+// The contract every notification provider implements (see providers/index.ts for selection).
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { OutboxChannel, OutboxMessage } from '../outbox';
+
+export type ProviderSend = {
+  key: string;                          // stable per delivery: idempotency key / file name
+  target: string;                       // email, phone, push endpoint, or the channel name for room-wide channels
+  message: OutboxMessage;
+  push_subscription_id?: string | null;
+};
+
+export type SendResult =
+  | { ok: true; provider_id?: string | null; provider_status?: string | null }
+  | { ok: false; error: string; permanent?: boolean };  // permanent: retrying won't help
+
+export type NotificationProvider = {
+  name: string;
+  channel: OutboxChannel;
+  configured: () => boolean;            // has the env it needs
+  send: (admin: SupabaseClient, msg: ProviderSend) => Promise<SendResult>;
+};
+
+/** Treats 4xx answers (other than timeouts/rate limits) as not worth retrying. */
+export function httpFailure(status: number, error: string): SendResult {
+  return { ok: false, error, permanent: status >= 400 && status < 500 && status !== 408 && status !== 429 };
+}
@@ -0,0 +1,29 @@
+// src/lib/server/providers/webpush.ts
+// Web Push to one browser subscription (VAPID keys, see push.ts). Endpoints that are gone get deleted.
+import type { NotificationProvider } from './types';
+import { PUSH_SUBSCRIPTION_COLUMNS, pushEnv, sendPushTo, type PushSubscriptionRow } from '../push';
+
+export const webPushProvider: NotificationProvider = {
+  name: 'webpush',
+  channel: 'push',
+  configured: () => pushEnv().pushConfigured,
+  async send(admin, { message, push_subscription_id }) {
+    if (!push_subscription_id || !message.push) return { ok: false, error: 'Subscription was removed', permanent: true };
+    const { data: sub, error } = await admin
+      .from('push_subscriptions')
+      .select(PUSH_SUBSCRIPTION_COLUMNS)
+      .eq('id', push_subscription_id)
+      .maybeSingle();
+    if (error) return { ok: false, error: error.message };
+    if (!sub) return { ok: false, error: 'Subscription was removed', permanent: true };
+
+    const r = await sendPushTo(sub as PushSubscriptionRow, message.push);
+    if (r.ok) {
+      await admin.from('push_subscriptions').update({ last_success_at: new Date().toISOString() }).eq('id', push_subscription_id);
+      return { ok: true, provider_status: 'accepted' };
+    }
+    // The browser unsubscribed or the endpoint expired
+    if (r.gone) await admin.from('push_subscriptions').delete().eq('id', push_subscription_id);
+    return { ok: false, error: r.error, permanent: r.gone };
+  },
+};
@@ -0,0 +1,49 @@
+// src/lib/server/push.ts
+// Web Push (VAPID). Subscriptions live in push_subscriptions; delivery and retries go
+// through the notification outbox (outbox.ts), which deletes endpoints that are gone.
+import webpush from 'web-push';
+
+export type PushSubscriptionRow = {
+  id: string;
+  member_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+/** What the service worker receives (see src/worker/index.js). */
+export type PushPayload = {
+  title: string;
+  body: string;
+  url: string;        // opened when the notification is tapped
+  tag?: string;       // same tag replaces an earlier notification
+};
+
+export const PUSH_SUBSCRIPTION_COLUMNS = 'id, member_id, endpoint, p256dh, auth';
+
+export function pushEnv() {
+  const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY;
+  const VAPID_SUBJECT = process.env.VAPID_SUBJECT || (process.env.RESEND_FROM_EMAIL ? `mailto:${process.env.RESEND_FROM_EMAIL}` : undefined);
+  return {
+    VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT,
+    pushConfigured: !!(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY && VAPID_SUBJECT),
+  };
+}
+
+/** Sends one push; `gone` means the subscription no longer exists and should be deleted. */
+export async function sendPushTo(sub: Pick<PushSubscriptionRow, 'endpoint' | 'p256dh' | 'auth'>, payload: PushPayload) {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = pushEnv();
+  try {
+    await webpush.sendNotification({ endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } }, JSON.stringify(payload), {
+      vapidDetails: { subject: VAPID_SUBJECT!, publicKey: VAPID_PUBLIC_KEY!, privateKey: VAPID_PRIVATE_KEY! },
+      TTL: 6 * 3600, // a sighting alert is stale after a few hours
+    });
+    return { ok: true as const };
+  } catch (e) {
+    // web-push's WebPushError carries the push service's status and response body
+    const err = e as { statusCode?: number; body?: string; message?: string } | null;
+    const status = err?.statusCode;
+    return { ok: false as const, gone: status === 404 || status === 410, status, error: err?.body || err?.message || String(e) };
+  }
+}
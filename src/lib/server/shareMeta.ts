@@ -0,0 +1,73 @@
+// src/lib/server/shareMeta.ts
+// Open Graph / Twitter card metadata for shared links (/?room=&sighting= and /r/<code>/s/<id>),
+// so a link pasted in chat previews the sighting: summary, place, local time, and a photo or map.
+// Anything missing or failing falls back to the site-wide metadata in app/layout.tsx.
+import type { Metadata } from 'next';
+import { getAdminClient } from './supabase';
+import { siteUrl } from './unsubscribe';
+import { staticMapUrl } from './digest';
+import { ROOM_SETTINGS_COLUMNS, type RoomSettings } from '@/lib/roles';
+import { SIGHTING_COLUMNS, type Sighting } from '@/lib/sighting';
+import { roomPath, sightingPath } from '@/lib/deepLinks';
+import { formatLocalTime } from '@/lib/notifyTemplates';
+import { placeLabel } from '@/lib/regions';
+
+const SITE_NAME = 'UFO & Drone Tracker';
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const IMAGE_RE = /^https:\/\/.+\.(jpe?g|png|webp|gif)(\?.*)?$/i;
+
+/** Room by id or short code (same lookup order as joining in the app, minus names). */
+async function findRoom(ref: string): Promise<RoomSettings | null> {
+  const admin = getAdminClient();
+  if (!admin) return null;
+  const q = admin.from('rooms').select(ROOM_SETTINGS_COLUMNS);
+  const { data, error } = await (UUID_RE.test(ref) ? q.eq('id', ref) : q.eq('short_code', ref.toLowerCase())).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as RoomSettings | null) ?? null;
+}
+
+async function findSighting(id: string): Promise<Sighting | null> {
+  const admin = getAdminClient();
+  if (!admin || !UUID_RE.test(id)) return null;
+  const { data, error } = await admin.from('sightings').select(SIGHTING_COLUMNS).eq('id', id).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as Sighting | null) ?? null;
+}
+
+export async function shareMetadata(ref: { room?: string | null; sighting?: string | null }): Promise<Metadata> {
+  try {
+    const sighting = ref.sighting ? await findSighting(ref.sighting) : null;
+    const room = sighting ? await findRoom(sighting.room_id) : ref.room ? await findRoom(ref.room) : null;
+    if (!room) return {};
+    const roomName = room.name || room.short_code || 'Room';
+    const base = siteUrl();
+
+    if (!sighting) {
+      const title = `${roomName} · ${SITE_NAME}`;
+      const description = `Sightings reported in ${roomName}. Open the link to join the room and see them on the map.`;
+      return {
+        title, description,
+        openGraph: { title, description, siteName: SITE_NAME, type: 'website', url: base ? `${base}${roomPath(room)}` : undefined },
+        twitter: { card: 'summary', title, description },
+      };
+    }
+
+    const place = placeLabel(sighting);
+    const when = formatLocalTime(sighting.reported_at, room.timezone || 'UTC', room.locale);
+    const title = `${sighting.summary.split('\n')[0].slice(0, 80) || 'Sighting'} · ${roomName}`;
+    const description = [place, when].filter(Boolean).join(' · ') + (sighting.summary.length > 80 ? ` — ${sighting.summary.slice(0, 200)}` : '');
+    const photo = (sighting.media_urls || []).find((u) => IMAGE_RE.test(u));
+    const image = photo || (sighting.lat != null && sighting.lng != null ? staticMapUrl([{ lat: sighting.lat, lng: sighting.lng }]) : null);
+    return {
+      title, description,
+      openGraph: {
+        title, description, siteName: SITE_NAME, type: 'article',
+        url: base ? `${base}${sightingPath(room, sighting.id)}` : undefined,
+        images: image ? [{ url: image, alt: place || title }] : undefined,
+      },
+      twitter: { card: image ? 'summary_large_image' : 'summary', title, description, images: image ? [image] : undefined },
+    };
+  } catch {
+    return {};
+  }
+}
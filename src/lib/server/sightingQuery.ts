@@ -0,0 +1,116 @@
+// src/lib/server/sightingQuery.ts
+// Builds index-friendly sightings queries: room_id equality first, then
+// (reported_at, id) keyset pagination or a lat/lng bounding box.
+// Indexes: supabase/migrations/*_sightings_query_indexes.sql
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SIGHTING_COLUMNS } from '@/lib/sighting';
+import type { ApiFilters } from '@/lib/sightingFilters';
+
+// PostgrestFilterBuilder isn't re-exported by supabase-js, and checking its select()-specific
+// generics against a constraint is too deep for tsc. The helpers below only chain these filters,
+// each of which returns the builder itself, so they hand back the caller's builder type.
+type Filterable = {
+  or(filters: string): Filterable;
+  ilike(column: string, pattern: string): Filterable;
+  not(column: string, operator: string, value: unknown): Filterable;
+  neq(column: string, value: unknown): Filterable;
+  gte(column: string, value: unknown): Filterable;
+  lte(column: string, value: unknown): Filterable;
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ISO_RE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+
+export type Cursor = { at: string; id: string };
+export type BBox = { west: number; south: number; east: number; north: number };
+
+export function encodeCursor(c: Cursor) {
+  return Buffer.from(`${c.at}|${c.id}`).toString('base64url');
+}
+/** Both parts end up inside a PostgREST `or=(…)` filter, so anything but a timestamp and a UUID is rejected. */
+export function decodeCursor(s: string | null): Cursor | null {
+  if (!s) return null;
+  try {
+    const [at, id] = Buffer.from(s, 'base64url').toString('utf8').split('|');
+    if (!at || !id || !ISO_RE.test(at) || Number.isNaN(new Date(at).getTime()) || !UUID_RE.test(id)) return null;
+    return { at, id };
+  } catch { return null; }
+}
+
+export function parseBBox(s: string | null): BBox | null {
+  if (!s) return null;
+  const [west, south, east, north] = s.split(',').map(Number);
+  if (![west, south, east, north].every(Number.isFinite)) return null;
+  if (south < -90 || north > 90 || south > north) return null;
+  return { west, south, east, north };
+}
+
+// Values go inside PostgREST filter strings; drop characters that would break them
+function clean(v: string) {
+  return v.replace(/[,()"%*\\]/g, ' ').trim();
+}
+function likeExact(v: string) {
+  return v.replace(/[%_\\]/g, (c) => `\\${c}`);
+}
+
+export function applyFilters<Q>(query: Q, f: ApiFilters): Q {
+  let q = query as Filterable;
+  for (const tok of clean(f.q).split(/\s+/).filter(Boolean)) {
+    q = q.or(`summary.ilike.*${tok}*,address_text.ilike.*${tok}*`);
+  }
+  if (f.city) q = q.ilike('city', likeExact(f.city));
+  if (f.state) q = q.ilike('state', likeExact(f.state));
+  if (f.reporter) q = q.ilike('user_name', likeExact(f.reporter));
+  if (f.hasMedia) q = q.not('media_urls', 'is', null).neq('media_urls', '{}');
+  if (f.make) q = q.ilike('vehicle_make', `%${likeExact(f.make)}%`);
+  if (f.model) q = q.ilike('vehicle_model', `%${likeExact(f.model)}%`);
+  if (f.color) q = q.ilike('vehicle_color', `%${likeExact(f.color)}%`);
+  if (f.after) q = q.gte('reported_at', f.after);
+  if (f.before) q = q.lte('reported_at', f.before);
+  return q as Q;
+}
+
+export function applyBBox<Q>(query: Q, b: BBox): Q {
+  const q = (query as Filterable).gte('lat', b.south).lte('lat', b.north);
+  if (b.east - b.west >= 360) return q as Q;
+  // Viewport crossing the antimeridian wraps around
+  const w = ((b.west + 540) % 360) - 180;
+  const e = ((b.east + 540) % 360) - 180;
+  return (w <= e ? q.gte('lng', w).lte('lng', e) : q.or(`lng.gte.${w},lng.lte.${e}`)) as Q;
+}
+
+/** One page of a room's sightings, ordered by (reported_at, id). */
+export async function pageSightings(
+  admin: SupabaseClient,
+  roomId: string,
+  opts: { filters: ApiFilters; cursor: Cursor | null; limit: number; bbox?: BBox | null },
+) {
+  const asc = opts.filters.order === 'asc';
+  let q = applyFilters(admin.from('sightings').select(SIGHTING_COLUMNS).eq('room_id', roomId), opts.filters);
+  if (opts.bbox) q = applyBBox(q, opts.bbox);
+  if (opts.cursor) {
+    const op = asc ? 'gt' : 'lt';
+    const at = `"${opts.cursor.at}"`;
+    q = q.or(`reported_at.${op}.${at},and(reported_at.eq.${at},id.${op}.${opts.cursor.id})`);
+  }
+  // Fetch one extra row to know whether another page exists
+  const { data, error } = await q
+    .order('reported_at', { ascending: asc })
+    .order('id', { ascending: asc })
+    .limit(opts.limit + 1);
+  if (error) throw new Error(error.message);
+
+  const rows = (data || []) as Array<{ id: string; reported_at: string }>;
+  const more = rows.length > opts.limit;
+  const page = more ? rows.slice(0, opts.limit) : rows;
+  const last = page[page.length - 1];
+  return { rows: page, next_cursor: more && last ? encodeCursor({ at: last.reported_at, id: last.id }) : null };
+}
+
+export async function countSightings(admin: SupabaseClient, roomId: string, filters: ApiFilters, bbox?: BBox | null) {
+  let q = applyFilters(admin.from('sightings').select('id', { count: 'exact', head: true }).eq('room_id', roomId), filters);
+  if (bbox) q = applyBBox(q, bbox);
+  const { count, error } = await q;
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
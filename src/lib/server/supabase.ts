@@ -0,0 +1,104 @@
+// src/lib/server/supabase.ts
+// Server-only Supabase helpers: service-role client, caller session, room membership.
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ROOM_SETTINGS_COLUMNS, type MembershipStatus, type Role, type RoomSettings } from '@/lib/roles';
+import type { DigestMode } from '@/lib/digest';
+import type { Locale } from '@/lib/notifyTemplates';
+
+export type Caller = { id: string; email: string | null; email_verified?: boolean }; // email_verified: confirmed by Supabase Auth
+
+export type MemberRow = {
+  id: string;
+  room_id: string;
+  email: string | null;
+  phone_e164: string | null;
+  approved: boolean | null;
+  email_enabled: boolean | null;
+  sms_enabled: boolean | null;
+  role: Role;
+  requested_at: string | null;
+  decided_at: string | null;  // set when an admin approves/denies (or on auto-approval)
+  decided_by: string | null;  // deciding admin's email; null for automatic approvals
+  email_verified_at: string | null;  // alerts only go to verified contacts
+  phone_verified_at: string | null;
+  quiet_start: string | null;  // HH:MM:SS in quiet_tz (see alertAreas.ts)
+  quiet_end: string | null;
+  quiet_tz: string | null;
+  email_digest: DigestMode;  // instant, or batched by /api/cron/digests (see digest.ts)
+  sms_digest: DigestMode;
+  digest_hour: number;
+  digest_tz: string | null;
+  email_digest_sent_at: string | null;
+  sms_digest_sent_at: string | null;
+  locale: Locale | null;  // alert language; null = the room's
+};
+
+export const MEMBER_COLUMNS =
+  'id, room_id, email, phone_e164, approved, email_enabled, sms_enabled, role, requested_at, decided_at, decided_by, email_verified_at, phone_verified_at, quiet_start, quiet_end, quiet_tz, email_digest, sms_digest, digest_hour, digest_tz, email_digest_sent_at, sms_digest_sent_at, locale';
+
+// Read envs at call time (avoids build-time issues)
+export function getAdminClient(): SupabaseClient | null {
+  const url = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SECRET_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return null;
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+/** Resolves `Authorization: Bearer <access_token>` to the signed-in user, or null. */
+export async function getCaller(req: Request, admin: SupabaseClient): Promise<Caller | null> {
+  const h = req.headers.get('authorization') || '';
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  if (!m) return null;
+  const { data, error } = await admin.auth.getUser(m[1]);
+  if (error || !data.user) return null;
+  return { id: data.user.id, email: data.user.email?.toLowerCase() ?? null, email_verified: !!data.user.email_confirmed_at };
+}
+
+/** The caller's member row for a room (matched by email), if any. */
+export async function getMembership(admin: SupabaseClient, roomId: string, caller: Caller | null): Promise<MemberRow | null> {
+  if (!caller?.email) return null;
+  const { data } = await admin
+    .from('members')
+    .select(MEMBER_COLUMNS)
+    .eq('room_id', roomId)
+    .eq('email', caller.email)
+    .limit(1)
+    .maybeSingle();
+  return (data as MemberRow | null) ?? null;
+}
+
+/** The caller's effective role in a room: null unless they have an approved member row. */
+export function roleOf(member: MemberRow | null) {
+  return member?.approved ? member.role : null;
+}
+
+/** Timestamp for a new member row's email_verified_at: an address Supabase Auth confirmed needs no second link. */
+export function emailVerifiedAt(caller: Caller) {
+  return caller.email_verified ? new Date().toISOString() : null;
+}
+
+/** Approved, waiting on an admin, or turned down (not approved after a decision). */
+export function membershipStatus(member: MemberRow | null): MembershipStatus | null {
+  if (!member) return null;
+  if (member.approved) return 'approved';
+  return member.decided_at ? 'denied' : 'pending';
+}
+
+export async function getRoomSettings(admin: SupabaseClient, roomId: string): Promise<RoomSettings | null> {
+  const { data, error } = await admin.from('rooms').select(ROOM_SETTINGS_COLUMNS).eq('id', roomId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data as RoomSettings | null) ?? null;
+}
+
+/**
+ * Who may list, count and export a room's sightings: anyone when the room doesn't require sign-in,
+ * else approved members (viewers too). Returns the error response's status and body, or null when allowed.
+ */
+export async function readDenied(admin: SupabaseClient, roomId: string, caller: Caller | null) {
+  const room = await getRoomSettings(admin, roomId);
+  if (!room) return { status: 404, body: { ok: false, error: 'Room not found' } };
+  if (room.require_auth === false) return null;
+  if (!caller) return { status: 401, body: { ok: false, where: 'auth', error: 'Sign in required' } };
+  if (!roleOf(await getMembership(admin, roomId, caller))) return { status: 403, body: { ok: false, where: 'auth', error: 'Not a member of this room' } };
+  return null;
+}
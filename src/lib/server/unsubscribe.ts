@@ -0,0 +1,48 @@
+// src/lib/server/unsubscribe.ts
+// Signed one-click unsubscribe links for alert emails (RFC 8058 List-Unsubscribe).
+// A token is "<member id>.<HMAC>", so it can't be forged or pointed at another member.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { strings, type Locale } from '@/lib/notifyTemplates';
+
+function secret() {
+  return process.env.UNSUBSCRIBE_SECRET || process.env.SUPABASE_SECRET_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+}
+
+/** Public base URL for links in emails/SMS ('' when unknown — links are then left out). */
+export function siteUrl() {
+  const url = process.env.NEXT_PUBLIC_SITE_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : '');
+  return url.replace(/\/$/, '');
+}
+
+function sign(memberId: string) {
+  return createHmac('sha256', secret()).update(`unsubscribe:${memberId}`).digest('base64url');
+}
+
+export function unsubscribeToken(memberId: string) {
+  return `${memberId}.${sign(memberId)}`;
+}
+
+/** The member id a token was issued for, or null if it doesn't verify. */
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [memberId, sig] = token.split('.');
+  if (!memberId || !sig || !secret()) return null;
+  const x = Buffer.from(sig), y = Buffer.from(sign(memberId));
+  return x.length === y.length && timingSafeEqual(x, y) ? memberId : null;
+}
+
+export function unsubscribeUrl(memberId: string) {
+  const base = siteUrl();
+  return base && secret() ? `${base}/api/unsubscribe?t=${encodeURIComponent(unsubscribeToken(memberId))}` : null;
+}
+
+/** Footer text/HTML and mail headers for one recipient; empty when no public URL is configured. */
+export function unsubscribeParts(memberId: string, locale: Locale = 'en') {
+  const url = unsubscribeUrl(memberId);
+  if (!url) return { text: '', html: '', headers: undefined };
+  const t = strings(locale);
+  return {
+    text: `\n\n${t.unsubscribeText(url)}`,
+    html: `<p style="color:#666;font-size:12px"><a href="${url}">${t.unsubscribe}</a></p>`,
+    headers: { 'List-Unsubscribe': `<${url}>`, 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' },
+  };
+}
@@ -0,0 +1,168 @@
+// src/lib/server/verification.ts
+// Double opt-in for alert contacts: 6-digit SMS codes and email confirm links (sent through providers/).
+// Only hashes are stored; codes expire, allow a few wrong guesses, and sends are rate limited.
+import { createHash, randomBytes, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { providerFor } from './providers';
+import { MEMBER_COLUMNS, type MemberRow } from './supabase';
+
+export type Channel = 'sms' | 'email';
+
+export const SMS_CODE_TTL_MS = 10 * 60 * 1000;
+export const EMAIL_LINK_TTL_MS = 24 * 3600 * 1000;
+export const MAX_CODE_ATTEMPTS = 5;      // wrong guesses before a code is burned
+export const MAX_SENDS_PER_HOUR = 5;     // per member + channel
+
+type CodeRow = {
+  id: string; member_id: string; channel: Channel; target: string; code_hash: string;
+  attempts: number; expires_at: string; consumed_at: string | null;
+};
+
+/** Failures carry the HTTP status the route should answer with; database errors are thrown. */
+export type VerifyResult<T = null> = { ok: true; value: T } | { ok: false; status: number; error: string };
+
+function fail(status: number, error: string) {
+  return { ok: false as const, status, error };
+}
+
+function hash(secret: string) {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function sameHash(a: string, b: string) {
+  const x = Buffer.from(a), y = Buffer.from(b);
+  return x.length === y.length && timingSafeEqual(x, y);
+}
+
+async function checkSendRate(admin: SupabaseClient, memberId: string, channel: Channel) {
+  const since = new Date(Date.now() - 3600 * 1000).toISOString();
+  const { count, error } = await admin
+    .from('verification_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('member_id', memberId)
+    .eq('channel', channel)
+    .gte('created_at', since);
+  if (error) throw new Error(error.message);
+  return (count ?? 0) >= MAX_SENDS_PER_HOUR ? fail(429, 'Too many codes requested — try again in an hour') : null;
+}
+
+// A new code replaces any earlier ones still outstanding for the same channel
+async function storeCode(admin: SupabaseClient, member: MemberRow, channel: Channel, target: string, codeHash: string, ttl: number) {
+  const now = new Date().toISOString();
+  await admin.from('verification_codes').update({ consumed_at: now })
+    .eq('member_id', member.id).eq('channel', channel).is('consumed_at', null);
+  const { error } = await admin.from('verification_codes').insert({
+    member_id: member.id, channel, target, code_hash: codeHash, expires_at: new Date(Date.now() + ttl).toISOString(),
+  });
+  if (error) throw new Error(error.message);
+}
+
+/** Texts a one-time code to `phone`; the number is saved on the member only once confirmed. */
+export async function sendSmsCode(admin: SupabaseClient, member: MemberRow, phone: string): Promise<VerifyResult> {
+  const provider = providerFor('sms');
+  if (!provider) return fail(503, 'SMS is not configured on this server');
+  const limited = await checkSendRate(admin, member.id, 'sms');
+  if (limited) return limited;
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+  await storeCode(admin, member, 'sms', phone, hash(`${member.id}:${code}`), SMS_CODE_TTL_MS);
+
+  const sent = await provider.send(admin, {
+    key: `verify-${randomUUID()}`,
+    target: phone,
+    message: { text: `Your UFO sightings verification code is ${code}. It expires in ${SMS_CODE_TTL_MS / 60000} minutes.` },
+  });
+  if (!sent.ok) throw new Error(sent.error);
+  return { ok: true, value: null };
+}
+
+/** Checks an SMS code; on success the number is saved, verified and SMS alerts are switched on. */
+export async function confirmSmsCode(admin: SupabaseClient, member: MemberRow, code: string): Promise<VerifyResult<MemberRow>> {
+  const { data, error } = await admin
+    .from('verification_codes')
+    .select('*')
+    .eq('member_id', member.id)
+    .eq('channel', 'sms')
+    .is('consumed_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  const row = data as CodeRow | null;
+  if (!row || new Date(row.expires_at).getTime() < Date.now()) return fail(410, 'Code expired — request a new one');
+  if (row.attempts >= MAX_CODE_ATTEMPTS) return fail(429, 'Too many wrong codes — request a new one');
+
+  if (!sameHash(row.code_hash, hash(`${member.id}:${code.trim()}`))) {
+    const attempts = row.attempts + 1;
+    await admin.from('verification_codes').update({ attempts }).eq('id', row.id);
+    const left = MAX_CODE_ATTEMPTS - attempts;
+    return fail(400, left > 0 ? `Wrong code — ${left} attempt${left === 1 ? '' : 's'} left` : 'Too many wrong codes — request a new one');
+  }
+
+  const now = new Date().toISOString();
+  await admin.from('verification_codes').update({ consumed_at: now }).eq('id', row.id);
+  const { data: updated, error: uErr } = await admin
+    .from('members')
+    .update({ phone_e164: row.target, phone_verified_at: now, sms_enabled: true })
+    .eq('id', member.id)
+    .select(MEMBER_COLUMNS)
+    .single();
+  if (uErr) throw new Error(uErr.message);
+  return { ok: true, value: updated as MemberRow };
+}
+
+/** Emails a confirm link for the member's address. */
+export async function sendEmailLink(admin: SupabaseClient, member: MemberRow, siteUrl: string): Promise<VerifyResult> {
+  const provider = providerFor('email');
+  if (!provider) return fail(503, 'Email is not configured on this server');
+  if (!member.email) return fail(400, 'No email address on this membership');
+  const limited = await checkSendRate(admin, member.id, 'email');
+  if (limited) return limited;
+
+  const token = randomBytes(32).toString('base64url');
+  await storeCode(admin, member, 'email', member.email, hash(token), EMAIL_LINK_TTL_MS);
+
+  const link = `${siteUrl.replace(/\/$/, '')}/api/members/verify/confirm?token=${token}`;
+  const sent = await provider.send(admin, {
+    key: `verify-${randomUUID()}`,
+    target: member.email,
+    message: {
+      subject: 'Confirm your sighting alerts',
+      text: `Confirm that you want sighting alerts at this address:\n${link}\n\nThe link expires in 24 hours. If you didn't ask for this, ignore this email.`,
+      html: `<div style="font-family:system-ui,Segoe UI,Roboto,Helvetica,Arial,sans-serif;line-height:1.45">
+       <p>Confirm that you want sighting alerts at this address:</p>
+       <p><a href="${link}">Confirm email alerts</a></p>
+       <p style="color:#666">The link expires in 24 hours. If you didn't ask for this, ignore this email.</p>
+     </div>`,
+    },
+  });
+  if (!sent.ok) throw new Error(sent.error);
+  return { ok: true, value: null };
+}
+
+/** Consumes an email confirm token; returns the verified member. */
+export async function confirmEmailToken(admin: SupabaseClient, token: string): Promise<VerifyResult<MemberRow>> {
+  const { data, error } = await admin
+    .from('verification_codes')
+    .select('*')
+    .eq('code_hash', hash(token))
+    .eq('channel', 'email')
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  const row = data as CodeRow | null;
+  if (!row || row.consumed_at) return fail(410, 'This link was already used or replaced by a newer one');
+  if (new Date(row.expires_at).getTime() < Date.now()) return fail(410, 'This link has expired');
+
+  const now = new Date().toISOString();
+  await admin.from('verification_codes').update({ consumed_at: now }).eq('id', row.id);
+  const { data: updated, error: uErr } = await admin
+    .from('members')
+    .update({ email_verified_at: now })
+    .eq('id', row.member_id)
+    .eq('email', row.target) // the address must not have changed since the link was sent
+    .select(MEMBER_COLUMNS)
+    .maybeSingle();
+  if (uErr) throw new Error(uErr.message);
+  if (!updated) return fail(410, 'This membership no longer exists');
+  return { ok: true, value: updated as MemberRow };
+}
@@ -0,0 +1,46 @@
+// src/lib/server/webhooks.ts
+// Signature checks for provider webhooks (Twilio, Resend). Both return false rather than
+// throwing, so routes can answer 403.
+import { createHmac, timingSafeEqual } from 'crypto';
+import twilio from 'twilio';
+import { siteUrl } from './unsubscribe';
+
+/** Form fields of a Twilio webhook plus whether X-Twilio-Signature matches them. */
+export async function readTwilioWebhook(req: Request, path: string) {
+  const form = await req.formData();
+  const params: Record<string, string> = {};
+  form.forEach((v, k) => { if (typeof v === 'string') params[k] = v; });
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN || '';
+  // Twilio signs the exact URL it called; behind proxies req.url may not match it.
+  // TWILIO_WEBHOOK_URL is the inbound-SMS URL, so only applies to that path.
+  const base = siteUrl();
+  const url = (path === '/api/sms/inbound' && process.env.TWILIO_WEBHOOK_URL) || (base ? `${base}${path}` : req.url);
+  const signature = req.headers.get('x-twilio-signature') || '';
+  const valid = !!authToken && !!signature && twilio.validateRequest(authToken, signature, url, params);
+  return { params, valid };
+}
+
+const SVIX_TOLERANCE_S = 5 * 60;
+
+/**
+ * Resend signs webhooks the Svix way: base64 HMAC-SHA256 of "<svix-id>.<svix-timestamp>.<body>"
+ * keyed with the base64 part of RESEND_WEBHOOK_SECRET ("whsec_…").
+ */
+export function verifyResendWebhook(headers: Headers, body: string) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET || '';
+  const id = headers.get('svix-id');
+  const timestamp = headers.get('svix-timestamp');
+  const signatures = headers.get('svix-signature');
+  if (!secret || !id || !timestamp || !signatures) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SVIX_TOLERANCE_S) return false;
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = Buffer.from(createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64'));
+  // Header is a space-separated list of "v1,<signature>" (several during key rotation)
+  return signatures.split(' ').some((part) => {
+    const [version, sig] = part.split(',');
+    const got = Buffer.from(sig || '');
+    return version === 'v1' && got.length === expected.length && timingSafeEqual(got, expected);
+  });
+}
@@ -0,0 +1,141 @@
+// src/lib/sighting.ts
+// Shared Sighting shape + payload validation (used by ClientPage and /api/sightings)
+import { DEFAULT_COUNTRY, isCountryCode, normalizeRegion } from './regions';
+
+export type Sighting = {
+  id: string;
+  room_id: string;
+  summary: string;
+  city: string;
+  state: string;   // region: ISO 3166-2 code for known countries (lib/regions.ts), else as written
+  country: string; // ISO 3166-1 alpha-2, 'US' unless set
+  address_text: string | null;
+  lat: number | null;
+  lng: number | null;
+  reported_at: string; // ISO
+  user_name: string | null;
+  media_urls?: string[] | null;
+  vehicle_make?: string | null;
+  vehicle_model?: string | null;
+  vehicle_color?: string | null;
+  created_by?: string | null; // auth user id of the poster (set by the server)
+};
+
+/** Writable fields (everything except id and server-set columns). */
+export type SightingInput = Omit<Sighting, 'id' | 'created_by'>;
+
+export const SIGHTING_COLUMNS =
+  'id, room_id, summary, city, state, country, address_text, lat, lng, reported_at, user_name, media_urls, vehicle_make, vehicle_model, vehicle_color, created_by';
+
+// Fields compared to detect that an edit's target changed server-side
+export const CONFLICT_FIELDS = [
+  'summary', 'city', 'state', 'country', 'address_text', 'lat', 'lng', 'reported_at',
+  'media_urls', 'vehicle_make', 'vehicle_model', 'vehicle_color',
+] as const;
+
+export function changedSince(snapshot: Record<string, unknown>, current: Record<string, unknown>) {
+  return CONFLICT_FIELDS.some((k) => JSON.stringify(snapshot[k] ?? null) !== JSON.stringify(current[k] ?? null));
+}
+
+// ==========
+// Validation
+// ==========
+type Rule = {
+  type: 'string' | 'number' | 'iso' | 'uuid' | 'urls';
+  required?: boolean;
+  nullable?: boolean;
+  max?: number;
+  min?: number;
+  upper?: boolean;
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export const SIGHTING_SCHEMA: Record<keyof SightingInput, Rule> = {
+  room_id: { type: 'uuid', required: true },
+  summary: { type: 'string', required: true, max: 2000 },
+  city: { type: 'string', required: true, max: 120 },
+  state: { type: 'string', required: true, max: 64 },
+  country: { type: 'string', max: 2, upper: true },
+  address_text: { type: 'string', nullable: true, max: 500 },
+  lat: { type: 'number', nullable: true, min: -90, max: 90 },
+  lng: { type: 'number', nullable: true, min: -180, max: 180 },
+  reported_at: { type: 'iso', required: true },
+  user_name: { type: 'string', nullable: true, max: 200 },
+  media_urls: { type: 'urls', nullable: true, max: 20 },
+  vehicle_make: { type: 'string', nullable: true, max: 80 },
+  vehicle_model: { type: 'string', nullable: true, max: 80 },
+  vehicle_color: { type: 'string', nullable: true, max: 80 },
+};
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+function checkField(key: string, rule: Rule, v: unknown, errors: string[]): unknown {
+  if (v === undefined || v === null || v === '') {
+    if (rule.required) errors.push(`${key} is required`);
+    else if (v === null || v === '') return null;
+    return undefined;
+  }
+  switch (rule.type) {
+    case 'string':
+    case 'uuid': {
+      if (typeof v !== 'string') { errors.push(`${key} must be a string`); return undefined; }
+      const t = rule.upper ? v.trim().toUpperCase() : v.trim();
+      if (!t && rule.required) { errors.push(`${key} is required`); return undefined; }
+      if (rule.max && t.length > rule.max) errors.push(`${key} must be at most ${rule.max} characters`);
+      if (rule.type === 'uuid' && !UUID_RE.test(t)) errors.push(`${key} must be a UUID`);
+      return t || (rule.nullable ? null : t);
+    }
+    case 'number': {
+      const n = typeof v === 'string' ? Number(v) : v;
+      if (typeof n !== 'number' || !Number.isFinite(n)) { errors.push(`${key} must be a number`); return undefined; }
+      if (rule.min != null && n < rule.min) errors.push(`${key} must be ≥ ${rule.min}`);
+      if (rule.max != null && n > rule.max) errors.push(`${key} must be ≤ ${rule.max}`);
+      return n;
+    }
+    case 'iso': {
+      const d = typeof v === 'string' ? new Date(v) : null;
+      if (!d || Number.isNaN(d.getTime())) { errors.push(`${key} must be an ISO date`); return undefined; }
+      if (d.getTime() > Date.now() + 24 * 3600 * 1000) errors.push(`${key} cannot be in the future`);
+      return d.toISOString();
+    }
+    case 'urls': {
+      if (!Array.isArray(v) || v.some((u) => typeof u !== 'string' || !/^https?:\/\//i.test(u))) {
+        errors.push(`${key} must be a list of http(s) URLs`); return undefined;
+      }
+      if (rule.max && v.length > rule.max) errors.push(`${key} can have at most ${rule.max} items`);
+      return v;
+    }
+  }
+}
+
+/**
+ * Validates a create (full) or patch (partial) payload against SIGHTING_SCHEMA.
+ * Unknown keys are dropped; strings are trimmed, `country` upper-cased and `state` stored as its
+ * region code when it names a known region of the country (`defaultCountry` — a patched row's
+ * own country — or US when the payload doesn't give one).
+ */
+export function validateSighting(
+  body: unknown,
+  opts: { partial?: boolean; defaultCountry?: string | null } = {}
+): ValidationResult<Partial<SightingInput>> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { ok: false, errors: ['body must be an object'] };
+  const src = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const out: Record<string, unknown> = {};
+
+  for (const [key, rule] of Object.entries(SIGHTING_SCHEMA)) {
+    if (opts.partial && !(key in src)) continue;
+    const v = checkField(key, opts.partial ? { ...rule, required: rule.required && key in src } : rule, src[key], errors);
+    if (v !== undefined) out[key] = v;
+  }
+
+  if (out.country != null && !isCountryCode(out.country)) errors.push('country must be a two-letter ISO 3166 code');
+  else if (typeof out.state === 'string') out.state = normalizeRegion((out.country as string) || opts.defaultCountry || DEFAULT_COUNTRY, out.state);
+
+  // A pin is both coordinates or neither
+  const hasLat = out.lat != null, hasLng = out.lng != null;
+  if ((opts.partial ? ('lat' in src || 'lng' in src) : true) && hasLat !== hasLng) errors.push('lat and lng must be provided together');
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: out as Partial<SightingInput> };
+}
@@ -0,0 +1,158 @@
+// src/lib/sightingExport.ts
+// CSV / GeoJSON / KML serialisers for sightings (used by /api/sightings/export).
+// Every format carries both the UTC timestamp and the same instant in the room's timezone.
+import { formatInTimeZone } from 'date-fns-tz';
+import type { Sighting } from './sighting';
+import { placeLabel } from './regions';
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { ext: string; mime: string; label: string }> = {
+  csv: { ext: 'csv', mime: 'text/csv; charset=utf-8', label: 'CSV (spreadsheets)' },
+  geojson: { ext: 'geojson', mime: 'application/geo+json; charset=utf-8', label: 'GeoJSON (GIS tools)' },
+  kml: { ext: 'kml', mime: 'application/vnd.google-earth.kml+xml; charset=utf-8', label: 'KML (Google Earth)' },
+};
+
+export function isExportFormat(v: unknown): v is ExportFormat {
+  return typeof v === 'string' && v in EXPORT_FORMATS;
+}
+
+export function isValidTimeZone(tz: string) {
+  try { new Intl.DateTimeFormat('en-US', { timeZone: tz }); return true; } catch { return false; }
+}
+
+type ExportOptions = { timeZone: string; roomId: string; roomName?: string | null };
+
+function times(iso: string, tz: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return { utc: '', local: '' };
+  return { utc: d.toISOString(), local: formatInTimeZone(d, tz, "yyyy-MM-dd'T'HH:mm:ssXXX") };
+}
+
+// Flat record shared by CSV columns, GeoJSON properties and KML ExtendedData
+function flatten(s: Sighting, tz: string) {
+  const t = times(s.reported_at, tz);
+  return {
+    id: s.id,
+    summary: s.summary,
+    city: s.city,
+    state: s.state,
+    country: s.country ?? 'US',
+    address_text: s.address_text ?? '',
+    lat: s.lat,
+    lng: s.lng,
+    reported_at_utc: t.utc,
+    reported_at_local: t.local,
+    timezone: tz,
+    reporter: s.user_name ?? '',
+    vehicle_make: s.vehicle_make ?? '',
+    vehicle_model: s.vehicle_model ?? '',
+    vehicle_color: s.vehicle_color ?? '',
+    media_urls: s.media_urls ?? [],
+  };
+}
+
+// ===
+// CSV
+// ===
+const CSV_COLUMNS = [
+  'id', 'reported_at_utc', 'reported_at_local', 'timezone', 'summary', 'city', 'state', 'country',
+  'address_text', 'lat', 'lng', 'reporter', 'vehicle_make', 'vehicle_model', 'vehicle_color', 'media_urls',
+] as const;
+
+function csvCell(v: unknown) {
+  if (v == null) return '';
+  if (typeof v === 'number') return String(v);
+  let s = Array.isArray(v) ? v.join(' ') : String(v);
+  // Spreadsheets execute cells that start like a formula
+  if (/^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCSV(rows: Sighting[], opts: ExportOptions) {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const s of rows) {
+    const r = flatten(s, opts.timeZone);
+    lines.push(CSV_COLUMNS.map((c) => csvCell(r[c])).join(','));
+  }
+  // BOM so Excel opens UTF-8 correctly
+  return '\ufeff' + lines.join('\r\n') + '\r\n';
+}
+
+// =======
+// GeoJSON
+// =======
+export function toGeoJSON(rows: Sighting[], opts: ExportOptions) {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    name: opts.roomName || opts.roomId,
+    features: rows.map((s) => {
+      const { lat, lng, ...properties } = flatten(s, opts.timeZone);
+      return {
+        type: 'Feature',
+        id: s.id,
+        geometry: lat != null && lng != null ? { type: 'Point', coordinates: [lng, lat] } : null,
+        properties: { ...properties, room_id: s.room_id },
+      };
+    }),
+  }, null, 2);
+}
+
+// ===
+// KML
+// ===
+function xml(s: unknown) {
+  return String(s ?? '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+// Placemarks need a point; rows without a pin are left out
+export function toKML(rows: Sighting[], opts: ExportOptions) {
+  const placemarks = rows.filter((s) => s.lat != null && s.lng != null).map((s) => {
+    const r = flatten(s, opts.timeZone);
+    const title = s.summary.length > 80 ? `${s.summary.slice(0, 77)}…` : s.summary;
+    const desc = [
+      s.summary,
+      placeLabel(s) + (s.address_text ? ` — ${s.address_text}` : ''),
+      `${r.reported_at_local} (${opts.timeZone})`,
+      [s.vehicle_color, s.vehicle_make, s.vehicle_model].filter(Boolean).join(' '),
+      r.reporter ? `Reported by ${r.reporter}` : '',
+      ...r.media_urls,
+    ].filter(Boolean).join('\n');
+    const data = (Object.entries(r) as Array<[string, unknown]>)
+      .filter(([k]) => k !== 'lat' && k !== 'lng')
+      .map(([k, v]) => `        <Data name="${k}"><value>${xml(Array.isArray(v) ? v.join(' ') : v)}</value></Data>`)
+      .join('\n');
+    return [
+      `    <Placemark id="${xml(s.id)}">`,
+      `      <name>${xml(title)}</name>`,
+      `      <description>${xml(desc)}</description>`,
+      r.reported_at_utc ? `      <TimeStamp><when>${r.reported_at_utc}</when></TimeStamp>` : '',
+      '      <ExtendedData>',
+      data,
+      '      </ExtendedData>',
+      `      <Point><coordinates>${s.lng},${s.lat},0</coordinates></Point>`,
+      '    </Placemark>',
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${xml(opts.roomName || 'UFO sightings')}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+export function exportSightings(format: ExportFormat, rows: Sighting[], opts: ExportOptions) {
+  switch (format) {
+    case 'geojson': return toGeoJSON(rows, opts);
+    case 'kml': return toKML(rows, opts);
+    default: return toCSV(rows, opts);
+  }
+}
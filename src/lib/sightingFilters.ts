@@ -0,0 +1,155 @@
+// src/lib/sightingFilters.ts
+// List/map filters for sightings, round-tripped through the URL query string.
+import type { Sighting } from './sighting';
+
+export type SightingSort = 'newest' | 'oldest' | 'city' | 'state' | 'reporter';
+
+export type SightingFilters = {
+  q: string;          // free text over summary + address_text
+  city: string;
+  state: string;
+  from: string;       // yyyy-MM-dd (local)
+  to: string;         // yyyy-MM-dd (local, inclusive)
+  reporter: string;   // user_name
+  hasMedia: boolean;
+  make: string;
+  model: string;
+  color: string;
+  sort: SightingSort;
+};
+
+export const EMPTY_FILTERS: SightingFilters = {
+  q: '', city: '', state: '', from: '', to: '', reporter: '',
+  hasMedia: false, make: '', model: '', color: '', sort: 'newest',
+};
+
+const SORTS: SightingSort[] = ['newest', 'oldest', 'city', 'state', 'reporter'];
+
+// Query-string keys (kept short so shared links stay readable)
+const KEYS: Record<Exclude<keyof SightingFilters, 'hasMedia' | 'sort'>, string> = {
+  q: 'q', city: 'city', state: 'state', from: 'from', to: 'to', reporter: 'by',
+  make: 'make', model: 'model', color: 'color',
+};
+
+export function parseFilters(params: URLSearchParams): SightingFilters {
+  const f: SightingFilters = { ...EMPTY_FILTERS };
+  for (const [field, key] of Object.entries(KEYS) as Array<[keyof typeof KEYS, string]>) {
+    f[field] = (params.get(key) || '').trim();
+  }
+  f.hasMedia = params.get('media') === '1';
+  const sort = params.get('sort') as SightingSort | null;
+  if (sort && SORTS.includes(sort)) f.sort = sort;
+  return f;
+}
+
+/** Writes filters into `base` (other params such as `room` are kept). */
+export function filtersToParams(f: SightingFilters, base = new URLSearchParams()): URLSearchParams {
+  const p = new URLSearchParams(base);
+  for (const [field, key] of Object.entries(KEYS) as Array<[keyof typeof KEYS, string]>) {
+    if (f[field]) p.set(key, f[field]); else p.delete(key);
+  }
+  if (f.hasMedia) p.set('media', '1'); else p.delete('media');
+  if (f.sort !== 'newest') p.set('sort', f.sort); else p.delete('sort');
+  return p;
+}
+
+export function isFiltering(f: SightingFilters) {
+  return (Object.keys(KEYS) as Array<keyof typeof KEYS>).some((k) => !!f[k]) || f.hasMedia;
+}
+
+// Case- and accent-insensitive
+function fold(s?: string | null) {
+  return (s || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// yyyy-MM-dd → local-midnight ms (end of day when `endOfDay`)
+function dayBound(d: string, endOfDay: boolean) {
+  const t = new Date(`${d}T00:00:00`);
+  if (Number.isNaN(t.getTime())) return null;
+  if (endOfDay) t.setHours(23, 59, 59, 999);
+  return t.getTime();
+}
+
+export function matchesFilters(s: Sighting, f: SightingFilters) {
+  if (f.q) {
+    const hay = fold(`${s.summary} ${s.address_text || ''}`);
+    if (!fold(f.q).split(/\s+/).filter(Boolean).every((w) => hay.includes(w))) return false;
+  }
+  if (f.city && fold(s.city) !== fold(f.city)) return false;
+  if (f.state && fold(s.state) !== fold(f.state)) return false;
+  if (f.reporter && fold(s.user_name) !== fold(f.reporter)) return false;
+  if (f.hasMedia && !(s.media_urls && s.media_urls.length)) return false;
+  if (f.make && !fold(s.vehicle_make).includes(fold(f.make))) return false;
+  if (f.model && !fold(s.vehicle_model).includes(fold(f.model))) return false;
+  if (f.color && !fold(s.vehicle_color).includes(fold(f.color))) return false;
+  if (f.from || f.to) {
+    const t = new Date(s.reported_at).getTime();
+    const lo = f.from ? dayBound(f.from, false) : null;
+    const hi = f.to ? dayBound(f.to, true) : null;
+    if (lo != null && t < lo) return false;
+    if (hi != null && t > hi) return false;
+  }
+  return true;
+}
+
+function compare(a: Sighting, b: Sighting, sort: SightingSort) {
+  const newest = (b.reported_at || '').localeCompare(a.reported_at || '');
+  switch (sort) {
+    case 'oldest': return -newest;
+    case 'city': return fold(a.city).localeCompare(fold(b.city)) || newest;
+    case 'state': return fold(a.state).localeCompare(fold(b.state)) || fold(a.city).localeCompare(fold(b.city)) || newest;
+    case 'reporter': return fold(a.user_name).localeCompare(fold(b.user_name)) || newest;
+    default: return newest;
+  }
+}
+
+export function applyFilters(rows: Sighting[], f: SightingFilters): Sighting[] {
+  return rows.filter((s) => matchesFilters(s, f)).sort((a, b) => compare(a, b, f.sort));
+}
+
+// ==========================
+// API form (server-side query)
+// ==========================
+// Dates become ISO instants here, in the browser's timezone, so the server
+// doesn't have to guess what "2024-05-01" meant to the user.
+export type ApiFilters = {
+  q: string; city: string; state: string; reporter: string; hasMedia: boolean;
+  make: string; model: string; color: string;
+  after: string | null; before: string | null;
+  order: 'desc' | 'asc';
+};
+
+export function filtersToApiParams(f: SightingFilters, base = new URLSearchParams()): URLSearchParams {
+  const p = new URLSearchParams(base);
+  const put = (k: string, v: string) => { if (v) p.set(k, v); };
+  put('q', f.q.trim()); put('city', f.city); put('state', f.state); put('by', f.reporter);
+  put('make', f.make); put('model', f.model); put('color', f.color);
+  if (f.hasMedia) p.set('media', '1');
+  const lo = f.from ? dayBound(f.from, false) : null;
+  const hi = f.to ? dayBound(f.to, true) : null;
+  if (lo != null) p.set('after', new Date(lo).toISOString());
+  if (hi != null) p.set('before', new Date(hi).toISOString());
+  if (f.sort === 'oldest') p.set('order', 'asc');
+  return p;
+}
+
+export function parseApiFilters(p: URLSearchParams): ApiFilters {
+  const iso = (v: string | null) => {
+    if (!v) return null;
+    const d = new Date(v);
+    return Number.isNaN(d.getTime()) ? null : d.toISOString();
+  };
+  return {
+    q: (p.get('q') || '').trim(),
+    city: (p.get('city') || '').trim(),
+    state: (p.get('state') || '').trim(),
+    reporter: (p.get('by') || '').trim(),
+    hasMedia: p.get('media') === '1',
+    make: (p.get('make') || '').trim(),
+    model: (p.get('model') || '').trim(),
+    color: (p.get('color') || '').trim(),
+    after: iso(p.get('after')),
+    before: iso(p.get('before')),
+    order: p.get('order') === 'asc' ? 'asc' : 'desc',
+  };
+}
@@ -0,0 +1,259 @@
+// src/lib/sightingImport.ts
+// Parsing + column mapping for bulk imports (CSV, GeoJSON, NUFORC-style exports).
+// The wizard in ClientPage drives this; rows are sent to /api/sightings/import in batches.
+import { fromZonedTime } from 'date-fns-tz';
+import type { SightingInput } from './sighting';
+import { DEFAULT_COUNTRY, countryCode, countryName, normalizeRegion } from './regions';
+
+export type ImportField =
+  | 'reported_at' | 'summary' | 'city' | 'state' | 'country' | 'address_text' | 'lat' | 'lng'
+  | 'user_name' | 'media_urls' | 'vehicle_make' | 'vehicle_model' | 'vehicle_color';
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required?: boolean }> = [
+  { field: 'reported_at', label: 'Date / time', required: true },
+  { field: 'summary', label: 'Summary', required: true },
+  { field: 'city', label: 'City', required: true },
+  { field: 'state', label: 'State / region', required: true },
+  { field: 'country', label: 'Country' },
+  { field: 'address_text', label: 'Address' },
+  { field: 'lat', label: 'Latitude' },
+  { field: 'lng', label: 'Longitude' },
+  { field: 'user_name', label: 'Reporter' },
+  { field: 'media_urls', label: 'Media URLs' },
+  { field: 'vehicle_make', label: 'Vehicle make' },
+  { field: 'vehicle_model', label: 'Vehicle model' },
+  { field: 'vehicle_color', label: 'Vehicle color' },
+];
+
+/** Source column per field, plus extra columns appended to the summary ("Shape: Disk"). */
+export type ImportMapping = Partial<Record<ImportField, string>> & { extras?: string[] };
+
+export type ParsedFile = {
+  kind: 'csv' | 'geojson' | 'nuforc';
+  headers: string[];
+  records: Array<Record<string, string>>;
+};
+
+export type ImportRow = {
+  line: number;                       // 1-based data row (CSV header excluded) / feature index
+  input: Partial<SightingInput>;
+  errors: string[];
+  geocode?: 'ok' | 'approximate' | 'failed';
+};
+
+// Pseudo-columns for GeoJSON point geometry
+export const GEOMETRY_LAT = 'geometry.lat';
+export const GEOMETRY_LNG = 'geometry.lng';
+
+// ==========
+// File input
+// ==========
+function detectDelimiter(firstLine: string) {
+  const counts = [',', ';', '\t'].map((d) => [d, firstLine.split(d).length] as const);
+  return counts.sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/** RFC 4180-ish CSV: quoted fields, doubled quotes, CRLF, embedded newlines. */
+export function parseCSV(text: string): string[][] {
+  const src = text.replace(/^\ufeff/, '');
+  const delim = detectDelimiter(src.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+      continue;
+    }
+    if (ch === '"' && cell === '') quoted = true;
+    else if (ch === delim) { row.push(cell); cell = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      if (row.some((c) => c.trim() !== '')) rows.push(row);
+      row = [];
+    }
+    else cell += ch;
+  }
+  row.push(cell);
+  if (row.some((c) => c.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+// The parts of GeoJSON we read; anything else in the file is ignored
+type GeoJSONFeature = {
+  type?: string;
+  properties?: Record<string, unknown> | null;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+};
+type GeoJSONInput = GeoJSONFeature & { features?: unknown };
+
+function fromGeoJSON(json: GeoJSONInput | null): ParsedFile {
+  const features: (GeoJSONFeature | null)[] = json?.type === 'FeatureCollection' ? (Array.isArray(json.features) ? json.features : [])
+    : json?.type === 'Feature' ? [json] : [];
+  if (!features.length) throw new Error('GeoJSON has no features');
+
+  const headers = new Set<string>();
+  const records = features.map((f) => {
+    const rec: Record<string, string> = {};
+    for (const [k, v] of Object.entries(f?.properties || {})) {
+      if (v == null) continue;
+      rec[k] = Array.isArray(v) ? v.join(' ') : typeof v === 'object' ? JSON.stringify(v) : String(v);
+      headers.add(k);
+    }
+    const c = f?.geometry?.type === 'Point' ? f.geometry.coordinates : null;
+    if (Array.isArray(c) && c.length >= 2) { rec[GEOMETRY_LNG] = String(c[0]); rec[GEOMETRY_LAT] = String(c[1]); }
+    return rec;
+  });
+  return { kind: 'geojson', headers: [GEOMETRY_LAT, GEOMETRY_LNG, ...headers], records };
+}
+
+export function parseImportFile(name: string, text: string): ParsedFile {
+  const trimmed = text.trimStart().replace(/^\ufeff/, '');
+  if (/\.(geo)?json$/i.test(name) || trimmed.startsWith('{')) {
+    let json: unknown;
+    try { json = JSON.parse(trimmed); } catch { throw new Error('File is not valid JSON'); }
+    return fromGeoJSON(json && typeof json === 'object' && !Array.isArray(json) ? (json as GeoJSONInput) : null);
+  }
+
+  const rows = parseCSV(text);
+  if (rows.length < 2) throw new Error('CSV needs a header row and at least one data row');
+  const headers = rows[0].map((h, i) => h.trim() || `column ${i + 1}`);
+  const records = rows.slice(1).map((r) => Object.fromEntries(headers.map((h, i) => [h, (r[i] ?? '').trim()])));
+  const lower = headers.map((h) => h.toLowerCase());
+  // NUFORC exports: "Date / Time, City, State, Country, Shape, Duration, Summary, Posted, Images"
+  const nuforc = lower.includes('shape') && lower.includes('duration') && lower.includes('summary');
+  return { kind: nuforc ? 'nuforc' : 'csv', headers, records };
+}
+
+// =======
+// Mapping
+// =======
+const SYNONYMS: Record<ImportField, string[]> = {
+  reported_at: ['reported_at', 'date / time', 'date/time', 'datetime', 'date time', 'occurred', 'date', 'when', 'timestamp', 'time'],
+  summary: ['summary', 'description', 'details', 'report', 'text', 'notes', 'comments', 'title'],
+  city: ['city', 'town', 'locality'],
+  state: ['state', 'state code', 'st', 'province', 'region'],
+  country: ['country', 'country code', 'nation'],
+  address_text: ['address_text', 'address', 'location', 'place'],
+  lat: [GEOMETRY_LAT, 'lat', 'latitude', 'y'],
+  lng: [GEOMETRY_LNG, 'lng', 'lon', 'long', 'longitude', 'x'],
+  user_name: ['user_name', 'reporter', 'reported by', 'submitted by', 'author', 'name'],
+  media_urls: ['media_urls', 'media', 'images', 'photos', 'image', 'photo'],
+  vehicle_make: ['vehicle_make', 'make', 'vehicle make'],
+  vehicle_model: ['vehicle_model', 'model', 'vehicle model'],
+  vehicle_color: ['vehicle_color', 'color', 'colour', 'vehicle color'],
+};
+
+export function guessMapping(file: ParsedFile): ImportMapping {
+  const byLower = new Map(file.headers.map((h) => [h.toLowerCase().trim(), h]));
+  const used = new Set<string>();
+  const m: ImportMapping = {};
+  for (const { field } of IMPORT_FIELDS) {
+    const hit = SYNONYMS[field].map((s) => byLower.get(s)).find((h) => h && !used.has(h));
+    if (hit) { m[field] = hit; used.add(hit); }
+  }
+  // NUFORC "Images" is a Yes/No flag, not URLs
+  if (file.kind === 'nuforc') {
+    if (m.media_urls?.toLowerCase() === 'images') delete m.media_urls;
+    m.extras = ['shape', 'duration'].map((k) => byLower.get(k)).filter((h): h is string => !!h);
+  }
+  return m;
+}
+
+// ====================
+// Row → SightingInput
+// ====================
+function parseNumber(v: string) {
+  if (!v) return null;
+  const n = Number(v.replace(/,/g, '.').trim());
+  return Number.isFinite(n) ? n : NaN;
+}
+
+/**
+ * Accepts ISO (with or without offset) and US-style M/D/YYYY [h:mm[:ss]] [AM|PM].
+ * Times without an offset are read in `timeZone`.
+ */
+export function parseImportDate(v: string, timeZone: string): string | null {
+  const s = v.trim();
+  if (!s) return null;
+  if (/^\d{4}-\d{2}-\d{2}/.test(s)) {
+    const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(s);
+    const d = hasOffset ? new Date(s) : fromZonedTime(s.replace(' ', 'T'), timeZone);
+    return Number.isNaN(d.getTime()) ? null : d.toISOString();
+  }
+  const m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?:[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?)?$/i);
+  if (!m) return null;
+  let year = Number(m[3]);
+  if (m[3].length === 2) year += year > new Date().getFullYear() % 100 ? 1900 : 2000;
+  let hour = Number(m[4] || 0);
+  if (m[7]) hour = (hour % 12) + (m[7].toLowerCase() === 'pm' ? 12 : 0);
+  const pad = (n: number | string) => String(n).padStart(2, '0');
+  const local = `${year}-${pad(m[1])}-${pad(m[2])}T${pad(hour)}:${pad(m[5] || 0)}:${pad(m[6] || 0)}`;
+  const d = fromZonedTime(local, timeZone);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+export function mapRecords(file: ParsedFile, mapping: ImportMapping, roomId: string, timeZone: string): ImportRow[] {
+  const col = (rec: Record<string, string>, f: ImportField) => (mapping[f] ? (rec[mapping[f]!] || '').trim() : '');
+
+  return file.records.map((rec, i) => {
+    const errors: string[] = [];
+    const input: Partial<SightingInput> = { room_id: roomId };
+
+    const when = col(rec, 'reported_at');
+    const iso = parseImportDate(when, timeZone);
+    if (iso) input.reported_at = iso;
+    else errors.push(when ? `Unrecognised date "${when}"` : 'Missing date');
+
+    const extras = (mapping.extras || [])
+      .map((h) => (rec[h] ? `${h}: ${rec[h]}` : ''))
+      .filter(Boolean);
+    input.summary = [col(rec, 'summary'), extras.join('; ')].filter(Boolean).join(' — ');
+    if (!input.summary) errors.push('Missing summary');
+
+    input.city = col(rec, 'city');
+    // Country defaults to the US; the region is stored as its code when it's a known one ("Ontario" → "ON")
+    const country = col(rec, 'country');
+    input.country = country ? countryCode(country) || '' : DEFAULT_COUNTRY;
+    if (!input.country) errors.push(`Unrecognised country "${country}" — use its two-letter code (e.g. FR)`);
+    input.state = normalizeRegion(input.country || DEFAULT_COUNTRY, col(rec, 'state'));
+    if (!input.city) errors.push('Missing city');
+    if (!input.state) errors.push('Missing state');
+
+    input.address_text = col(rec, 'address_text') || null;
+    input.user_name = col(rec, 'user_name') || null;
+    input.vehicle_make = col(rec, 'vehicle_make') || null;
+    input.vehicle_model = col(rec, 'vehicle_model') || null;
+    input.vehicle_color = col(rec, 'vehicle_color') || null;
+
+    const media = col(rec, 'media_urls').split(/[\s,;|]+/).filter((u) => /^https?:\/\//i.test(u));
+    input.media_urls = media.length ? media : null;
+
+    const lat = parseNumber(col(rec, 'lat'));
+    const lng = parseNumber(col(rec, 'lng'));
+    if (Number.isNaN(lat) || Number.isNaN(lng)) errors.push('Latitude/longitude are not numbers');
+    else if (lat != null && lng != null) {
+      if (Math.abs(lat) > 90 || Math.abs(lng) > 180) errors.push('Latitude/longitude out of range');
+      else { input.lat = lat; input.lng = lng; }
+    }
+    if (input.lat == null) { input.lat = null; input.lng = null; }
+
+    return { line: i + 1, input, errors };
+  });
+}
+
+/** Rows that are otherwise valid but still need coordinates. */
+export function needsGeocode(r: ImportRow) {
+  return !r.errors.length && (r.input.lat == null || r.input.lng == null) && r.geocode !== 'failed';
+}
+
+export function geocodeQuery(r: ImportRow) {
+  const country = r.input.country && r.input.country !== DEFAULT_COUNTRY ? countryName(r.input.country) : null;
+  return [r.input.address_text, r.input.city, r.input.state, country].filter(Boolean).join(', ');
+}
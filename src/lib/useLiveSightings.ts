@@ -0,0 +1,172 @@
+// src/lib/useLiveSightings.ts
+'use client';
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel, RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+
+export type LiveStatus = 'idle' | 'connecting' | 'live' | 'offline';
+
+type Row = { id: string; room_id: string; reported_at: string };
+
+// Newest first, same as the list query
+function byReportedDesc(a: Row, b: Row) {
+  return (b.reported_at || '').localeCompare(a.reported_at || '');
+}
+
+/**
+ * Subscribes to Postgres changes on `sightings` for one room and merges them
+ * into local state. Events carry a commit timestamp; we remember the newest one
+ * applied per row so late/out-of-order events never overwrite fresher data.
+ * After sleep, network loss or a dropped socket we resubscribe and call `resync`
+ * to pick up anything we missed while disconnected; the fresh snapshot replaces
+ * those remembered versions, so the map only covers events since the last resync.
+ */
+export function useLiveSightings<T extends Row>(
+  client: SupabaseClient,
+  roomId: string | null,
+  setRows: (fn: (prev: T[]) => T[]) => void,
+  resync: () => Promise<void> | void,
+) {
+  const [status, setStatus] = useState<LiveStatus>('idle');
+  const versionsRef = useRef(new Map<string, string>());
+  const resyncRef = useRef(resync);
+  resyncRef.current = resync;
+
+  useEffect(() => {
+    if (!roomId) { setStatus('idle'); return; }
+    versionsRef.current = new Map();
+
+    let channel: RealtimeChannel | null = null;
+    let disposed = false;
+    let everSubscribed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = 1000;
+
+    // Start a resync from a clean slate; it reloads the rows, so older versions aren't needed
+    const catchUp = () => {
+      versionsRef.current = new Map();
+      void resyncRef.current();
+    };
+
+    // Returns false when this event is older than what we already applied
+    const claim = (id: string, ts?: string) => {
+      if (!ts) return true;
+      const seen = versionsRef.current.get(id);
+      if (seen && seen >= ts) return false;
+      versionsRef.current.set(id, ts);
+      return true;
+    };
+
+    const onChange = (payload: RealtimePostgresChangesPayload<T>) => {
+      const ts = payload.commit_timestamp;
+      if (payload.eventType === 'DELETE') {
+        const old = payload.old as Partial<T>;
+        // The old row carries room_id only under REPLICA IDENTITY FULL; skip other rooms when it does
+        if (!old?.id || (old.room_id && old.room_id !== roomId) || !claim(old.id, ts)) return;
+        const id = old.id;
+        setRows((prev) => prev.filter((r) => r.id !== id));
+        return;
+      }
+      const row = payload.new as T;
+      if (!row?.id || row.room_id !== roomId || !claim(row.id, ts)) return;
+      setRows((prev) => {
+        const next = prev.filter((r) => r.id !== row.id);
+        next.push(row);
+        return next.sort(byReportedDesc);
+      });
+    };
+
+    // Each attempt gets its own channel and topic: removing the old channel fires its CLOSED
+    // callback, and client.channel() would hand back a channel that's still leaving.
+    let attempt = 0;
+    const connect = async () => {
+      if (disposed) return;
+      const mine = ++attempt;
+      const old = channel;
+      channel = null;
+      setStatus('connecting');
+      if (old) { try { await client.removeChannel(old); } catch {} }
+      if (disposed || mine !== attempt) return;
+
+      const ch = client
+        .channel(`sightings-live-${roomId}-${mine}`)
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'sightings', filter: `room_id=eq.${roomId}` }, onChange)
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'sightings', filter: `room_id=eq.${roomId}` }, onChange)
+        // DELETE events can't be filtered server-side; removing an id we don't hold is a no-op
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'sightings' }, onChange);
+      channel = ch;
+
+      ch.subscribe((s) => {
+        // Callbacks from a replaced channel (including its own CLOSED on removal) are stale
+        if (disposed || ch !== channel) return;
+        if (s === 'SUBSCRIBED') {
+          setStatus('live');
+          retryDelay = 1000;
+          if (everSubscribed) catchUp();
+          everSubscribed = true;
+        } else if (s === 'CHANNEL_ERROR' || s === 'TIMED_OUT' || s === 'CLOSED') {
+          setStatus('offline');
+          scheduleRetry();
+        }
+      });
+    };
+
+    const scheduleRetry = () => {
+      if (disposed || retryTimer) return;
+      retryTimer = setTimeout(() => {
+        retryTimer = undefined;
+        retryDelay = Math.min(retryDelay * 2, 30000);
+        void connect();
+      }, retryDelay);
+    };
+
+    const reconnectNow = () => {
+      if (retryTimer) { clearTimeout(retryTimer); retryTimer = undefined; }
+      retryDelay = 1000;
+      void connect();
+    };
+
+    // Old clients still broadcast on room-<id> after writing; treat it as a resync hint
+    const legacy = client
+      .channel(`room-${roomId}`, { config: { broadcast: { self: false } } })
+      .on('broadcast', { event: 'sightings:changed' }, () => catchUp())
+      .subscribe();
+
+    void connect();
+
+    // Returning from background / network: resubscribe if the socket died, always catch up
+    const onVisible = () => {
+      if (document.visibilityState !== 'visible') return;
+      if (channel?.state !== 'joined') reconnectNow();
+      catchUp();
+    };
+    const onOnline = () => { reconnectNow(); catchUp(); };
+    const onOffline = () => setStatus('offline');
+
+    // Timers stall while a laptop/phone sleeps; a big gap means we woke up
+    let lastTick = Date.now();
+    const wake = setInterval(() => {
+      const now = Date.now();
+      if (now - lastTick > 45000) { reconnectNow(); catchUp(); }
+      lastTick = now;
+    }, 15000);
+
+    document.addEventListener('visibilitychange', onVisible);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+
+    return () => {
+      disposed = true;
+      clearInterval(wake);
+      if (retryTimer) clearTimeout(retryTimer);
+      document.removeEventListener('visibilitychange', onVisible);
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+      const last = channel;
+      channel = null;
+      try { if (last) void client.removeChannel(last); } catch {}
+      try { void client.removeChannel(legacy); } catch {}
+    };
+  }, [client, roomId, setRows]);
+
+  return status;
+}
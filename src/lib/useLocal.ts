@@ -1,5 +1,230 @@
 // src/lib/useLocal.ts
 'use client';
-export function useLocalSightings(_roomId?: string) {
-  return { set: (_rows: any) => {}, get: () => [] as any[] };
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// ==========================
+// IndexedDB (offline storage)
+// ==========================
+const DB_NAME = 'ufo-offline';
+const DB_VERSION = 1;
+const OUTBOX = 'outbox';
+const ROOMS = 'rooms';
+
+// Tag the service worker listens for (see src/worker/index.js)
+export const OUTBOX_SYNC_TAG = 'ufo-outbox';
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: 'key' });
+      if (!db.objectStoreNames.contains(ROOMS)) db.createObjectStore(ROOMS, { keyPath: 'room_id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function tx<T>(store: string, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const t = db.transaction(store, mode);
+      const req = run(t.objectStore(store));
+      t.oncomplete = () => resolve(req.result);
+      t.onerror = () => reject(t.error);
+      t.onabort = () => reject(t.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// =====================
+// Offline report queue
+// =====================
+export type QueuedFile = { name: string; type: string; blob: Blob };
+
+export type QueuedSighting = {
+  key: string;                           // local id
+  room_id: string;
+  op: 'create' | 'update';
+  target_id: string | null;              // sighting id when op = update, or once a create went through
+  client_key: string;                    // idempotency key sent with creates (made before the first attempt)
+  base: Record<string, unknown>;         // row payload without media_urls
+  keep_media: string[] | null;           // already-uploaded media
+  files: QueuedFile[];                   // media still to upload
+  snapshot: Record<string, unknown> | null; // server row when the edit began
+  queued_at: string;
+  attempts: number;
+  last_error: string | null;
+  status: 'pending' | 'conflict' | 'failed';
+  conflict?: 'changed' | 'deleted' | null;
+  force?: boolean;                       // user chose "keep mine" after a conflict
+};
+
+export type SubmitResult = { ok: true } | { ok: false; conflict: 'changed' | 'deleted' };
+
+/** Saves progress mid-submit (e.g. media uploaded) so a retry doesn't redo it. */
+export type Checkpoint = (patch: Partial<QueuedSighting>) => Promise<void>;
+
+export type Submitter = (item: QueuedSighting, checkpoint: Checkpoint) => Promise<SubmitResult>;
+
+/** Random id for queue entries and idempotency keys. */
+export function randomKey() {
+  return typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/** A write the server answered with an error status (thrown by the Submitter). */
+export class SubmitError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SubmitError';
+  }
+}
+
+// Retries before a still-failing item is parked as 'failed' for the user to look at
+const MAX_ATTEMPTS = 8;
+
+/** 4xx answers (validation, permissions, missing room) won't change by retrying; timeouts and rate limits might. */
+function isPermanentError(e: unknown) {
+  return e instanceof SubmitError && e.status >= 400 && e.status < 500 && e.status !== 408 && e.status !== 429;
+}
+
+/** Network-ish failures we should queue for later rather than surface as errors. */
+export function isOfflineError(e: unknown) {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const msg = (e as { message?: string } | null)?.message || String(e);
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(msg);
+}
+
+/** Ask the service worker to fire a `sync` event once connectivity returns. */
+export async function requestBackgroundSync() {
+  try {
+    if (!('serviceWorker' in navigator)) return;
+    const reg = await navigator.serviceWorker.ready;
+    const sync = (reg as ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } }).sync;
+    await sync?.register(OUTBOX_SYNC_TAG);
+  } catch {}
+}
+
+/**
+ * Offline copy of a room's sightings plus the queue of reports waiting to upload.
+ * `submit` performs the real write (omit it to use only the offline row cache); it throws on network failure (item stays queued),
+ * throws a SubmitError when the server refuses the write (4xx: the item is marked 'failed' with the server's message, as is
+ * one still failing after MAX_ATTEMPTS tries), and returns a conflict when a queued edit targets a row that changed server-side.
+ * The queue is replayed on mount, when the browser comes back online, and when the
+ * service worker fires a background sync.
+ */
+export function useLocalSightings<T = unknown>(roomId: string | null | undefined, submit?: Submitter) {
+  const [pending, setPending] = useState<QueuedSighting[]>([]);
+  const [flushing, setFlushing] = useState(false);
+  const busyRef = useRef(false);
+  const submitRef = useRef(submit);
+  submitRef.current = submit;
+
+  const refresh = useCallback(async () => {
+    try {
+      const all = await tx<QueuedSighting[]>(OUTBOX, 'readonly', (s) => s.getAll() as IDBRequest<QueuedSighting[]>);
+      setPending(all.sort((a, b) => a.queued_at.localeCompare(b.queued_at)));
+    } catch {}
+  }, []);
+
+  const put = useCallback(async (item: QueuedSighting) => {
+    await tx(OUTBOX, 'readwrite', (s) => s.put(item));
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (busyRef.current || !submitRef.current) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+    busyRef.current = true; setFlushing(true);
+    try {
+      const all = await tx<QueuedSighting[]>(OUTBOX, 'readonly', (s) => s.getAll() as IDBRequest<QueuedSighting[]>);
+      for (const queued of all.sort((a, b) => a.queued_at.localeCompare(b.queued_at))) {
+        if (queued.status !== 'pending') continue;
+        let item = queued;
+        const checkpoint: Checkpoint = async (patch) => { item = { ...item, ...patch }; await put(item); };
+        try {
+          const r = await submitRef.current!(item, checkpoint);
+          if (r.ok) await tx(OUTBOX, 'readwrite', (s) => s.delete(item.key));
+          else await put({ ...item, status: 'conflict', conflict: r.conflict, last_error: null });
+        } catch (e) {
+          const offline = isOfflineError(e);
+          const attempts = item.attempts + 1;
+          const failed = !offline && (isPermanentError(e) || attempts >= MAX_ATTEMPTS);
+          await put({ ...item, attempts, last_error: (e as Error)?.message || String(e), status: failed ? 'failed' : 'pending' });
+          if (offline) break; // still no connection; try again on the next trigger
+        }
+      }
+    } catch {}
+    finally {
+      busyRef.current = false; setFlushing(false);
+      await refresh();
+    }
+  }, [put, refresh]);
+
+  const enqueue = useCallback(async (item: Omit<QueuedSighting, 'key' | 'queued_at' | 'attempts' | 'last_error' | 'status'>) => {
+    await put({ ...item, key: randomKey(), queued_at: new Date().toISOString(), attempts: 0, last_error: null, status: 'pending' });
+    await refresh();
+    void requestBackgroundSync();
+  }, [put, refresh]);
+
+  const discard = useCallback(async (key: string) => {
+    await tx(OUTBOX, 'readwrite', (s) => s.delete(key));
+    await refresh();
+  }, [refresh]);
+
+  // Conflict resolution: "keep mine" overwrites (or re-creates a deleted row)
+  const keepMine = useCallback(async (key: string) => {
+    const item = await tx<QueuedSighting | undefined>(OUTBOX, 'readonly', (s) => s.get(key) as IDBRequest<QueuedSighting | undefined>);
+    if (!item) return;
+    const next: QueuedSighting = item.conflict === 'deleted'
+      ? { ...item, op: 'create', target_id: null, snapshot: null, client_key: randomKey(), status: 'pending', conflict: null }
+      : { ...item, force: true, status: 'pending', conflict: null };
+    await put(next);
+    await refresh();
+    void flush();
+  }, [put, refresh, flush]);
+
+  // A failed item goes back in the queue once the user has fixed what stopped it (e.g. got approved)
+  const retry = useCallback(async (key: string) => {
+    const item = await tx<QueuedSighting | undefined>(OUTBOX, 'readonly', (s) => s.get(key) as IDBRequest<QueuedSighting | undefined>);
+    if (!item) return;
+    await put({ ...item, status: 'pending', attempts: 0, last_error: null });
+    await refresh();
+    void flush();
+  }, [put, refresh, flush]);
+
+  // Cached rows for offline viewing
+  const set = useCallback(async (rows: T[], id = roomId) => {
+    if (!id) return;
+    try { await tx(ROOMS, 'readwrite', (s) => s.put({ room_id: id, rows, saved_at: new Date().toISOString() })); } catch {}
+  }, [roomId]);
+
+  const get = useCallback(async (id = roomId): Promise<T[]> => {
+    if (!id) return [];
+    try {
+      const rec = await tx<{ rows: T[] } | undefined>(ROOMS, 'readonly', (s) => s.get(id) as IDBRequest<{ rows: T[] } | undefined>);
+      return rec?.rows || [];
+    } catch { return []; }
+  }, [roomId]);
+
+  // Replay triggers: mount, reconnect, and background sync messages from the SW
+  useEffect(() => {
+    if (typeof window === 'undefined' || !('indexedDB' in window)) return;
+    void refresh().then(() => flush());
+
+    const onOnline = () => { void flush(); };
+    const onMessage = (ev: MessageEvent) => { if (ev.data?.type === 'ufo:outbox-sync') void flush(); };
+
+    window.addEventListener('online', onOnline);
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      navigator.serviceWorker?.removeEventListener('message', onMessage);
+    };
+  }, [refresh, flush]);
+
+  return { pending, flushing, enqueue, flush, discard, keepMine, retry, set, get };
 }
@@ -0,0 +1,3 @@
+// Side-effect Leaflet plugins; they extend the global L (see loadLeaflet in ClientPage)
+declare module 'leaflet.markercluster';
+declare module 'leaflet.heat';
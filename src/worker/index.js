@@ -0,0 +1,45 @@
+// src/worker/index.js
+// Custom service worker code; next-pwa bundles this and imports it into sw.js.
+
+// Background Sync: the page queues offline reports in IndexedDB (src/lib/useLocal.ts)
+// and registers this tag. Uploads need the signed-in Supabase session that lives in
+// the page, so we wake any open window and let it replay the queue.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'ufo-outbox') return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      // No window open: reject so the browser retries the sync later
+      if (!clients.length) throw new Error('no client to replay outbox');
+      clients.forEach((c) => c.postMessage({ type: 'ufo:outbox-sync' }));
+    })
+  );
+});
+
+// Web Push: payload is { title, body, url, tag } (see src/lib/server/push.ts)
+self.addEventListener('push', (event) => {
+  let data = {};
+  try { data = event.data ? event.data.json() : {}; } catch { data = { body: event.data && event.data.text() }; }
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'New sighting', {
+      body: data.body || '',
+      tag: data.tag,
+      icon: '/icons/icon-192.png',
+      badge: '/icons/icon-192.png',
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+// Tapping the notification opens the sighting on the map: reuse an open window if there is one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const win = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (!win) return self.clients.openWindow(url);
+      win.postMessage({ type: 'ufo:open', url });
+      return win.focus();
+    })
+  );
+});
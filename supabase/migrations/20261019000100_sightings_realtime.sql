@@ -0,0 +1,13 @@
+-- Stream sightings changes to clients (ClientPage → useLiveSightings).
+-- REPLICA IDENTITY FULL so UPDATE/DELETE payloads carry the old row.
+alter table public.sightings replica identity full;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'sightings'
+  ) then
+    alter publication supabase_realtime add table public.sightings;
+  end if;
+end $$;
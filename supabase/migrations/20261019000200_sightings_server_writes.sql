@@ -0,0 +1,10 @@
+-- Sightings are written only through /api/sightings (service role).
+-- Browsers keep read access so realtime subscriptions still work.
+alter table public.sightings enable row level security;
+
+drop policy if exists "sightings_select_all" on public.sightings;
+create policy "sightings_select_all" on public.sightings
+  for select using (true);
+
+-- No insert/update/delete policies for anon/authenticated: the service role bypasses RLS.
+revoke insert, update, delete on public.sightings from anon, authenticated;
@@ -0,0 +1,9 @@
+-- Index-friendly shapes for /api/sightings:
+--   list pages:  where room_id = $1 [and (reported_at, id) < cursor] order by reported_at desc, id desc
+--   map viewport: where room_id = $1 and lat between $s and $n and lng between $w and $e
+create index if not exists sightings_room_reported_idx
+  on public.sightings (room_id, reported_at desc, id desc);
+
+create index if not exists sightings_room_lat_lng_idx
+  on public.sightings (room_id, lat, lng)
+  where lat is not null and lng is not null;
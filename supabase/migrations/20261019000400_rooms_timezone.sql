@@ -0,0 +1,3 @@
+-- IANA timezone a room reports in (e.g. 'America/Chicago'); exports show local times in it.
+-- NULL means UTC.
+alter table public.rooms add column if not exists timezone text;
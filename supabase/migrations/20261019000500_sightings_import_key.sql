@@ -0,0 +1,7 @@
+-- Bulk imports tag each row with a content hash so re-running the same file is a no-op.
+-- (Not a partial index: ON CONFLICT (room_id, import_key) must be able to infer it;
+-- rows added through the app keep import_key NULL, and NULLs never collide.)
+alter table public.sightings add column if not exists import_key text;
+
+create unique index if not exists sightings_room_import_key_idx
+  on public.sightings (room_id, import_key);
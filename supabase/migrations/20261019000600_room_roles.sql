@@ -0,0 +1,71 @@
+-- Room roles (owner > admin > member > viewer), room-level settings, and sighting ownership.
+-- API routes enforce these with the service role; RLS below covers direct browser access.
+
+alter table public.members add column if not exists role text not null default 'member';
+alter table public.members drop constraint if exists members_role_check;
+alter table public.members add constraint members_role_check
+  check (role in ('owner', 'admin', 'member', 'viewer'));
+
+-- Settings that used to be local component state
+alter table public.rooms add column if not exists require_auth boolean not null default true;
+alter table public.rooms add column if not exists edit_policy text not null default 'own';
+alter table public.rooms drop constraint if exists rooms_edit_policy_check;
+alter table public.rooms add constraint rooms_edit_policy_check check (edit_policy in ('own', 'any'));
+
+alter table public.sightings add column if not exists created_by uuid references auth.users (id) on delete set null;
+
+-- Existing owners (rooms.owner_email) become owner members
+insert into public.members (room_id, email, approved, email_enabled, sms_enabled, role)
+select r.id, lower(r.owner_email), true, true, false, 'owner'
+from public.rooms r
+where r.owner_email is not null
+  and not exists (
+    select 1 from public.members m where m.room_id = r.id and lower(m.email) = lower(r.owner_email)
+  );
+
+update public.members m
+set role = 'owner'
+from public.rooms r
+where m.room_id = r.id and lower(m.email) = lower(r.owner_email);
+
+-- Caller's role in a room (null when not an approved member)
+create or replace function public.room_role(p_room uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select m.role
+  from public.members m
+  where m.room_id = p_room
+    and m.approved
+    and lower(m.email) = lower(auth.jwt() ->> 'email')
+  order by case m.role when 'owner' then 0 when 'admin' then 1 when 'member' then 2 else 3 end
+  limit 1
+$$;
+
+-- rooms: anyone can look a room up (join by id/code/name) but never sees admin_code;
+-- creating and changing rooms goes through /api/rooms.
+alter table public.rooms enable row level security;
+drop policy if exists "rooms_select_all" on public.rooms;
+create policy "rooms_select_all" on public.rooms for select using (true);
+revoke insert, update, delete on public.rooms from anon, authenticated;
+revoke select on public.rooms from anon, authenticated;
+grant select (id, name, short_code, require_auth, edit_policy, timezone) on public.rooms to anon, authenticated;
+
+-- members: you see your own rows; owners/admins see their room's roster.
+-- Changes go through /api/members/join and /api/rooms/members.
+alter table public.members enable row level security;
+drop policy if exists "members_select_self_or_admin" on public.members;
+create policy "members_select_self_or_admin" on public.members
+  for select to authenticated
+  using (
+    lower(email) = lower(auth.jwt() ->> 'email')
+    or public.room_role(room_id) in ('owner', 'admin')
+  );
+revoke insert, update, delete on public.members from anon, authenticated;
+revoke select on public.members from anon;
+
+-- sightings stay read-all / write-via-API (20261019000200); the API applies the
+-- role + edit_policy rules before it writes.
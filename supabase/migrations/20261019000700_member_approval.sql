@@ -0,0 +1,19 @@
+-- Join requests: rooms in 'approval' mode hold new members as pending until an
+-- owner/admin decides; 'open' rooms approve everyone who joins (the old behaviour).
+-- Existing rooms move to 'approval' too — anyone with the room id could subscribe before.
+
+alter table public.rooms add column if not exists join_mode text not null default 'approval';
+alter table public.rooms drop constraint if exists rooms_join_mode_check;
+alter table public.rooms add constraint rooms_join_mode_check check (join_mode in ('approval', 'open'));
+
+-- Audit trail: when the request came in, and who approved/denied it and when.
+-- pending = not approved and no decision yet; denied = not approved after a decision.
+alter table public.members add column if not exists requested_at timestamptz not null default now();
+alter table public.members add column if not exists decided_at timestamptz;
+alter table public.members add column if not exists decided_by text; -- approver's email; null = automatic
+
+create index if not exists members_room_pending_idx
+  on public.members (room_id, requested_at)
+  where not approved and decided_at is null;
+
+grant select (join_mode) on public.rooms to anon, authenticated;
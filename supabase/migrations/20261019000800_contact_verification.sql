@@ -0,0 +1,36 @@
+-- Double opt-in: alerts only go to contacts that proved they're reachable.
+-- SMS numbers are confirmed with a one-time code; emails with a link (or by the
+-- sign-in itself when Supabase Auth already confirmed the address).
+
+alter table public.members add column if not exists email_verified_at timestamptz;
+alter table public.members add column if not exists phone_verified_at timestamptz;
+
+-- Emails that match a confirmed auth account count as verified. Existing phone
+-- numbers were never checked, so they stop receiving texts until re-verified.
+update public.members m
+set email_verified_at = u.email_confirmed_at
+from auth.users u
+where m.email_verified_at is null
+  and u.email_confirmed_at is not null
+  and lower(u.email) = lower(m.email);
+
+-- One-time codes / confirm-link tokens (hashed). Only the API (service role) touches these.
+create table if not exists public.verification_codes (
+  id uuid primary key default gen_random_uuid(),
+  member_id uuid not null references public.members (id) on delete cascade,
+  channel text not null check (channel in ('sms', 'email')),
+  target text not null,                  -- phone number / email being verified
+  code_hash text not null,
+  attempts int not null default 0,
+  expires_at timestamptz not null,
+  consumed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists verification_codes_member_idx
+  on public.verification_codes (member_id, channel, created_at desc);
+create unique index if not exists verification_codes_hash_idx
+  on public.verification_codes (code_hash);
+
+alter table public.verification_codes enable row level security;
+revoke all on public.verification_codes from anon, authenticated;
@@ -0,0 +1,30 @@
+-- Geofenced alerts: a member can limit alerts to one or more areas (radius or polygon)
+-- and set quiet hours. Members without areas keep getting every alert for the room.
+
+create table if not exists public.alert_areas (
+  id uuid primary key default gen_random_uuid(),
+  member_id uuid not null references public.members (id) on delete cascade,
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  name text,
+  kind text not null check (kind in ('radius', 'polygon')),
+  center_lat double precision,
+  center_lng double precision,
+  radius_m double precision,
+  polygon jsonb,                          -- [[lat, lng], ...] (ring, not closed)
+  created_at timestamptz not null default now(),
+  constraint alert_areas_shape_check check (
+    (kind = 'radius' and center_lat is not null and center_lng is not null and radius_m > 0)
+    or (kind = 'polygon' and jsonb_typeof(polygon) = 'array' and jsonb_array_length(polygon) >= 3)
+  )
+);
+
+create index if not exists alert_areas_room_idx on public.alert_areas (room_id, member_id);
+
+-- Quiet hours in the member's own timezone; start > end wraps past midnight (22:00–07:00)
+alter table public.members add column if not exists quiet_start time;
+alter table public.members add column if not exists quiet_end time;
+alter table public.members add column if not exists quiet_tz text;
+
+-- Managed through /api/members/alerts
+alter table public.alert_areas enable row level security;
+revoke all on public.alert_areas from anon, authenticated;
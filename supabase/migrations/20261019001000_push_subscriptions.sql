@@ -0,0 +1,21 @@
+-- Web Push: one row per browser subscription per member. The same browser can be
+-- subscribed in several rooms (same endpoint, different member rows).
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  member_id uuid not null references public.members (id) on delete cascade,
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  endpoint text not null,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_success_at timestamptz,
+  unique (member_id, endpoint)
+);
+
+create index if not exists push_subscriptions_room_idx on public.push_subscriptions (room_id);
+
+-- Managed through /api/members/push; rows whose endpoint is gone (404/410) are pruned on send
+alter table public.push_subscriptions enable row level security;
+revoke all on public.push_subscriptions from anon, authenticated;
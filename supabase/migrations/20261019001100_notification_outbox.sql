@@ -0,0 +1,66 @@
+-- Durable notifications: every intended email/SMS/push is a row here. The request that
+-- creates a sighting enqueues and makes a first attempt; /api/cron/outbox retries with
+-- exponential backoff. Provider webhooks (Twilio status, Resend events) update the row,
+-- which doubles as the per-sighting delivery log for room admins.
+
+create table if not exists public.notification_outbox (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  sighting_id uuid references public.sightings (id) on delete set null,
+  member_id uuid references public.members (id) on delete set null,
+  kind text not null default 'sighting' check (kind in ('sighting', 'test', 'join_request')),
+  channel text not null check (channel in ('email', 'sms', 'push')),
+  target text not null,                   -- email address / phone number / push endpoint
+  push_subscription_id uuid references public.push_subscriptions (id) on delete set null,
+  message jsonb not null,                 -- see OutboxMessage in src/lib/server/outbox.ts
+  status text not null default 'pending'
+    check (status in ('pending', 'sending', 'sent', 'delivered', 'failed')),
+  attempts int not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  locked_until timestamptz,
+  last_error text,
+  provider_id text,                       -- Resend email id / Twilio message SID
+  provider_status text,                   -- last status reported by the provider
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  sent_at timestamptz,
+  delivered_at timestamptz
+);
+
+create index if not exists notification_outbox_due_idx
+  on public.notification_outbox (next_attempt_at)
+  where status in ('pending', 'sending');
+create index if not exists notification_outbox_sighting_idx on public.notification_outbox (sighting_id, created_at);
+create index if not exists notification_outbox_provider_idx on public.notification_outbox (provider_id) where provider_id is not null;
+
+-- Hands out due rows to one worker at a time. Rows stuck in 'sending' past their lock
+-- (worker crashed mid-send) are picked up again.
+create or replace function public.claim_notification_outbox(p_limit int, p_ids uuid[] default null)
+returns setof public.notification_outbox
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  update public.notification_outbox o
+  set status = 'sending',
+      attempts = o.attempts + 1,
+      locked_until = now() + interval '5 minutes',
+      updated_at = now()
+  where o.id in (
+    select id
+    from public.notification_outbox
+    where ((status = 'pending' and next_attempt_at <= now())
+           or (status = 'sending' and locked_until < now()))
+      and (p_ids is null or id = any (p_ids))
+    order by next_attempt_at
+    limit p_limit
+    for update skip locked
+  )
+  returning o.*
+$$;
+
+revoke execute on function public.claim_notification_outbox(int, uuid[]) from public, anon, authenticated;
+
+alter table public.notification_outbox enable row level security;
+revoke all on public.notification_outbox from anon, authenticated;
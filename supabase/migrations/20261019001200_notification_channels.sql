@@ -0,0 +1,7 @@
+-- Room-wide notification channels (Slack, Discord, generic webhook) go through the outbox too.
+-- For those rows `target` is the provider name and member_id is null.
+
+alter table public.notification_outbox drop constraint if exists notification_outbox_channel_check;
+alter table public.notification_outbox
+  add constraint notification_outbox_channel_check
+  check (channel in ('email', 'sms', 'push', 'slack', 'discord', 'webhook'));
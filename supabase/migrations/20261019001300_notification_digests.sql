@@ -0,0 +1,32 @@
+-- Digest mode: per member and channel, alerts can be instant (default) or batched into an
+-- hourly or daily summary. Digest sightings wait in digest_items until /api/cron/digests sends them.
+
+alter table public.members
+  add column if not exists email_digest text not null default 'instant' check (email_digest in ('instant', 'hourly', 'daily')),
+  add column if not exists sms_digest text not null default 'instant' check (sms_digest in ('instant', 'hourly', 'daily')),
+  add column if not exists digest_hour smallint not null default 8 check (digest_hour between 0 and 23),  -- daily digests, local time
+  add column if not exists digest_tz text,                      -- IANA; falls back to the room's timezone
+  add column if not exists email_digest_sent_at timestamptz,
+  add column if not exists sms_digest_sent_at timestamptz;
+
+create table if not exists public.digest_items (
+  id uuid primary key default gen_random_uuid(),
+  member_id uuid not null references public.members (id) on delete cascade,
+  room_id uuid not null references public.rooms (id) on delete cascade,
+  channel text not null check (channel in ('email', 'sms')),
+  sighting_id uuid not null references public.sightings (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  digested_at timestamptz,
+  unique (member_id, channel, sighting_id)
+);
+
+create index if not exists digest_items_pending_idx on public.digest_items (member_id, channel) where digested_at is null;
+
+alter table public.digest_items enable row level security;
+revoke all on public.digest_items from anon, authenticated;
+
+-- Digests are delivered through the outbox like everything else
+alter table public.notification_outbox drop constraint if exists notification_outbox_kind_check;
+alter table public.notification_outbox
+  add constraint notification_outbox_kind_check
+  check (kind in ('sighting', 'test', 'join_request', 'digest'));
@@ -0,0 +1,13 @@
+-- Localized, per-room notification wording (see src/lib/notifyTemplates.ts).
+-- rooms.locale is the default language for the room's alerts; members can pick their own.
+-- notify_templates holds the room's overrides: { "en": { "subject", "body", "short" }, "es": { … } }.
+
+alter table public.rooms
+  add column if not exists locale text not null default 'en' check (locale in ('en', 'es')),
+  add column if not exists notify_templates jsonb not null default '{}'::jsonb;
+
+alter table public.members
+  add column if not exists locale text check (locale in ('en', 'es'));  -- null = the room's language
+
+-- The language is part of the public settings; templates are read through /api/rooms/templates
+grant select (locale) on public.rooms to anon, authenticated;
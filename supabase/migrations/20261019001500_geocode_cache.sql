@@ -0,0 +1,18 @@
+-- Shared cache for /api/geocode answers (see src/lib/server/geocode/cache.ts). Each server
+-- instance also keeps an in-memory LRU; this table lets instances and cold starts share hits.
+-- key = kind + hash of the normalized query; body is the JSON answer, status its HTTP status
+-- (404 answers are cached for a shorter time).
+
+create table if not exists public.geocode_cache (
+  key text primary key,
+  status int not null,
+  body jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists geocode_cache_expires_idx on public.geocode_cache (expires_at);
+
+-- Server-only (service role); expired rows are pruned now and then on write
+alter table public.geocode_cache enable row level security;
+revoke all on public.geocode_cache from anon, authenticated;
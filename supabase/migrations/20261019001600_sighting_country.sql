@@ -0,0 +1,4 @@
+-- Sightings outside the US (see src/lib/regions.ts). `state` keeps the region: the ISO 3166-2
+-- subdivision code without the country prefix for known countries ("ON", "ENG", "JAL"), else as written.
+alter table public.sightings
+  add column if not exists country text not null default 'US' check (country ~ '^[A-Z]{2}$');
@@ -0,0 +1,7 @@
+-- Reports created from the app carry a client-generated key, so replaying a queued create whose
+-- response was lost returns the row it already made instead of posting it twice.
+-- (Like import_key: a full unique index, and rows without a key keep NULL, which never collides.)
+alter table public.sightings add column if not exists client_key text;
+
+create unique index if not exists sightings_room_client_key_idx
+  on public.sightings (room_id, client_key);